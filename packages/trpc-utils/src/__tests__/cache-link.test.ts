@@ -0,0 +1,299 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { observable } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type TRPCLink } from '@trpc/client';
+import { initTRPC } from '@trpc/server';
+import { cacheLink, createMemoryCacheStorage } from '../cache-link';
+import type { CachedQueryResult, CacheStorageAdapter } from '../types';
+import {
+  createControlledLink,
+  createMockOp,
+  createRunner,
+  type MockRouter,
+} from './link-fixtures';
+
+// Terminating link answering `<path>#<request number>`, or failing paths containing "fail"
+const createCountingLink = () => {
+  const requests: Operation[] = [];
+  const link: TRPCLink<MockRouter> = () => ({ op }) =>
+    observable((observer) => {
+      requests.push(op);
+      if (op.path.includes('fail')) {
+        observer.error(TRPCClientError.from(new Error('fetch failed')) as never);
+        return () => {};
+      }
+      observer.next({ result: { type: 'data', data: `${op.path}#${requests.length}` } });
+      observer.complete();
+      return () => {};
+    });
+  return { link, requests };
+};
+
+const dataOf = (observer: { next: ReturnType<typeof vi.fn> }) =>
+  observer.next.mock.calls.map(([envelope]) => envelope.result.data);
+
+describe('cacheLink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should serve fresh results from the cache', () => {
+    const upstream = createCountingLink();
+    const run = createRunner([cacheLink({ ttlMs: 1000 }), upstream.link]);
+
+    const first = run(createMockOp('users.list', { input: { page: 1, sort: 'name' } }));
+    vi.advanceTimersByTime(999);
+    const second = run(createMockOp('users.list', { input: { sort: 'name', page: 1 } }));
+
+    expect(upstream.requests).toHaveLength(1);
+    expect(dataOf(first)).toEqual(['users.list#1']);
+    expect(dataOf(second)).toEqual(['users.list#1']);
+    expect(second.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should request expired results again', () => {
+    const upstream = createCountingLink();
+    const run = createRunner([cacheLink({ ttlMs: 1000 }), upstream.link]);
+
+    run(createMockOp('users.list'));
+    vi.advanceTimersByTime(1000);
+    const second = run(createMockOp('users.list'));
+
+    expect(upstream.requests).toHaveLength(2);
+    expect(dataOf(second)).toEqual(['users.list#2']);
+  });
+
+  it('should serve stale results while revalidating them once', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      cacheLink({ ttlMs: 1000, staleWhileRevalidateMs: 5000 }),
+      upstream.link,
+    ]);
+
+    run(createMockOp('users.list'));
+    upstream.respond(0, 'v1');
+    vi.advanceTimersByTime(2000);
+
+    const stale = [run(createMockOp('users.list')), run(createMockOp('users.list'))];
+    expect(stale.map(dataOf)).toEqual([['v1'], ['v1']]);
+    expect(upstream.requests).toHaveLength(2);
+    expect(upstream.requests[1].op.signal).toBeNull();
+
+    upstream.respond(1, 'v2');
+    expect(dataOf(run(createMockOp('users.list')))).toEqual(['v2']);
+
+    // Past the stale window, results are requested again
+    vi.advanceTimersByTime(6000);
+    run(createMockOp('users.list'));
+    expect(upstream.requests).toHaveLength(3);
+  });
+
+  it('should keep results apart by context key and skip non-cacheable queries', () => {
+    const upstream = createCountingLink();
+    const run = createRunner([
+      cacheLink({
+        ttlMs: 1000,
+        contextKey: (context) => context.userId as string | undefined,
+        cacheable: (op) => !op.path.startsWith('live.'),
+      }),
+      upstream.link,
+    ]);
+
+    run(createMockOp('users.me', { context: { userId: 'a' } }));
+    run(createMockOp('users.me', { context: { userId: 'b' } }));
+    run(createMockOp('users.me', { context: { userId: 'a' } }));
+    run(createMockOp('live.price'));
+    run(createMockOp('live.price'));
+
+    expect(upstream.requests.map((op) => op.path)).toEqual([
+      'users.me',
+      'users.me',
+      'live.price',
+      'live.price',
+    ]);
+  });
+
+  it('should not cache Map or Set inputs', () => {
+    const upstream = createCountingLink();
+    const run = createRunner([cacheLink({ ttlMs: 1000 }), upstream.link]);
+
+    const first = run(createMockOp('users.byIds', { input: new Map([['id', 1]]) }));
+    const second = run(createMockOp('users.byIds', { input: new Map([['id', 2]]) }));
+    run(createMockOp('users.byTags', { input: new Set(['a']) }));
+    run(createMockOp('users.byTags', { input: new Set(['a']) }));
+
+    expect(dataOf(first)).toEqual(['users.byIds#1']);
+    expect(dataOf(second)).toEqual(['users.byIds#2']);
+    expect(upstream.requests).toHaveLength(4);
+  });
+
+  it('should never cache errors', () => {
+    const upstream = createCountingLink();
+    const run = createRunner([cacheLink({ ttlMs: 1000 }), upstream.link]);
+
+    const first = run(createMockOp('users.fail'));
+    run(createMockOp('users.fail'));
+
+    expect(first.error).toHaveBeenCalledTimes(1);
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  it("should invalidate the mutation's router by default", () => {
+    const upstream = createCountingLink();
+    const run = createRunner([cacheLink({ ttlMs: 60_000 }), upstream.link]);
+
+    run(createMockOp('billing.invoices.list'));
+    run(createMockOp('users.list'));
+    const mutation = run(createMockOp('billing.refund', { type: 'mutation' }));
+    run(createMockOp('billing.invoices.list'));
+    run(createMockOp('users.list'));
+
+    expect(dataOf(mutation)).toEqual(['billing.refund#3']);
+    expect(upstream.requests.map((op) => op.path)).toEqual([
+      'billing.invoices.list',
+      'users.list',
+      'billing.refund',
+      'billing.invoices.list',
+    ]);
+  });
+
+  it('should invalidate custom prefixes, or nothing when disabled', () => {
+    const upstream = createCountingLink();
+    const run = createRunner([
+      cacheLink({
+        ttlMs: 60_000,
+        invalidate: (op) => (op.path === 'users.upgrade' ? ['billing.plans'] : []),
+      }),
+      upstream.link,
+    ]);
+
+    run(createMockOp('billing.plans.get'));
+    run(createMockOp('billing.invoices.list'));
+    run(createMockOp('users.upgrade', { type: 'mutation' }));
+    run(createMockOp('billing.plans.get'));
+    run(createMockOp('billing.invoices.list'));
+    expect(upstream.requests).toHaveLength(4);
+
+    const manual = createCountingLink();
+    const runManual = createRunner([cacheLink({ ttlMs: 60_000, invalidate: false }), manual.link]);
+    runManual(createMockOp('users.list'));
+    runManual(createMockOp('users.rename', { type: 'mutation' }));
+    runManual(createMockOp('users.list'));
+    expect(manual.requests).toHaveLength(2);
+  });
+
+  it('should not store results requested before an invalidation', () => {
+    const upstream = createControlledLink();
+    const link = cacheLink({ ttlMs: 60_000 });
+    const run = createRunner([link, upstream.link]);
+
+    run(createMockOp('users.list'));
+    void link.cache.invalidate('users');
+    upstream.respond(0, 'before');
+    run(createMockOp('users.list'));
+
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  it('should invalidate and clear manually through link.cache', async () => {
+    const upstream = createCountingLink();
+    const link = cacheLink({ ttlMs: 60_000 });
+    const run = createRunner([link, upstream.link]);
+
+    run(createMockOp('users.list'));
+    run(createMockOp('users.get'));
+    run(createMockOp('billing.list'));
+    await link.cache.invalidate('users.get');
+    run(createMockOp('users.list'));
+    run(createMockOp('users.get'));
+    await link.cache.clear();
+    run(createMockOp('billing.list'));
+
+    expect(upstream.requests.map((op) => op.path)).toEqual([
+      'users.list',
+      'users.get',
+      'billing.list',
+      'users.get',
+      'billing.list',
+    ]);
+  });
+
+  it('should support async storage adapters', async () => {
+    const entries = new Map<string, CachedQueryResult>();
+    const storage: CacheStorageAdapter = {
+      get: async (key) => entries.get(key),
+      set: async (key, entry) => {
+        entries.set(key, entry);
+      },
+      delete: async (key) => {
+        entries.delete(key);
+      },
+      keys: async () => Array.from(entries.keys()),
+    };
+    const upstream = createCountingLink();
+    const run = createRunner([cacheLink({ ttlMs: 60_000, storage }), upstream.link]);
+
+    run(createMockOp('users.list'));
+    await vi.runAllTimersAsync();
+    const cached = run(createMockOp('users.list'));
+    await vi.runAllTimersAsync();
+    expect(dataOf(cached)).toEqual(['users.list#1']);
+
+    // The mutation only resolves once its invalidation is done
+    const mutation = run(createMockOp('users.rename', { type: 'mutation' }));
+    expect(mutation.next).not.toHaveBeenCalled();
+    await vi.runAllTimersAsync();
+    expect(mutation.complete).toHaveBeenCalledTimes(1);
+    expect(entries.size).toBe(0);
+  });
+
+  it('should fall back to requests when the storage fails', () => {
+    const storage: CacheStorageAdapter = {
+      get: () => {
+        throw new Error('quota exceeded');
+      },
+      set: () => {},
+      delete: () => {},
+      keys: () => [],
+    };
+    const upstream = createCountingLink();
+    const run = createRunner([cacheLink({ ttlMs: 60_000, storage }), upstream.link]);
+
+    expect(dataOf(run(createMockOp('users.list')))).toEqual(['users.list#1']);
+  });
+
+  it('should type-check invalidation prefixes against the router', () => {
+    const t = initTRPC.create();
+    const appRouter = t.router({
+      billing: t.router({
+        plans: t.router({ get: t.procedure.query(() => 'plan') }),
+        refund: t.procedure.mutation(() => 'ok'),
+      }),
+    });
+
+    const link = cacheLink<typeof appRouter>({
+      ttlMs: 1000,
+      invalidate: () => ['billing.plans', 'billing.refund'],
+    });
+    void link.cache.invalidate('billing');
+    // @ts-expect-error - not a router or procedure of the AppRouter
+    void link.cache.invalidate('users');
+  });
+});
+
+describe('createMemoryCacheStorage', () => {
+  it('should drop the least recently used entries', () => {
+    const storage = createMemoryCacheStorage({ maxEntries: 2 });
+    const entry = { data: null, storedAt: 0 };
+
+    storage.set('a?', entry);
+    storage.set('b?', entry);
+    storage.get('a?');
+    storage.set('c?', entry);
+
+    expect(storage.keys()).toEqual(['a?', 'c?']);
+  });
+});
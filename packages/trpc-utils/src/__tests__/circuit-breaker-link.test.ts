@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { observable } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { circuitBreakerLink, createCircuitBreaker } from '../circuit-breaker-link';
+import { endpointRouterLink } from '../endpoint-router-link';
+import { CircuitOpenError, isCircuitOpenError } from '../errors';
+import { createChain } from '../create-chain';
+import type { CircuitStateChange } from '../types';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+// Helper to create a mock operation
+const createMockOp = (path = 'billing.list'): Operation => ({
+  id: 1,
+  type: 'query',
+  path,
+  input: undefined,
+  context: {},
+  signal: new AbortController().signal,
+});
+
+const networkError = () => TRPCClientError.from(new Error('fetch failed'));
+
+// Terminating link whose behaviour is controlled by `state.fail`
+const createTerminalLink = (state: { fail: boolean; calls: number }): TRPCLink<MockRouter> =>
+  () => () =>
+    observable((observer) => {
+      state.calls++;
+      if (state.fail) {
+        observer.error(networkError() as never);
+      } else {
+        observer.next({ result: { type: 'data', data: 'ok' } } as never);
+        observer.complete();
+      }
+      return () => {};
+    });
+
+const run = (links: TRPCLink<MockRouter>[], op = createMockOp()) =>
+  new Promise<{ data?: unknown; error?: unknown }>((resolve) => {
+    let data: unknown;
+    createChain({ links: links.map((link) => link({} as never)), op }).subscribe({
+      next: (value: unknown) => {
+        data = (value as { result: { data: unknown } }).result.data;
+      },
+      error: (error: unknown) => resolve({ error }),
+      complete: () => resolve({ data }),
+    });
+  });
+
+describe('circuitBreakerLink', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after the failure rate threshold and fail fast', async () => {
+    const terminal = { fail: true, calls: 0 };
+    const events: CircuitStateChange[] = [];
+    const breakerLink = circuitBreakerLink<MockRouter>({
+      name: '/api/billing',
+      minimumRequests: 3,
+      onStateChange: (event) => events.push(event),
+    });
+    const links = [breakerLink, createTerminalLink(terminal)];
+
+    for (let i = 0; i < 3; i++) {
+      await run(links);
+    }
+
+    expect(breakerLink.breaker.getState()).toBe('open');
+    expect(events.map((event) => event.to)).toEqual(['open']);
+
+    const result = await run(links);
+
+    expect(terminal.calls).toBe(3);
+    expect(result.error).toBeInstanceOf(TRPCClientError);
+    expect(isCircuitOpenError(result.error)).toBe(true);
+    expect((result.error as TRPCClientError<MockRouter>).cause).toBeInstanceOf(CircuitOpenError);
+    expect((result.error as Error).message).toContain('circuit "/api/billing" is open');
+  });
+
+  it('should move to half-open after the reset timeout and close on a successful trial', async () => {
+    vi.useFakeTimers();
+
+    const terminal = { fail: true, calls: 0 };
+    const events: CircuitStateChange[] = [];
+    const breakerLink = circuitBreakerLink<MockRouter>({
+      minimumRequests: 1,
+      resetTimeoutMs: 1000,
+      onStateChange: (event) => events.push(event),
+    });
+    const links = [breakerLink, createTerminalLink(terminal)];
+
+    await run(links);
+    expect(breakerLink.breaker.getState()).toBe('open');
+    expect(breakerLink.breaker.getRetryAfterMs()).toBe(1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(breakerLink.breaker.getState()).toBe('half-open');
+
+    terminal.fail = false;
+    const result = await run(links);
+
+    expect(result.data).toBe('ok');
+    expect(breakerLink.breaker.getState()).toBe('closed');
+    expect(events.map((event) => event.to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the half-open trial fails', async () => {
+    vi.useFakeTimers();
+
+    const breaker = createCircuitBreaker({ minimumRequests: 1, resetTimeoutMs: 1000 });
+    const links = [
+      circuitBreakerLink<MockRouter>({ breaker }),
+      createTerminalLink({ fail: true, calls: 0 }),
+    ];
+
+    await run(links);
+    vi.advanceTimersByTime(1000);
+    await run(links);
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should limit concurrent trial operations while half-open', () => {
+    vi.useFakeTimers();
+
+    const breaker = createCircuitBreaker({ minimumRequests: 1, resetTimeoutMs: 1000 });
+    breaker.tryAcquire()?.failure(networkError());
+    vi.advanceTimersByTime(1000);
+
+    const trial = breaker.tryAcquire();
+    expect(trial).toBeDefined();
+    expect(breaker.tryAcquire()).toBeUndefined();
+
+    trial?.release();
+    expect(breaker.tryAcquire()).toBeDefined();
+  });
+
+  it('should not count tRPC error responses below 500 as failures', () => {
+    const breaker = createCircuitBreaker({ minimumRequests: 1 });
+
+    breaker.tryAcquire()?.failure(
+      TRPCClientError.from({
+        error: { code: -32600, message: 'Bad request', data: { httpStatus: 400 } },
+      })
+    );
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.tryAcquire()?.failure(
+      TRPCClientError.from({
+        error: { code: -32603, message: 'Internal', data: { httpStatus: 500 } },
+      })
+    );
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should let endpointRouterLink fail over when a circuit is open', async () => {
+    const down = { fail: true, calls: 0 };
+    const up = { fail: false, calls: 0 };
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        billing: ['/api/primary', '/api/secondary'],
+      },
+      linkFactory: (endpoint) => [
+        circuitBreakerLink({ name: endpoint, minimumRequests: 1 }),
+        createTerminalLink(endpoint === '/api/primary' ? down : up),
+      ],
+    });
+
+    const result = await run([link]);
+
+    expect(result.data).toBe('ok');
+    expect(down.calls).toBe(1);
+    expect(up.calls).toBe(1);
+  });
+});
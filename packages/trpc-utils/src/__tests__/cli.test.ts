@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { initTRPC } from '@trpc/server';
+import { runCli } from '../cli';
+import { createEndpointRegistry } from '../endpoint-registry';
+
+const t = initTRPC.create();
+const appRouter = t.router({
+  users: t.router({ getAll: t.procedure.query(() => []) }),
+  health: t.procedure.query(() => 'ok'),
+});
+
+// Runs the CLI against an in-memory module
+const run = async (argv: string[], exports: Record<string, unknown>) => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const imported: string[] = [];
+  const code = await runCli(argv, {
+    stdout: (line) => stdout.push(line),
+    stderr: (line) => stderr.push(line),
+    cwd: '/project',
+    importModule: async (url) => {
+      imported.push(url);
+      return exports;
+    },
+  });
+  return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n'), imported };
+};
+
+describe('samyx-trpc routes', () => {
+  it('should print the routing table of the module', async () => {
+    const result = await run(['routes', './routing.ts'], {
+      appRouter,
+      routerToEndpoint: { users: '/api/users', health: '/api/health' },
+    });
+
+    expect(result.code).toBe(0);
+    expect(result.imported).toEqual(['file:///project/routing.ts']);
+    expect(result.stdout).toContain('users.getAll  query  /api/users   users   httpBatchLink');
+    expect(result.stderr).toBe('');
+  });
+
+  it('should read custom exports and full link options', async () => {
+    const result = await run(
+      ['routes', 'routing.ts', '--router', 'router', '--mapping', 'routing'],
+      {
+        router: appRouter,
+        routing: {
+          routerToEndpoint: async () => ({ users: '/api/users' }),
+          defaultEndpoint: '/api/trpc',
+        },
+      }
+    );
+
+    expect(result.code).toBe(0);
+    expect(result.stdout).toMatch(/health\s+query\s+\/api\/trpc\s+default/);
+  });
+
+  it('should load registries', async () => {
+    const result = await run(['routes', 'routing.ts'], {
+      appRouter,
+      routerToEndpoint: createEndpointRegistry({
+        load: async () => ({ users: '/api/users', health: '/api/health' }),
+      }),
+    });
+
+    expect(result.stdout).toContain('/api/health');
+  });
+
+  it('should exit non-zero in strict mode when procedures are not explicitly mapped', async () => {
+    const exports = {
+      appRouter,
+      routerToEndpoint: { routerToEndpoint: { users: '/api/users' }, defaultEndpoint: '/api/trpc' },
+    };
+
+    expect((await run(['routes', 'routing.ts'], exports)).code).toBe(0);
+
+    const strict = await run(['routes', 'routing.ts', '--strict'], exports);
+    expect(strict.code).toBe(1);
+    expect(strict.stderr).toContain('not routed by a rule or mapping key: health');
+  });
+
+  it('should report mapping errors and fail on them in strict mode', async () => {
+    const result = await run(['routes', 'routing.ts', '--strict'], {
+      appRouter,
+      routerToEndpoint: { users: '/api/users', health: 'ftp://health', legacy: '/api/legacy' },
+    });
+
+    expect(result.code).toBe(1);
+    expect(result.stderr.split('\n')).toEqual([
+      'error: Mapping key "legacy" matches no router or procedure in the AppRouter',
+      'error: Endpoint "ftp://health" for "health" is not an http(s) URL or absolute path',
+    ]);
+  });
+
+  it('should exit with code 2 on usage and loading errors', async () => {
+    expect((await run([], {})).code).toBe(2);
+    expect((await run(['deploy'], {})).stderr).toContain('unknown command "deploy"');
+    expect((await run(['routes'], {})).stderr).toContain('missing <module>');
+    expect((await run(['routes', 'a.ts', '--router'], {})).stderr).toContain(
+      '--router requires an export name'
+    );
+    expect((await run(['routes', 'a.ts'], { appRouter })).stderr).toContain(
+      'module has no "routerToEndpoint" export'
+    );
+    expect((await run(['routes', 'a.ts'], { routerToEndpoint: {} })).stderr).toContain(
+      '"appRouter" is not a tRPC router export'
+    );
+  });
+
+  it('should print help', async () => {
+    const result = await run(['routes', '--help'], {});
+
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain('Usage: samyx-trpc routes <module> [options]');
+  });
+});
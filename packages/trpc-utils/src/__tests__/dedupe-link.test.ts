@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { dedupeLink } from '../dedupe-link';
+import { metricsLink, createHistogramReporter } from '../metrics-link';
+import { endpointRouterLink } from '../endpoint-router-link';
+import {
+  createControlledLink,
+  createMockOp,
+  createRunner,
+  type MockRouter,
+} from './link-fixtures';
+
+describe('dedupeLink', () => {
+  it('should share one request between identical queries', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([dedupeLink(), upstream.link]);
+
+    const first = run(createMockOp('users.list', { input: { page: 1, sort: 'name' } }));
+    const second = run(createMockOp('users.list', { input: { sort: 'name', page: 1 } }));
+    upstream.respond(0, ['alice']);
+
+    expect(upstream.requests).toHaveLength(1);
+    for (const subscriber of [first, second]) {
+      expect(subscriber.next).toHaveBeenCalledWith({ result: { type: 'data', data: ['alice'] } });
+      expect(subscriber.complete).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('should not share requests between different paths, inputs or context keys', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      dedupeLink({ contextKey: (context) => context.userId as string | undefined }),
+      upstream.link,
+    ]);
+
+    run(createMockOp('users.list', { input: { page: 1 } }));
+    run(createMockOp('users.list', { input: { page: 2 } }));
+    run(createMockOp('users.count', { input: { page: 1 } }));
+    run(createMockOp('users.list', { input: { page: 1 }, context: { userId: 'a' } }));
+    run(createMockOp('users.list', { input: { page: 1 }, context: { userId: 'a' } }));
+
+    expect(upstream.requests).toHaveLength(4);
+  });
+
+  it('should never deduplicate mutations, subscriptions or unserializable inputs', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([dedupeLink(), upstream.link]);
+
+    for (let index = 0; index < 2; index++) {
+      run(createMockOp('users.create', { type: 'mutation', input: { name: 'a' } }));
+      run(createMockOp('users.onCreate', { type: 'subscription' }));
+      run(createMockOp('users.get', { input: { id: BigInt(1) } }));
+    }
+
+    expect(upstream.requests).toHaveLength(6);
+  });
+
+  it('should not deduplicate Map or Set inputs, which JSON cannot tell apart', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([dedupeLink(), upstream.link]);
+
+    run(createMockOp('users.byIds', { input: new Map([['id', 1]]) }));
+    run(createMockOp('users.byIds', { input: new Map([['id', 2]]) }));
+    run(createMockOp('users.byTags', { input: { tags: new Set(['a']) } }));
+    run(createMockOp('users.byTags', { input: { tags: new Set(['b']) } }));
+    // Dates serialize faithfully, so they are still deduplicated
+    run(createMockOp('users.since', { input: { since: new Date(0) } }));
+    run(createMockOp('users.since', { input: { since: new Date(0) } }));
+
+    expect(upstream.requests.map(({ op }) => op.path)).toEqual([
+      'users.byIds',
+      'users.byIds',
+      'users.byTags',
+      'users.byTags',
+      'users.since',
+    ]);
+  });
+
+  it('should start a new request once the shared one settled', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([dedupeLink(), upstream.link]);
+
+    run(createMockOp('users.list'));
+    upstream.respond(0, []);
+    const later = run(createMockOp('users.list'));
+
+    expect(upstream.requests).toHaveLength(2);
+    expect(later.next).not.toHaveBeenCalled();
+  });
+
+  it('should not let queries join a request that already sent a result', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([dedupeLink(), upstream.link]);
+
+    const first = run(createMockOp('users.list'));
+    upstream.requests[0].observer.next({ result: { type: 'data', data: ['alice'] } });
+    const late = run(createMockOp('users.list'));
+    upstream.requests[0].observer.complete();
+
+    expect(upstream.requests).toHaveLength(2);
+    expect(first.complete).toHaveBeenCalledTimes(1);
+    expect(late.complete).not.toHaveBeenCalled();
+
+    upstream.respond(1, ['alice']);
+    expect(late.next).toHaveBeenCalledWith({ result: { type: 'data', data: ['alice'] } });
+    expect(late.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the request running until every subscriber left', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([dedupeLink(), upstream.link]);
+
+    const first = run(createMockOp('users.list'));
+    const second = run(createMockOp('users.list'));
+    const [request] = upstream.requests;
+
+    first.unsubscribe();
+    expect(request.closed).toBe(false);
+    expect(request.op.signal?.aborted).toBe(false);
+
+    second.unsubscribe();
+    expect(request.closed).toBe(true);
+    expect(request.op.signal?.aborted).toBe(true);
+
+    // The cancelled request is not shared with later queries
+    run(createMockOp('users.list'));
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  it('should only fail the subscriber whose signal aborted', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([dedupeLink(), upstream.link]);
+    const controller = new AbortController();
+
+    const aborted = run(createMockOp('users.list', { signal: controller.signal }));
+    const remaining = run(createMockOp('users.list'));
+    controller.abort();
+    upstream.respond(0, ['alice']);
+
+    expect(aborted.error).toHaveBeenCalledTimes(1);
+    expect(aborted.error.mock.calls[0][0].message).toBe('dedupeLink: operation aborted');
+    expect(aborted.next).not.toHaveBeenCalled();
+    expect(upstream.requests[0].op.signal?.aborted).toBe(false);
+    expect(remaining.next).toHaveBeenCalledTimes(1);
+    expect(remaining.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should forward errors to every subscriber', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([dedupeLink(), upstream.link]);
+
+    const subscribers = [run(createMockOp('users.list')), run(createMockOp('users.list'))];
+    const error = new Error('fetch failed');
+    upstream.requests[0].observer.error(error);
+
+    for (const subscriber of subscribers) {
+      expect(subscriber.error).toHaveBeenCalledWith(error);
+    }
+  });
+
+  it('should report the routing decision for every deduplicated operation', () => {
+    const reporter = createHistogramReporter();
+    const upstream = createControlledLink();
+    const run = createRunner([
+      metricsLink({ reporter }),
+      dedupeLink(),
+      endpointRouterLink<MockRouter>({
+        routerToEndpoint: { users: '/api/users' },
+        linkFactory: () => upstream.link,
+      }),
+    ]);
+
+    run(createMockOp('users.list'));
+    run(createMockOp('users.list'));
+    upstream.respond(0, []);
+
+    expect(upstream.requests).toHaveLength(1);
+    expect(reporter.metrics.map((metric) => metric.endpoint)).toEqual([
+      '/api/users',
+      '/api/users',
+    ]);
+  });
+});
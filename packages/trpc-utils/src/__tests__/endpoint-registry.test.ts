@@ -0,0 +1,220 @@
+import { describe, it, expect, vi } from 'vitest';
+import { observable } from '@trpc/server/observable';
+import type { Operation, TRPCClientError, TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { createEndpointRegistry } from '../endpoint-registry';
+import { endpointRouterLink } from '../endpoint-router-link';
+import type { EndpointTarget } from '../types';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+// Helper to create a mock operation
+const createMockOp = (path: string): Operation => ({
+  id: 1,
+  type: 'query',
+  path,
+  input: undefined,
+  context: {},
+  signal: new AbortController().signal,
+});
+
+// Link factory recording created chains and the endpoint each op went to
+const createRecordingFactory = (factoryCalls: string[], usedEndpoints: string[]) =>
+  (endpoint: string): TRPCLink<MockRouter> => {
+    factoryCalls.push(endpoint);
+    return () => () =>
+      observable((observer) => {
+        usedEndpoints.push(endpoint);
+        observer.complete();
+        return () => {};
+      });
+  };
+
+const run = (initialized: ReturnType<TRPCLink<MockRouter>>, path: string) =>
+  new Promise<TRPCClientError<MockRouter> | undefined>((resolve) => {
+    initialized({ op: createMockOp(path), next: vi.fn() as never }).subscribe({
+      error: (err: TRPCClientError<MockRouter>) => resolve(err),
+      complete: () => resolve(undefined),
+    });
+  });
+
+describe('createEndpointRegistry', () => {
+  it('should load the mapping once on first use', async () => {
+    const load = vi.fn(async () => ({ users: '/api/users' }));
+    const registry = createEndpointRegistry({ load });
+
+    expect(registry.get()).toBeUndefined();
+
+    const [first, second] = await Promise.all([registry.load(), registry.load()]);
+
+    expect(first).toEqual({ users: '/api/users' });
+    expect(second).toBe(first);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(registry.get()).toBe(first);
+  });
+
+  it('should notify subscribers on set and refresh', async () => {
+    const registry = createEndpointRegistry({
+      initial: { users: '/api/users' },
+      load: async () => ({ users: '/api/users-v2' }),
+    });
+    const listener = vi.fn();
+    const unsubscribe = registry.subscribe(listener);
+
+    registry.set({ users: '/api/users-v1' });
+    await registry.refresh();
+    unsubscribe();
+    registry.set({ users: '/api/users-v3' });
+
+    expect(listener.mock.calls.map(([mapping]) => mapping.users)).toEqual([
+      '/api/users-v1',
+      '/api/users-v2',
+    ]);
+  });
+
+  it('should reject loading without a mapping or load function', async () => {
+    await expect(createEndpointRegistry().load()).rejects.toThrow('no load function');
+  });
+});
+
+describe('endpointRouterLink with dynamic mappings', () => {
+  it('should apply registry changes to new operations without recreating the link', async () => {
+    const factoryCalls: string[] = [];
+    const usedEndpoints: string[] = [];
+    const registry = createEndpointRegistry({
+      initial: { users: '/api/users-blue', billing: '/api/billing' },
+    });
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: registry,
+      linkFactory: createRecordingFactory(factoryCalls, usedEndpoints),
+    });
+    const initialized = link({} as never);
+
+    await run(initialized, 'users.get');
+    await run(initialized, 'billing.list');
+    registry.set({ users: '/api/users-green', billing: '/api/billing' });
+    await run(initialized, 'users.get');
+    await run(initialized, 'billing.list');
+
+    expect(usedEndpoints).toEqual([
+      '/api/users-blue',
+      '/api/billing',
+      '/api/users-green',
+      '/api/billing',
+    ]);
+    // The billing chain is reused across the mapping change
+    expect(factoryCalls).toEqual(['/api/users-blue', '/api/billing', '/api/users-green']);
+  });
+
+  it('should drop cached chains for endpoints that disappear', async () => {
+    const factoryCalls: string[] = [];
+    const registry = createEndpointRegistry({ initial: { users: '/api/users-blue' } });
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: registry,
+      linkFactory: createRecordingFactory(factoryCalls, []),
+    });
+    const initialized = link({} as never);
+
+    await run(initialized, 'users.get');
+    registry.set({ users: '/api/users-green' });
+    registry.set({ users: '/api/users-blue' });
+    await run(initialized, 'users.get');
+
+    expect(factoryCalls).toEqual(['/api/users-blue', '/api/users-blue']);
+  });
+
+  it('should drop the balancing state of replica groups that disappear', async () => {
+    const usedEndpoints: string[] = [];
+    const replicas = { replicas: ['/api/users-1', '/api/users-2'] };
+    const registry = createEndpointRegistry<Record<string, EndpointTarget>>({
+      initial: { users: replicas },
+    });
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: registry,
+      linkFactory: createRecordingFactory([], usedEndpoints),
+    });
+    const initialized = link({} as never);
+
+    await run(initialized, 'users.get');
+    registry.set({ users: '/api/users' });
+    registry.set({ users: replicas });
+    await run(initialized, 'users.get');
+
+    // The round-robin cursor starts over
+    expect(usedEndpoints).toEqual(['/api/users-1', '/api/users-1']);
+  });
+
+  it('should resolve the registry asynchronously on first use', async () => {
+    const usedEndpoints: string[] = [];
+    const registry = createEndpointRegistry({
+      load: async () => ({ users: '/api/users' }),
+    });
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: registry,
+      linkFactory: createRecordingFactory([], usedEndpoints),
+    });
+
+    await run(link({} as never), 'users.get');
+
+    expect(usedEndpoints).toEqual(['/api/users']);
+  });
+
+  it('should call resolver functions for every new operation', async () => {
+    const usedEndpoints: string[] = [];
+    let mapping = { users: '/api/users-a' };
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: () => mapping,
+      linkFactory: createRecordingFactory([], usedEndpoints),
+    });
+    const initialized = link({} as never);
+
+    await run(initialized, 'users.get');
+    mapping = { users: '/api/users-b' };
+    await run(initialized, 'users.get');
+
+    expect(usedEndpoints).toEqual(['/api/users-a', '/api/users-b']);
+  });
+
+  it('should surface async resolution failures as TRPCClientErrors', async () => {
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: async () => {
+        throw new Error('config service unavailable');
+      },
+    });
+
+    const error = await run(link({} as never), 'users.get');
+
+    expect(error?.name).toBe('TRPCClientError');
+    expect(error?.message).toContain('failed to resolve endpoint mapping');
+    expect(error?.message).toContain('config service unavailable');
+  });
+
+  it('should not route operations unsubscribed while the mapping resolves', async () => {
+    const usedEndpoints: string[] = [];
+    let resolveMapping: (mapping: Record<string, string>) => void = () => {};
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: () =>
+        new Promise<Record<string, string>>((resolve) => {
+          resolveMapping = resolve;
+        }),
+      linkFactory: createRecordingFactory([], usedEndpoints),
+    });
+
+    const subscription = link({} as never)({
+      op: createMockOp('users.get'),
+      next: vi.fn() as never,
+    }).subscribe({});
+    subscription.unsubscribe();
+    resolveMapping({ users: '/api/users' });
+    await Promise.resolve();
+
+    expect(usedEndpoints).toEqual([]);
+  });
+});
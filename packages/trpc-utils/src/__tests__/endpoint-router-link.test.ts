@@ -1,8 +1,9 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { observable } from '@trpc/server/observable';
 import { endpointRouterLink, typedEndpointRouterLink } from '../endpoint-router-link';
-import type { TRPCLink, Operation, TRPCClientError } from '@trpc/client';
-import type { AnyRouter } from '@trpc/server';
+import { TRPCClientError, type TRPCLink, type Operation } from '@trpc/client';
+import type { EndpointHealthChange } from '../types';
+import { initTRPC, type AnyRouter } from '@trpc/server';
 
 // Mock router type for testing
 type MockRouter = AnyRouter;
@@ -361,6 +362,194 @@ describe('endpointRouterLink', () => {
     expect(usedEndpoint).toBe('/api/users');
   });
 
+  it('should resolve nested router keys by longest matching prefix', async () => {
+    const usedEndpoints: string[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        billing: '/api/billing',
+        'billing.payouts': '/api/payouts',
+        'users.uploadAvatar': '/api/uploads',
+        users: '/api/users',
+      },
+      linkFactory: (endpoint: string) => () => () =>
+        observable((observer) => {
+          usedEndpoints.push(endpoint);
+          observer.complete();
+          return () => {};
+        }),
+    });
+
+    const initialized = link({} as never);
+
+    for (const path of [
+      'billing.invoices.list',
+      'billing.payouts.list',
+      'users.uploadAvatar',
+      'users.getAll',
+    ]) {
+      await new Promise<void>((resolve) => {
+        initialized({
+          op: createMockOp(path),
+          next: vi.fn() as never,
+        }).subscribe({ complete: () => resolve() });
+      });
+    }
+
+    expect(usedEndpoints).toEqual([
+      '/api/billing',
+      '/api/payouts',
+      '/api/uploads',
+      '/api/users',
+    ]);
+  });
+
+  it('should not match partial path segments', async () => {
+    let usedEndpoint = '';
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        'billing.pay': '/api/pay',
+      },
+      defaultEndpoint: '/api/default',
+      linkFactory: (endpoint: string) => {
+        usedEndpoint = endpoint;
+        return () => () =>
+          observable((observer) => {
+            observer.complete();
+            return () => {};
+          });
+      },
+    });
+
+    const initialized = link({} as never);
+
+    await new Promise<void>((resolve) => {
+      initialized({
+        op: createMockOp('billing.payouts.list'),
+        next: vi.fn() as never,
+      }).subscribe({ complete: () => resolve() });
+    });
+
+    expect(usedEndpoint).toBe('/api/default');
+  });
+
+  it('should evaluate rules in declared order before the router map', async () => {
+    const usedEndpoints: string[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      rules: [
+        { match: 'admin.*.export*', endpoint: '/api/exports' },
+        { match: /^reports\./, endpoint: '/api/reports' },
+        { match: 'admin.**', endpoint: '/api/admin-rule' },
+      ],
+      routerToEndpoint: {
+        admin: '/api/admin',
+        reports: '/api/reports-map',
+      },
+      defaultEndpoint: '/api/default',
+      linkFactory: (endpoint: string) => () => () =>
+        observable((observer) => {
+          usedEndpoints.push(endpoint);
+          observer.complete();
+          return () => {};
+        }),
+    });
+
+    const initialized = link({} as never);
+
+    for (const path of [
+      'admin.users.exportCsv',
+      'admin.exportCsv',
+      'reports.daily',
+      'users.getAll',
+    ]) {
+      await new Promise<void>((resolve) => {
+        initialized({
+          op: createMockOp(path),
+          next: vi.fn() as never,
+        }).subscribe({ complete: () => resolve() });
+      });
+    }
+
+    expect(usedEndpoints).toEqual([
+      '/api/exports',
+      '/api/admin-rule',
+      '/api/reports',
+      '/api/default',
+    ]);
+  });
+
+  it('should support predicate rules over op type and context', async () => {
+    const usedEndpoints: string[] = [];
+
+    const link = endpointRouterLink<MockRouter, Record<string, string>, { preview?: boolean }>({
+      rules: [
+        { match: ({ ctx }) => ctx.preview === true, endpoint: '/api/preview' },
+        { match: 'users.**', type: 'mutation', endpoint: '/api/users-writer' },
+      ],
+      routerToEndpoint: {
+        users: '/api/users',
+      },
+      linkFactory: (endpoint: string) => () => () =>
+        observable((observer) => {
+          usedEndpoints.push(endpoint);
+          observer.complete();
+          return () => {};
+        }),
+    });
+
+    const initialized = link({} as never);
+
+    const ops: Operation[] = [
+      createMockOp('users.get', { preview: true }),
+      { ...createMockOp('users.update'), type: 'mutation' },
+      createMockOp('users.get'),
+    ];
+
+    for (const op of ops) {
+      await new Promise<void>((resolve) => {
+        initialized({ op, next: vi.fn() as never }).subscribe({
+          complete: () => resolve(),
+        });
+      });
+    }
+
+    expect(usedEndpoints).toEqual(['/api/preview', '/api/users-writer', '/api/users']);
+  });
+
+  it('should share cached links between rules and the router map', async () => {
+    const factoryCalls: string[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      rules: [{ match: 'admin.*.export*', endpoint: '/api/shared' }],
+      routerToEndpoint: {
+        users: '/api/shared',
+      },
+      linkFactory: (endpoint: string) => {
+        factoryCalls.push(endpoint);
+        return () => () =>
+          observable((observer) => {
+            observer.complete();
+            return () => {};
+          });
+      },
+    });
+
+    const initialized = link({} as never);
+
+    for (const path of ['admin.users.exportCsv', 'users.get']) {
+      await new Promise<void>((resolve) => {
+        initialized({
+          op: createMockOp(path),
+          next: vi.fn() as never,
+        }).subscribe({ complete: () => resolve() });
+      });
+    }
+
+    expect(factoryCalls).toEqual(['/api/shared']);
+  });
+
   it('should support linkFactory returning array of links (chaining)', async () => {
     const executionOrder: string[] = [];
 
@@ -408,6 +597,591 @@ describe('endpointRouterLink', () => {
   });
 });
 
+describe('endpointRouterLink failover', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Link factory whose endpoints in `down` fail with a network-level error
+  const createFailingFactory = (down: Set<string>, calls: string[]) => (endpoint: string) =>
+    (() => () =>
+      observable((observer) => {
+        calls.push(endpoint);
+        if (down.has(endpoint)) {
+          observer.error(TRPCClientError.from(new Error('fetch failed')) as never);
+        } else {
+          observer.next({ result: { type: 'data', data: endpoint } } as never);
+          observer.complete();
+        }
+        return () => {};
+      })) as TRPCLink<MockRouter>;
+
+  const run = (initialized: ReturnType<TRPCLink<MockRouter>>, op: Operation) =>
+    new Promise<{ data?: unknown; error?: Error }>((resolve) => {
+      let data: unknown;
+      initialized({ op, next: vi.fn() as never }).subscribe({
+        next: (value: unknown) => {
+          data = (value as { result: { data: unknown } }).result.data;
+        },
+        error: (error: Error) => resolve({ error }),
+        complete: () => resolve({ data }),
+      });
+    });
+
+  it('should replay queries on the next endpoint after a network error', async () => {
+    const calls: string[] = [];
+    const healthChanges: EndpointHealthChange[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        billing: ['/api/primary', '/api/secondary'],
+      },
+      failover: { onHealthChange: (event) => healthChanges.push(event) },
+      linkFactory: createFailingFactory(new Set(['/api/primary']), calls),
+    });
+
+    const result = await run(link({} as never), createMockOp('billing.list'));
+
+    expect(result.data).toBe('/api/secondary');
+    expect(calls).toEqual(['/api/primary', '/api/secondary']);
+    expect(healthChanges).toHaveLength(1);
+    expect(healthChanges[0]).toMatchObject({ endpoint: '/api/primary', healthy: false });
+  });
+
+  it('should skip unhealthy endpoints during the cool-down and retry them afterwards', async () => {
+    vi.useFakeTimers();
+
+    const calls: string[] = [];
+    const down = new Set(['/api/primary']);
+    const healthChanges: EndpointHealthChange[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        billing: ['/api/primary', '/api/secondary'],
+      },
+      failover: {
+        cooldownMs: 1000,
+        onHealthChange: (event) => healthChanges.push(event),
+      },
+      linkFactory: createFailingFactory(down, calls),
+    });
+
+    const initialized = link({} as never);
+
+    await run(initialized, createMockOp('billing.list'));
+    calls.length = 0;
+
+    await run(initialized, createMockOp('billing.list'));
+    expect(calls).toEqual(['/api/secondary']);
+
+    down.clear();
+    vi.advanceTimersByTime(1000);
+    calls.length = 0;
+
+    const result = await run(initialized, createMockOp('billing.list'));
+    expect(result.data).toBe('/api/primary');
+    expect(calls).toEqual(['/api/primary']);
+    expect(healthChanges.map((event) => event.healthy)).toEqual([false, true]);
+  });
+
+  it('should not replay mutations but route later operations away from the failed endpoint', async () => {
+    const calls: string[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        billing: ['/api/primary', '/api/secondary'],
+      },
+      linkFactory: createFailingFactory(new Set(['/api/primary']), calls),
+    });
+
+    const initialized = link({} as never);
+    const mutation: Operation = { ...createMockOp('billing.pay'), type: 'mutation' };
+
+    const first = await run(initialized, mutation);
+    expect(first.error?.message).toBe('fetch failed');
+    expect(calls).toEqual(['/api/primary']);
+
+    const second = await run(initialized, mutation);
+    expect(second.data).toBe('/api/secondary');
+  });
+
+  it('should not fail over on tRPC error responses', async () => {
+    const calls: string[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        billing: ['/api/primary', '/api/secondary'],
+      },
+      linkFactory: (endpoint: string) => () => () =>
+        observable((observer) => {
+          calls.push(endpoint);
+          observer.error(
+            TRPCClientError.from({
+              error: { code: -32600, message: 'Bad request', data: {} },
+            }) as never
+          );
+          return () => {};
+        }),
+    });
+
+    const result = await run(link({} as never), createMockOp('billing.list'));
+
+    expect(result.error?.message).toBe('Bad request');
+    expect(calls).toEqual(['/api/primary']);
+  });
+});
+
+describe('endpointRouterLink load balancing', () => {
+  it('should spread operations across replicas with a cached chain per replica', async () => {
+    const factoryCalls: string[] = [];
+    const usedEndpoints: string[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        search: { replicas: ['/api/search-1', '/api/search-2'] },
+      },
+      linkFactory: (endpoint: string) => {
+        factoryCalls.push(endpoint);
+        return () => () =>
+          observable((observer) => {
+            usedEndpoints.push(endpoint);
+            observer.complete();
+            return () => {};
+          });
+      },
+    });
+
+    const initialized = link({} as never);
+
+    for (let i = 0; i < 4; i++) {
+      await new Promise<void>((resolve) => {
+        initialized({
+          op: createMockOp('search.query'),
+          next: vi.fn() as never,
+        }).subscribe({ complete: () => resolve() });
+      });
+    }
+
+    expect(usedEndpoints).toEqual([
+      '/api/search-1',
+      '/api/search-2',
+      '/api/search-1',
+      '/api/search-2',
+    ]);
+    expect(factoryCalls).toEqual(['/api/search-1', '/api/search-2']);
+  });
+
+  it('should keep balancing when a resolver returns new replica groups per call', async () => {
+    const usedEndpoints: string[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: () => ({
+        search: { replicas: ['/api/search-1', '/api/search-2'] },
+        reports: { replicas: ['/api/search-1', '/api/search-2'] },
+      }),
+      linkFactory: (endpoint: string) => () => () =>
+        observable((observer) => {
+          usedEndpoints.push(endpoint);
+          observer.complete();
+          return () => {};
+        }),
+    });
+
+    const initialized = link({} as never);
+
+    for (const path of ['search.query', 'search.query', 'reports.daily', 'search.query']) {
+      await new Promise<void>((resolve) => {
+        initialized({
+          op: createMockOp(path),
+          next: vi.fn() as never,
+        }).subscribe({ complete: () => resolve() });
+      });
+    }
+
+    // Each router keeps its own round-robin cursor
+    expect(usedEndpoints).toEqual([
+      '/api/search-1',
+      '/api/search-2',
+      '/api/search-1',
+      '/api/search-1',
+    ]);
+  });
+
+  it('should count active subscriptions for least-in-flight', () => {
+    const usedEndpoints: string[] = [];
+
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        events: {
+          replicas: ['/api/events-1', '/api/events-2'],
+          strategy: 'least-in-flight',
+        },
+      },
+      linkFactory: (endpoint: string) => () => () =>
+        observable(() => {
+          usedEndpoints.push(endpoint);
+          return () => {};
+        }),
+    });
+
+    const initialized = link({} as never);
+    const subscribe = () =>
+      initialized({
+        op: { ...createMockOp('events.onUpdate'), type: 'subscription' },
+        next: vi.fn() as never,
+      }).subscribe({});
+
+    const first = subscribe();
+    subscribe();
+    first.unsubscribe();
+    subscribe();
+
+    expect(usedEndpoints).toEqual(['/api/events-1', '/api/events-2', '/api/events-1']);
+  });
+
+  it('should fail over to another replica on network errors', async () => {
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        search: { replicas: ['/api/search-1', '/api/search-2'] },
+      },
+      linkFactory: (endpoint: string) => () => () =>
+        observable((observer) => {
+          if (endpoint === '/api/search-1') {
+            observer.error(TRPCClientError.from(new Error('fetch failed')) as never);
+          } else {
+            observer.next({ result: { type: 'data', data: endpoint } } as never);
+            observer.complete();
+          }
+          return () => {};
+        }),
+    });
+
+    const results: unknown[] = [];
+
+    await new Promise<void>((resolve) => {
+      link({} as never)({
+        op: createMockOp('search.query'),
+        next: vi.fn() as never,
+      }).subscribe({
+        next: (value: unknown) => results.push((value as { result: { data: unknown } }).result.data),
+        complete: () => resolve(),
+      });
+    });
+
+    expect(results).toEqual(['/api/search-2']);
+  });
+});
+
+describe('endpointRouterLink endpoint overrides', () => {
+  const createLink = (endpointOverride?: { contextKey?: string; endpoints: Record<string, string> }) => {
+    const usedEndpoints: string[] = [];
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { users: '/api/users' },
+      endpointOverride,
+      linkFactory: (endpoint: string) => () => () =>
+        observable((observer) => {
+          usedEndpoints.push(endpoint);
+          observer.complete();
+          return () => {};
+        }),
+    });
+    return { initialized: link({} as never), usedEndpoints };
+  };
+
+  const run = (initialized: ReturnType<TRPCLink<MockRouter>>, context: Record<string, unknown>) =>
+    new Promise<Error | undefined>((resolve) => {
+      initialized({ op: createMockOp('users.get', context), next: vi.fn() as never }).subscribe({
+        error: (err: Error) => resolve(err),
+        complete: () => resolve(undefined),
+      });
+    });
+
+  it('should honor named and allowlisted raw URL overrides before the router map', async () => {
+    const { initialized, usedEndpoints } = createLink({
+      endpoints: { staging: 'https://staging.internal/trpc' },
+    });
+
+    await run(initialized, { endpoint: 'staging' });
+    await run(initialized, { endpoint: 'https://staging.internal/trpc' });
+    await run(initialized, {});
+
+    expect(usedEndpoints).toEqual([
+      'https://staging.internal/trpc',
+      'https://staging.internal/trpc',
+      '/api/users',
+    ]);
+  });
+
+  it('should reject overrides that are not allowlisted', async () => {
+    const { initialized, usedEndpoints } = createLink({
+      endpoints: { staging: 'https://staging.internal/trpc' },
+    });
+
+    const error = await run(initialized, { endpoint: 'https://evil.example/trpc' });
+
+    expect(usedEndpoints).toEqual([]);
+    expect(error?.message).toContain('endpoint override "https://evil.example/trpc" is not allowed');
+    expect(error?.message).toContain('Allowed endpoints: staging');
+  });
+
+  it('should support a custom context key', async () => {
+    const { initialized, usedEndpoints } = createLink({
+      contextKey: 'forceEndpoint',
+      endpoints: { preview: '/api/preview' },
+    });
+
+    await run(initialized, { endpoint: 'ignored', forceEndpoint: 'preview' });
+
+    expect(usedEndpoints).toEqual(['/api/preview']);
+  });
+
+  it('should ignore the context key when overrides are not configured', async () => {
+    const { initialized, usedEndpoints } = createLink();
+
+    await run(initialized, { endpoint: 'staging' });
+
+    expect(usedEndpoints).toEqual(['/api/users']);
+  });
+});
+
+describe('endpointRouterLink disposal', () => {
+  const createLink = (disposed: string[]) =>
+    endpointRouterLink<MockRouter>({
+      routerToEndpoint: { users: '/api/users', billing: '/api/billing' },
+      cache: { maxSize: 1 },
+      linkFactory: (endpoint: string) => ({
+        links: () => () =>
+          observable((observer) => {
+            observer.complete();
+            return () => {};
+          }),
+        dispose: () => disposed.push(endpoint),
+      }),
+    });
+
+  const run = (initialized: ReturnType<TRPCLink<MockRouter>>, path: string) =>
+    new Promise<Error | undefined>((resolve) => {
+      initialized({ op: createMockOp(path), next: vi.fn() as never }).subscribe({
+        error: (err: Error) => resolve(err),
+        complete: () => resolve(undefined),
+      });
+    });
+
+  it('should tear down chains evicted by the cache policy', async () => {
+    const disposed: string[] = [];
+    const initialized = createLink(disposed)({} as never);
+
+    await run(initialized, 'users.get');
+    await run(initialized, 'billing.list');
+
+    expect(disposed).toEqual(['/api/users']);
+  });
+
+  it('should tear down every cached chain on dispose', async () => {
+    const disposed: string[] = [];
+    const link = createLink(disposed);
+    const first = link({} as never);
+    const second = link({} as never);
+
+    await run(first, 'users.get');
+    await run(second, 'billing.list');
+    link.dispose();
+
+    expect(disposed.sort()).toEqual(['/api/billing', '/api/users']);
+    expect((await run(first, 'users.get'))?.message).toContain(
+      'link has been disposed'
+    );
+  });
+
+  it('should support Symbol.dispose', async () => {
+    const disposed: string[] = [];
+    const link = createLink(disposed);
+
+    await run(link({} as never), 'users.get');
+    link[Symbol.dispose]();
+
+    expect(disposed).toEqual(['/api/users']);
+  });
+});
+
+describe('endpointRouterLink default transports', () => {
+  // WebSocket stand-in recording the sockets the tRPC WebSocket client opens
+  class FakeWebSocket extends EventTarget {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSING = 2;
+    static readonly CLOSED = 3;
+    static instances: FakeWebSocket[] = [];
+    readonly url: string;
+    readonly sent: unknown[] = [];
+    readyState = FakeWebSocket.CONNECTING;
+
+    constructor(url: string) {
+      super();
+      this.url = url;
+      FakeWebSocket.instances.push(this);
+    }
+
+    open() {
+      this.readyState = FakeWebSocket.OPEN;
+      this.dispatchEvent(new Event('open'));
+    }
+
+    send(message: string) {
+      this.sent.push(JSON.parse(message));
+    }
+
+    close() {
+      this.readyState = FakeWebSocket.CLOSED;
+      this.dispatchEvent(new Event('close'));
+    }
+  }
+
+  // EventSource stand-in recording the URLs httpSubscriptionLink connects to
+  class FakeEventSource extends EventTarget {
+    static urls: string[] = [];
+    static inits: unknown[] = [];
+    readyState = 0;
+
+    constructor(url: string, init?: unknown) {
+      super();
+      FakeEventSource.urls.push(url);
+      FakeEventSource.inits.push(init);
+    }
+
+    close() {}
+  }
+
+  const subscribe = (initialized: ReturnType<TRPCLink<MockRouter>>, op: Operation) =>
+    initialized({ op, next: vi.fn() as never }).subscribe({ error: () => {} });
+
+  const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  afterEach(() => {
+    FakeWebSocket.instances = [];
+    FakeEventSource.urls = [];
+    FakeEventSource.inits = [];
+    vi.unstubAllGlobals();
+  });
+
+  it('should send queries over HTTP and subscriptions over server-sent events', async () => {
+    vi.stubGlobal('EventSource', FakeEventSource);
+    const fetch = vi.fn(async () => new Response(JSON.stringify([{ result: { data: 'ok' } }])));
+    const initialized = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { chat: '/api/chat' },
+      linkOptions: { fetch },
+    })({} as never);
+
+    subscribe(initialized, createMockOp('chat.history'));
+    subscribe(initialized, { ...createMockOp('chat.onMessage'), type: 'subscription' });
+    await flushPromises();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(String(fetch.mock.calls[0]?.[0 as never])).toMatch(/^\/api\/chat\/chat\.history\?batch=1/);
+    expect(FakeEventSource.urls).toHaveLength(1);
+    expect(FakeEventSource.urls[0]).toMatch(/^\/api\/chat\/chat\.onMessage/);
+  });
+
+  it('should pass the SSE options to the subscription link', async () => {
+    const initialized = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { chat: '/api/chat' },
+      transport: {
+        sseOptions: {
+          EventSource: FakeEventSource,
+          connectionParams: async () => ({ token: 'secret' }),
+          eventSourceOptions: ({ op }) => ({ headers: { 'x-procedure': op.path } }),
+        },
+      },
+    })({} as never);
+
+    subscribe(initialized, { ...createMockOp('chat.onMessage'), type: 'subscription' });
+    await flushPromises();
+
+    const url = new URL(FakeEventSource.urls[0], 'http://localhost');
+    expect(JSON.parse(url.searchParams.get('connectionParams') ?? '')).toEqual({
+      token: 'secret',
+    });
+    expect(FakeEventSource.inits).toEqual([{ headers: { 'x-procedure': 'chat.onMessage' } }]);
+  });
+
+  it('should send WebSocket connection params once the socket opens', async () => {
+    const initialized = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { chat: 'https://chat.example.com/trpc' },
+      transport: {
+        subscriptions: 'wsLink',
+        wsClientOptions: {
+          WebSocket: FakeWebSocket as unknown as typeof WebSocket,
+          connectionParams: { token: 'secret' },
+        },
+      },
+    })({} as never);
+
+    subscribe(initialized, { ...createMockOp('chat.onMessage'), type: 'subscription' });
+    await flushPromises();
+    const [socket] = FakeWebSocket.instances;
+    socket.open();
+    await flushPromises();
+
+    expect(socket.sent[0]).toEqual({ method: 'connectionParams', data: { token: 'secret' } });
+  });
+
+  it('should share one WebSocket per endpoint, opened on the first subscription', async () => {
+    const link = endpointRouterLink<MockRouter>({
+      routerToEndpoint: {
+        chat: 'https://chat.example.com/trpc',
+        presence: 'https://chat.example.com/trpc',
+        users: 'http://users.example.com/trpc',
+      },
+      linkOptions: { fetch: vi.fn(async () => new Response('[]')) },
+      transport: {
+        subscriptions: 'wsLink',
+        wsClientOptions: { WebSocket: FakeWebSocket as unknown as typeof WebSocket },
+      },
+    });
+    const first = link({} as never);
+    const second = link({} as never);
+
+    subscribe(first, createMockOp('users.list'));
+    await flushPromises();
+    expect(FakeWebSocket.instances).toHaveLength(0);
+
+    subscribe(first, { ...createMockOp('chat.onMessage'), type: 'subscription' });
+    subscribe(first, { ...createMockOp('presence.onChange'), type: 'subscription' });
+    subscribe(second, { ...createMockOp('chat.onMessage'), type: 'subscription' });
+    subscribe(first, { ...createMockOp('users.onChange'), type: 'subscription' });
+    await flushPromises();
+
+    expect(FakeWebSocket.instances.map(({ url }) => url)).toEqual([
+      'wss://chat.example.com/trpc',
+      'ws://users.example.com/trpc',
+    ]);
+
+    // Sockets close once connected
+    for (const socket of FakeWebSocket.instances) {
+      socket.open();
+    }
+    link.dispose();
+    await flushPromises();
+    expect(FakeWebSocket.instances.every(({ readyState }) => readyState === 3)).toBe(true);
+  });
+
+  it('should fail subscriptions whose WebSocket URL cannot be derived', async () => {
+    const initialized = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { chat: '/api/chat' },
+      transport: { subscriptions: 'wsLink' },
+    })({} as never);
+
+    const error = await new Promise<Error>((resolve) => {
+      initialized({
+        op: { ...createMockOp('chat.onMessage'), type: 'subscription' },
+        next: vi.fn() as never,
+      }).subscribe({ error: resolve });
+    });
+
+    expect(error.message).toContain('cannot derive a WebSocket URL from "/api/chat"');
+  });
+});
+
 describe('typedEndpointRouterLink', () => {
   it('should work the same as endpointRouterLink', async () => {
     let usedEndpoint = '';
@@ -438,4 +1212,78 @@ describe('typedEndpointRouterLink', () => {
 
     expect(usedEndpoint).toBe('/api/users');
   });
+
+  it('should type the endpoint override context key', async () => {
+    const receivedOverrides: unknown[] = [];
+
+    const link = typedEndpointRouterLink({
+      routerToEndpoint: { users: '/api/users' },
+      endpointOverride: {
+        contextKey: 'target',
+        endpoints: { staging: '/api/staging' },
+      },
+      rules: [
+        {
+          match: ({ ctx }) => {
+            // ctx.target is typed as 'staging' | EndpointUrl | undefined
+            const target: 'staging' | `/${string}` | `http${string}` | undefined = ctx.target;
+            receivedOverrides.push(target);
+            return false;
+          },
+          endpoint: '/api/never',
+        },
+      ],
+      linkFactory: () => () => () =>
+        observable((observer) => {
+          observer.complete();
+          return () => {};
+        }),
+    });
+
+    await new Promise<void>((resolve) => {
+      link({} as never)({
+        op: createMockOp('users.get'),
+        next: vi.fn() as never,
+      }).subscribe({ complete: () => resolve() });
+    });
+
+    expect(receivedOverrides).toEqual([undefined]);
+  });
+
+  it('should reject mapping keys that are not router or procedure paths', () => {
+    const t = initTRPC.create();
+    const appRouter = t.router({
+      users: t.router({ getAll: t.procedure.query(() => []) }),
+      billing: t.router({
+        payouts: t.router({ list: t.procedure.query(() => []) }),
+      }),
+    });
+    type AppRouter = typeof appRouter;
+
+    const link = typedEndpointRouterLink<AppRouter>({
+      routerToEndpoint: {
+        users: '/api/users',
+        'billing.payouts': '/api/payouts',
+        'billing.payouts.list': '/api/payouts-read',
+      },
+    });
+    typedEndpointRouterLink<AppRouter>({
+      routerToEndpoint: {
+        // @ts-expect-error - 'usres' is not a router of the AppRouter
+        usres: '/api/users',
+      },
+    });
+    typedEndpointRouterLink<AppRouter>({
+      routerToEndpoint: {
+        // @ts-expect-error - 'billing.payuots' is not a nested router path
+        'billing.payuots': '/api/payouts',
+      },
+    });
+    typedEndpointRouterLink<AppRouter>({
+      // @ts-expect-error - resolvers are checked against the router paths too
+      routerToEndpoint: () => ({ usres: '/api/users' }),
+    });
+
+    expect(link).toBeTypeOf('function');
+  });
 });
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { hedgeLink } from '../hedge-link';
+import { metricsLink, createHistogramReporter } from '../metrics-link';
+import { endpointRouterLink } from '../endpoint-router-link';
+import type { HedgeEvent } from '../types';
+import {
+  createControlledLink,
+  createMockOp,
+  createRunner,
+  type ControlledRequest,
+  type MockRouter,
+} from './link-fixtures';
+
+describe('hedgeLink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should hedge slow queries and cancel the losing attempt', () => {
+    const upstream = createControlledLink();
+    const hedges: HedgeEvent[] = [];
+    const run = createRunner([
+      hedgeLink({
+        delay: 100,
+        routers: { dashboard: true },
+        onHedge: (event) => hedges.push(event),
+      }),
+      upstream.link,
+    ]);
+
+    const result = run(createMockOp('dashboard.stats'));
+    vi.advanceTimersByTime(99);
+    expect(upstream.requests).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(upstream.requests).toHaveLength(2);
+    expect(hedges).toMatchObject([{ delayMs: 100, avoidedEndpoint: undefined }]);
+
+    upstream.respond(1, 'hedge');
+
+    expect(result.next).toHaveBeenCalledWith({ result: { type: 'data', data: 'hedge' } });
+    expect(result.complete).toHaveBeenCalledTimes(1);
+    expect(upstream.requests[0].closed).toBe(true);
+    expect(upstream.requests[0].op.signal?.aborted).toBe(true);
+    expect(upstream.requests[1].op.signal?.aborted).toBe(false);
+  });
+
+  it('should not hedge queries answering within the delay', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      hedgeLink({ delay: 100, routers: { dashboard: true } }),
+      upstream.link,
+    ]);
+
+    const result = run(createMockOp('dashboard.stats'));
+    vi.advanceTimersByTime(50);
+    upstream.respond(0, 'first');
+    vi.advanceTimersByTime(1000);
+
+    expect(upstream.requests).toHaveLength(1);
+    expect(result.complete).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should only hedge queries of opted-in routers', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      hedgeLink<MockRouter>({
+        delay: 100,
+        routers: { dashboard: true, 'dashboard.export': false },
+      }),
+      upstream.link,
+    ]);
+
+    run(createMockOp('users.list'));
+    run(createMockOp('dashboard.export.csv'));
+    run(createMockOp('dashboard.refresh', { type: 'mutation' }));
+    run(createMockOp('dashboard.live', { type: 'subscription' }));
+    vi.advanceTimersByTime(1000);
+
+    expect(upstream.requests).toHaveLength(4);
+  });
+
+  it('should stop hedging once the budget is spent', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      hedgeLink({
+        delay: 100,
+        routers: { dashboard: true },
+        budget: { maxHedges: 1, windowMs: 10_000 },
+      }),
+      upstream.link,
+    ]);
+
+    run(createMockOp('dashboard.a'));
+    run(createMockOp('dashboard.b'));
+    vi.advanceTimersByTime(100);
+    expect(upstream.requests).toHaveLength(3);
+
+    vi.advanceTimersByTime(10_000);
+    run(createMockOp('dashboard.c'));
+    vi.advanceTimersByTime(100);
+    expect(upstream.requests).toHaveLength(5);
+  });
+
+  it('should fail once every attempt failed', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      hedgeLink({ delay: 100, routers: { dashboard: true } }),
+      upstream.link,
+    ]);
+
+    const hedged = run(createMockOp('dashboard.a'));
+    vi.advanceTimersByTime(100);
+    upstream.fail(0);
+    expect(hedged.error).not.toHaveBeenCalled();
+    upstream.fail(1);
+    expect(hedged.error).toHaveBeenCalledTimes(1);
+
+    // A first attempt failing before the hedge was sent fails the query
+    const early = run(createMockOp('dashboard.b'));
+    upstream.fail(2);
+    vi.advanceTimersByTime(1000);
+    expect(early.error).toHaveBeenCalledTimes(1);
+    expect(upstream.requests).toHaveLength(3);
+  });
+
+  it('should hedge after a percentile of observed latencies', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      hedgeLink({
+        delay: { percentile: 50, fallbackMs: 1000, minSamples: 3 },
+        routers: { dashboard: true },
+      }),
+      upstream.link,
+    ]);
+
+    // Latencies of 100, 200 and 300ms
+    for (const latency of [100, 200, 300]) {
+      run(createMockOp('dashboard.stats'));
+      vi.advanceTimersByTime(latency);
+      upstream.respond(upstream.requests.length - 1);
+    }
+
+    run(createMockOp('dashboard.stats'));
+    vi.advanceTimersByTime(199);
+    expect(upstream.requests).toHaveLength(4);
+    vi.advanceTimersByTime(1);
+    expect(upstream.requests).toHaveLength(5);
+  });
+
+  it('should send the hedge to another endpoint and report the winner', () => {
+    const requests: ControlledRequest[] = [];
+    const reporter = createHistogramReporter();
+    const run = createRunner([
+      metricsLink({ reporter }),
+      hedgeLink({ delay: 100, routers: { dashboard: true } }),
+      endpointRouterLink<MockRouter>({
+        routerToEndpoint: { dashboard: ['/api/read-1', '/api/read-2'] },
+        linkFactory: (endpoint) => createControlledLink(endpoint, requests).link,
+      }),
+    ]);
+
+    const result = run(createMockOp('dashboard.stats'));
+    vi.advanceTimersByTime(100);
+    expect(requests.map(({ endpoint }) => endpoint)).toEqual(['/api/read-1', '/api/read-2']);
+
+    // The first attempt wins, although the hedge was routed last
+    requests[0].observer.next({ result: { type: 'data', data: 'from read-1' } });
+    requests[0].observer.complete();
+
+    expect(result.complete).toHaveBeenCalledTimes(1);
+    expect(requests[1].closed).toBe(true);
+    expect(reporter.metrics).toMatchObject([
+      { path: 'dashboard.stats', outcome: 'ok', endpoint: '/api/read-1' },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { AnyRouter } from '@trpc/server';
+import { createLinkCache } from '../link-cache';
+import type { LinkCacheOptions } from '../types';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+const createCache = (policy?: LinkCacheOptions) => {
+  const created: string[] = [];
+  const disposed: string[] = [];
+  const evicted: string[] = [];
+  const cache = createLinkCache<MockRouter>({
+    create: (endpoint) => {
+      created.push(endpoint);
+      return { links: [], dispose: () => disposed.push(endpoint) };
+    },
+    policy,
+    onEvict: (endpoint) => {
+      evicted.push(endpoint);
+    },
+  });
+  return { cache, created, disposed, evicted };
+};
+
+describe('createLinkCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reuse chains per endpoint', () => {
+    const { cache, created } = createCache();
+
+    cache.acquire('/a').release();
+    cache.acquire('/a').release();
+
+    expect(created).toEqual(['/a']);
+  });
+
+  it('should evict the least recently used idle chain beyond maxSize', () => {
+    const { cache, disposed, evicted } = createCache({ maxSize: 2 });
+
+    cache.acquire('/a').release();
+    cache.acquire('/b').release();
+    cache.acquire('/a').release();
+    cache.acquire('/c').release();
+
+    expect(cache.keys()).toEqual(['/a', '/c']);
+    expect(disposed).toEqual(['/b']);
+    expect(evicted).toEqual(['/b']);
+  });
+
+  it('should never evict chains with operations in flight', () => {
+    const { cache, disposed } = createCache({ maxSize: 2 });
+
+    const lease = cache.acquire('/a');
+    cache.acquire('/b').release();
+    cache.acquire('/c').release();
+
+    expect(cache.keys()).toEqual(['/a', '/c']);
+    expect(disposed).toEqual(['/b']);
+
+    lease.release();
+    cache.acquire('/d').release();
+
+    expect(cache.keys()).toEqual(['/c', '/d']);
+    expect(disposed).toEqual(['/b', '/a']);
+  });
+
+  it('should recreate chains older than the TTL', () => {
+    vi.useFakeTimers();
+    const { cache, created, disposed } = createCache({ ttlMs: 1000 });
+
+    cache.acquire('/a').release();
+    vi.advanceTimersByTime(1000);
+    cache.acquire('/a').release();
+
+    expect(created).toEqual(['/a', '/a']);
+    expect(disposed).toEqual(['/a']);
+  });
+
+  it('should evict chains that stay idle past the idle timeout', () => {
+    vi.useFakeTimers();
+    const { cache, disposed } = createCache({ idleTimeoutMs: 1000 });
+
+    const lease = cache.acquire('/a');
+    vi.advanceTimersByTime(5000);
+    expect(disposed).toEqual([]);
+
+    lease.release();
+    vi.advanceTimersByTime(999);
+    cache.acquire('/a').release();
+    vi.advanceTimersByTime(999);
+    expect(disposed).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(disposed).toEqual(['/a']);
+    expect(cache.keys()).toEqual([]);
+  });
+
+  it('should tear down evicted chains once their operations end', () => {
+    const { cache, created, disposed, evicted } = createCache();
+
+    const lease = cache.acquire('/a');
+    cache.evict('/a');
+    cache.acquire('/a').release();
+
+    expect(created).toEqual(['/a', '/a']);
+    expect(disposed).toEqual([]);
+    expect(evicted).toEqual(['/a']);
+
+    lease.release();
+    lease.release();
+    expect(disposed).toEqual(['/a']);
+  });
+
+  it('should tear down every chain on dispose', () => {
+    const { cache, disposed } = createCache();
+
+    cache.acquire('/a');
+    cache.acquire('/b').release();
+    cache.dispose();
+
+    expect(disposed.sort()).toEqual(['/a', '/b']);
+    expect(cache.keys()).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { vi } from 'vitest';
+import { observable, type Observer } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type OperationLink, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { createChain } from '../create-chain';
+
+// Fixtures shared by the tests of links that sit before the terminating link
+
+// Mock router type for testing
+export type MockRouter = AnyRouter;
+
+// Helper to create a mock operation
+export const createMockOp = (path: string, overrides: Partial<Operation> = {}): Operation => ({
+  id: 1,
+  type: 'query',
+  path,
+  input: undefined,
+  context: {},
+  signal: new AbortController().signal,
+  ...overrides,
+});
+
+export interface ControlledRequest {
+  op: Operation;
+  observer: Observer<unknown, unknown>;
+  /** Whether the request was unsubscribed from */
+  closed: boolean;
+  /** Endpoint of the link that received the request */
+  endpoint?: string;
+}
+
+// Terminating link whose requests are settled by the test; links of several
+// endpoints can share one list of requests
+export const createControlledLink = (endpoint?: string, requests: ControlledRequest[] = []) => {
+  const link: TRPCLink<MockRouter> = () => ({ op }) =>
+    observable((observer) => {
+      const request: ControlledRequest = {
+        op,
+        observer: observer as Observer<unknown, unknown>,
+        closed: false,
+        endpoint,
+      };
+      requests.push(request);
+      return () => {
+        request.closed = true;
+      };
+    });
+  const respond = (index: number, data: unknown = requests[index].endpoint ?? null) => {
+    requests[index].observer.next({ result: { type: 'data', data } });
+    requests[index].observer.complete();
+  };
+  const fail = (index: number) => {
+    requests[index].observer.error(TRPCClientError.from(new Error('fetch failed')));
+  };
+  const paths = () => requests.map(({ op }) => op.path);
+  return { link, requests, respond, fail, paths };
+};
+
+// Instantiates the links once, so state is shared between operations like in a client
+export const createRunner = (links: TRPCLink<MockRouter>[]) => {
+  const operationLinks: OperationLink<MockRouter>[] = links.map((link) => link({} as never));
+  return (op: Operation) => {
+    const observer = { next: vi.fn(), error: vi.fn(), complete: vi.fn() };
+    const subscription = createChain({ links: operationLinks, op }).subscribe(observer);
+    return { ...observer, unsubscribe: () => subscription.unsubscribe() };
+  };
+};
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { AnyRouter } from '@trpc/server';
+import { createLinkTestHarness } from '../link-test-harness';
+import { createMockLink } from '../mock-link';
+import { endpointRouterLink } from '../endpoint-router-link';
+import { switchLink } from '../switch-link';
+import { dedupeLink } from '../dedupe-link';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+describe('createLinkTestHarness', () => {
+  it('should run operations through the chain and resolve their data', async () => {
+    const harness = createLinkTestHarness<MockRouter>(
+      createMockLink({ responses: { users: (op) => ({ data: op.input }) } })
+    );
+
+    await expect(harness.query('users.get', 1)).resolves.toBe(1);
+    await expect(harness.mutation('users.update', 2)).resolves.toBe(2);
+    expect(harness.calls.map(({ op }) => [op.id, op.type, op.path])).toEqual([
+      [1, 'query', 'users.get'],
+      [2, 'mutation', 'users.update'],
+    ]);
+  });
+
+  it('should record the calls and routing of every endpoint', async () => {
+    const harness = createLinkTestHarness<MockRouter>(
+      endpointRouterLink<MockRouter>({
+        routerToEndpoint: { users: ['/api/users-1', '/api/users-2'] },
+        linkFactory: (endpoint) =>
+          createMockLink({
+            name: endpoint,
+            responses: {
+              users: endpoint.endsWith('-1') ? { error: 'fetch failed' } : { data: [] },
+            },
+          }),
+      })
+    );
+
+    const operation = harness.run({ path: 'users.list' });
+
+    await expect(operation.result()).resolves.toEqual([]);
+    expect(operation.routing).toEqual({ endpoint: '/api/users-2', attempts: 2 });
+    expect(harness.callsTo('/api/users-1')).toMatchObject([{ status: 'failed' }]);
+    expect(harness.callsTo('/api/users-2')).toMatchObject([{ status: 'completed' }]);
+  });
+
+  it('should group the calls of each endpoint into batches', () => {
+    const harness = createLinkTestHarness<MockRouter>(
+      switchLink<MockRouter, 'read' | 'write'>({
+        select: ({ op }) => (op.type === 'query' ? 'read' : 'write'),
+        cases: {
+          read: createMockLink({ name: 'read', fallback: { pending: true } }),
+          write: createMockLink({ name: 'write', fallback: { pending: true } }),
+        },
+      })
+    );
+
+    harness.run({ path: 'users.a' });
+    harness.run({ path: 'users.b' });
+    harness.run({ path: 'users.c', type: 'mutation' });
+
+    expect(harness.batches('read')).toEqual([['users.a', 'users.b']]);
+    expect(harness.batches()).toEqual([['users.a', 'users.b'], ['users.c']]);
+  });
+
+  it('should report aborted and unsubscribed operations', async () => {
+    const harness = createLinkTestHarness<MockRouter>([
+      dedupeLink(),
+      createMockLink({ fallback: { pending: true } }),
+    ]);
+    const controller = new AbortController();
+
+    const aborted = harness.run({ path: 'users.a', signal: controller.signal });
+    const unsubscribed = harness.run({ path: 'users.b' });
+    controller.abort();
+    unsubscribed.unsubscribe();
+
+    expect(aborted.status).toBe('cancelled');
+    await expect(aborted.result()).rejects.toThrow();
+    expect(unsubscribed.status).toBe('cancelled');
+    expect(harness.calls.map(({ status }) => status)).toEqual(['cancelled', 'cancelled']);
+    expect(harness.calls.every(({ op }) => op.signal?.aborted)).toBe(true);
+  });
+
+  it('should only record the calls of its own chain', async () => {
+    const shared = createMockLink<MockRouter>({ fallback: { data: null } });
+    const first = createLinkTestHarness<MockRouter>(shared);
+    const second = createLinkTestHarness<MockRouter>(shared);
+
+    await first.query('users.list');
+    first.reset();
+    await second.query('users.list');
+
+    expect(first.calls).toHaveLength(0);
+    expect(second.calls).toHaveLength(1);
+    expect(shared.calls).toHaveLength(2);
+  });
+});
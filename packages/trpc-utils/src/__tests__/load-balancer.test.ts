@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createReplicaSelector } from '../load-balancer';
+
+const always = () => true;
+
+describe('createReplicaSelector', () => {
+  it('should rotate replicas with round-robin by default', () => {
+    const select = createReplicaSelector({ replicas: ['/a', '/b', '/c'] }, () => 0);
+
+    expect([select(always)[0], select(always)[0], select(always)[0], select(always)[0]]).toEqual([
+      '/a',
+      '/b',
+      '/c',
+      '/a',
+    ]);
+  });
+
+  it('should spread traffic according to weights', () => {
+    const select = createReplicaSelector(
+      {
+        replicas: [{ url: '/a', weight: 3 }, { url: '/b' }],
+        strategy: 'weighted',
+      },
+      () => 0
+    );
+
+    const picks = Array.from({ length: 8 }, () => select(always)[0]);
+
+    expect(picks.filter((url) => url === '/a')).toHaveLength(6);
+    expect(picks.filter((url) => url === '/b')).toHaveLength(2);
+  });
+
+  it('should pick a random replica', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+
+    const select = createReplicaSelector({ replicas: ['/a', '/b'], strategy: 'random' }, () => 0);
+
+    expect(select(always)[0]).toBe('/b');
+  });
+
+  it('should pick the replica with the fewest operations in flight', () => {
+    const inFlight: Record<string, number> = { '/a': 2, '/b': 0, '/c': 1 };
+    const select = createReplicaSelector(
+      { replicas: ['/a', '/b', '/c'], strategy: 'least-in-flight' },
+      (endpoint) => inFlight[endpoint]
+    );
+
+    expect(select(always)).toEqual(['/b', '/a', '/c']);
+  });
+
+  it('should prefer eligible replicas and keep ineligible ones as a last resort', () => {
+    const select = createReplicaSelector({ replicas: ['/a', '/b', '/c'] }, () => 0);
+
+    expect(select((endpoint) => endpoint !== '/a')).toEqual(['/b', '/c', '/a']);
+  });
+
+  it('should return no candidates for an empty group', () => {
+    const select = createReplicaSelector({ replicas: [] }, () => 0);
+
+    expect(select(always)).toEqual([]);
+  });
+});
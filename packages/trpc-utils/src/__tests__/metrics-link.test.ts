@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { observable } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { metricsLink, createHistogramReporter } from '../metrics-link';
+import { endpointRouterLink } from '../endpoint-router-link';
+import { switchLink } from '../switch-link';
+import { createChain } from '../create-chain';
+import { CircuitOpenError, RateLimitError, TimeoutError } from '../errors';
+import type { OperationMetric } from '../types';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+// Helper to create a mock operation
+const createMockOp = (
+  path: string,
+  signal: AbortSignal = new AbortController().signal
+): Operation => ({
+  id: 1,
+  type: 'query',
+  path,
+  input: undefined,
+  context: {},
+  signal,
+});
+
+// Terminating link that answers with the endpoint it was created for
+const createEndpointLink =
+  (endpoint: string): TRPCLink<MockRouter> =>
+  () =>
+  () =>
+    observable((observer) => {
+      if (endpoint.includes('down')) {
+        observer.error(TRPCClientError.from(new Error('fetch failed')) as never);
+        return () => {};
+      }
+      observer.next({ result: { type: 'data', data: endpoint } } as never);
+      observer.complete();
+      return () => {};
+    });
+
+// Terminating link that fails with the given error
+const createFailingLink =
+  (error: unknown): TRPCLink<MockRouter> =>
+  () =>
+  () =>
+    observable((observer) => {
+      observer.error(error as never);
+      return () => {};
+    });
+
+// Terminating link that never settles
+const pendingLink: TRPCLink<MockRouter> = () => () => observable(() => () => {});
+
+const run = (links: TRPCLink<MockRouter>[], op: Operation) =>
+  createChain({ links: links.map((link) => link({} as never)), op }).subscribe({});
+
+describe('metricsLink', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report duration, outcome, type and router of operations', () => {
+    vi.useFakeTimers();
+    const reporter = createHistogramReporter();
+    const link: TRPCLink<MockRouter> = () => () =>
+      observable((observer) => {
+        const timer = setTimeout(() => {
+          observer.next({ result: { type: 'data', data: 1 } } as never);
+          observer.complete();
+        }, 120);
+        return () => clearTimeout(timer);
+      });
+
+    run([metricsLink({ reporter }), link], createMockOp('users.getAll'));
+    vi.advanceTimersByTime(120);
+
+    expect(reporter.metrics).toEqual([
+      expect.objectContaining({
+        path: 'users.getAll',
+        type: 'query',
+        router: 'users',
+        outcome: 'ok',
+        errorCode: undefined,
+        durationMs: 120,
+      }),
+    ]);
+  });
+
+  it('should report the endpoint chosen by endpointRouterLink', () => {
+    const reporter = createHistogramReporter();
+    const router = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { users: ['/api/users-down', '/api/users'] },
+      linkFactory: createEndpointLink,
+    });
+
+    run([metricsLink({ reporter }), router], createMockOp('users.getAll'));
+
+    expect(reporter.metrics[0]).toMatchObject({
+      endpoint: '/api/users',
+      attempts: 2,
+      outcome: 'ok',
+    });
+  });
+
+  it('should report the case chosen by switchLink', () => {
+    const reporter = createHistogramReporter();
+    const router = switchLink<MockRouter, 'public' | 'private'>({
+      select: ({ path }) => (path.startsWith('public.') ? 'public' : 'private'),
+      cases: {
+        public: createEndpointLink('/api/public'),
+        private: endpointRouterLink<MockRouter>({
+          routerToEndpoint: { users: '/api/users' },
+          linkFactory: createEndpointLink,
+        }),
+      },
+    });
+
+    run([metricsLink({ reporter }), router], createMockOp('public.health'));
+    run([metricsLink({ reporter }), router], createMockOp('users.get'));
+
+    expect(reporter.metrics.map(({ case: key, endpoint }) => ({ key, endpoint }))).toEqual([
+      { key: 'public', endpoint: undefined },
+      { key: 'private', endpoint: '/api/users' },
+    ]);
+  });
+
+  it('should keep routing decisions of operations sharing a context apart', () => {
+    vi.useFakeTimers();
+    const reporter = createHistogramReporter();
+    const router = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { users: '/api/users', billing: '/api/billing' },
+      linkFactory: () => () => () =>
+        observable((observer) => {
+          const timer = setTimeout(() => observer.complete(), 10);
+          return () => clearTimeout(timer);
+        }),
+    });
+    const context = {};
+
+    run([metricsLink({ reporter }), router], { ...createMockOp('users.get'), context });
+    run([metricsLink({ reporter }), router], { ...createMockOp('billing.get'), context });
+    vi.advanceTimersByTime(10);
+
+    expect(reporter.metrics.map((metric) => metric.endpoint)).toEqual([
+      '/api/users',
+      '/api/billing',
+    ]);
+    expect(context).toEqual({});
+  });
+
+  it.each([
+    [TRPCClientError.from(new Error('fetch failed')), 'NETWORK_ERROR'],
+    [
+      TRPCClientError.from({
+        error: { code: -32603, message: 'boom', data: { code: 'INTERNAL_SERVER_ERROR' } },
+      }),
+      'INTERNAL_SERVER_ERROR',
+    ],
+    [TRPCClientError.from(new CircuitOpenError('/api/users', 1000)), 'CIRCUIT_OPEN'],
+    [TRPCClientError.from(new TimeoutError('users.get', 1000)), 'TIMEOUT'],
+    [TRPCClientError.from(new RateLimitError('/api/users', 'users', 'queue-full')), 'RATE_LIMITED'],
+    [new Error('plain'), 'UNKNOWN'],
+  ])('should classify errors (%s)', (error, errorCode) => {
+    const reporter = createHistogramReporter();
+
+    run([metricsLink({ reporter }), createFailingLink(error)], createMockOp('users.get'));
+
+    expect(reporter.metrics[0]).toMatchObject({ outcome: 'error', errorCode });
+  });
+
+  it('should report unsubscribed and aborted operations as aborted', () => {
+    const reporter = createHistogramReporter();
+
+    run([metricsLink({ reporter }), pendingLink], createMockOp('users.get')).unsubscribe();
+
+    const controller = new AbortController();
+    run([metricsLink({ reporter }), pendingLink], createMockOp('users.get', controller.signal));
+    controller.abort();
+
+    expect(reporter.metrics.map((metric) => metric.outcome)).toEqual(['aborted', 'aborted']);
+  });
+
+  it('should report each operation once', () => {
+    const reporter = createHistogramReporter();
+
+    const subscription = run(
+      [metricsLink({ reporter }), createEndpointLink('/api')],
+      createMockOp('users.get')
+    );
+    subscription.unsubscribe();
+
+    expect(reporter.metrics).toHaveLength(1);
+  });
+
+  it('should not fail operations when the reporter throws', () => {
+    const results: unknown[] = [];
+    const link = metricsLink<MockRouter>({
+      reporter: {
+        report: () => {
+          throw new Error('statsd down');
+        },
+      },
+    });
+
+    createChain({
+      links: [link, createEndpointLink('/api')].map((l) => l({} as never)),
+      op: createMockOp('users.get'),
+    }).subscribe({ next: (value) => results.push(value) });
+
+    expect(results).toHaveLength(1);
+  });
+});
+
+describe('createHistogramReporter', () => {
+  const metric = (durationMs: number, overrides: Partial<OperationMetric> = {}) =>
+    ({
+      path: 'users.get',
+      type: 'query',
+      router: 'users',
+      outcome: 'ok',
+      durationMs,
+      startedAt: 0,
+      ...overrides,
+    }) satisfies OperationMetric;
+
+  it('should build cumulative histograms for filtered metrics', () => {
+    const reporter = createHistogramReporter({ buckets: [100, 10, 50] });
+    reporter.report(metric(5, { endpoint: '/a' }));
+    reporter.report(metric(40, { endpoint: '/a' }));
+    reporter.report(metric(400, { endpoint: '/a' }));
+    reporter.report(metric(1, { endpoint: '/b' }));
+
+    expect(reporter.histogram({ endpoint: '/a' })).toEqual({
+      count: 3,
+      sumMs: 445,
+      buckets: [
+        { le: 10, count: 1 },
+        { le: 50, count: 2 },
+        { le: 100, count: 2 },
+      ],
+    });
+    expect(reporter.histogram().count).toBe(4);
+  });
+
+  it('should compute nearest-rank percentiles', () => {
+    const reporter = createHistogramReporter();
+    for (let duration = 1; duration <= 100; duration++) {
+      reporter.report(metric(duration, { outcome: duration > 90 ? 'error' : 'ok' }));
+    }
+
+    expect(reporter.percentile(50)).toBe(50);
+    expect(reporter.percentile(95)).toBe(95);
+    expect(reporter.percentile(100, { outcome: 'ok' })).toBe(90);
+    expect(reporter.percentile(50, { router: 'billing' })).toBeUndefined();
+  });
+
+  it('should bound and reset recorded metrics', () => {
+    const reporter = createHistogramReporter({ maxMetrics: 2 });
+    reporter.report(metric(1));
+    reporter.report(metric(2));
+    reporter.report(metric(3));
+
+    expect(reporter.metrics.map((m) => m.durationMs)).toEqual([2, 3]);
+
+    reporter.reset();
+    expect(reporter.metrics).toEqual([]);
+  });
+});
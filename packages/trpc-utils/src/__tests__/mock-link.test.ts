@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Operation } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { createMockLink } from '../mock-link';
+import { createChain } from '../create-chain';
+import { isNetworkError } from '../endpoint-health';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+// Helper to create a mock operation
+const createMockOp = (path: string, overrides: Partial<Operation> = {}): Operation => ({
+  id: 1,
+  type: 'query',
+  path,
+  input: undefined,
+  context: {},
+  signal: new AbortController().signal,
+  ...overrides,
+});
+
+const run = (link: ReturnType<typeof createMockLink<MockRouter>>, op: Operation) => {
+  const observer = { next: vi.fn(), error: vi.fn(), complete: vi.fn() };
+  const subscription = createChain({ links: [link({} as never)], op }).subscribe(observer);
+  return { ...observer, unsubscribe: () => subscription.unsubscribe() };
+};
+
+describe('createMockLink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should answer with the response of the longest matching prefix', () => {
+    const link = createMockLink<MockRouter>({
+      responses: {
+        users: { data: 'users' },
+        'users.get': (op) => ({ data: { id: op.input } }),
+      },
+    });
+
+    const list = run(link, createMockOp('users.list'));
+    const get = run(link, createMockOp('users.get', { input: 7 }));
+
+    expect(list.next).toHaveBeenCalledWith({ result: { type: 'data', data: 'users' } });
+    expect(list.complete).toHaveBeenCalledTimes(1);
+    expect(get.next).toHaveBeenCalledWith({ result: { type: 'data', data: { id: 7 } } });
+  });
+
+  it('should fail with scripted errors, and for paths without a response', () => {
+    const link = createMockLink<MockRouter>({ responses: { users: { error: 'fetch failed' } } });
+
+    const failed = run(link, createMockOp('users.list'));
+    const unscripted = run(link, createMockOp('posts.list'));
+
+    expect(failed.error.mock.calls[0][0].message).toBe('fetch failed');
+    expect(unscripted.error.mock.calls[0][0].message).toBe(
+      'mockLink: no response scripted for "posts.list"'
+    );
+    expect(link.calls.map(({ status }) => status)).toEqual(['failed', 'failed']);
+  });
+
+  it('should fail with tRPC error responses, which are not network errors', () => {
+    const link = createMockLink<MockRouter>({
+      responses: {
+        'users.remove': { error: { code: 'FORBIDDEN' } },
+        'users.update': { error: { code: 'CONFLICT', message: 'Stale', httpStatus: 412 } },
+        users: { error: 'fetch failed' },
+      },
+    });
+
+    const forbidden = run(link, createMockOp('users.remove')).error.mock.calls[0][0];
+    const conflict = run(link, createMockOp('users.update')).error.mock.calls[0][0];
+    const network = run(link, createMockOp('users.list')).error.mock.calls[0][0];
+
+    expect(forbidden).toMatchObject({
+      message: 'FORBIDDEN',
+      shape: { code: -32003, message: 'FORBIDDEN' },
+      data: { code: 'FORBIDDEN', httpStatus: 403, path: 'users.remove' },
+    });
+    expect(conflict).toMatchObject({
+      message: 'Stale',
+      data: { code: 'CONFLICT', httpStatus: 412 },
+    });
+    expect(isNetworkError(forbidden)).toBe(false);
+    expect(isNetworkError(conflict)).toBe(false);
+    expect(isNetworkError(network)).toBe(true);
+  });
+
+  it('should delay responses and stream subscription values', () => {
+    const link = createMockLink<MockRouter>({
+      responses: {
+        users: { data: 'late', delayMs: 100 },
+        events: { stream: ['a', 'b'], intervalMs: 50 },
+      },
+    });
+
+    const query = run(link, createMockOp('users.list'));
+    const subscription = run(link, createMockOp('events.onChange', { type: 'subscription' }));
+
+    expect(query.next).not.toHaveBeenCalled();
+    expect(subscription.next.mock.calls).toEqual([
+      [{ result: { type: 'started' } }],
+      [{ result: { type: 'data', data: 'a' } }],
+    ]);
+
+    vi.advanceTimersByTime(100);
+    expect(query.complete).toHaveBeenCalledTimes(1);
+    expect(subscription.next).toHaveBeenCalledWith({ result: { type: 'data', data: 'b' } });
+    expect(subscription.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record aborted and unsubscribed calls as cancelled', () => {
+    const link = createMockLink<MockRouter>({ fallback: { pending: true } });
+    const controller = new AbortController();
+
+    const aborted = run(link, createMockOp('users.a', { signal: controller.signal }));
+    const unsubscribed = run(link, createMockOp('users.b'));
+    controller.abort();
+    unsubscribed.unsubscribe();
+
+    expect(aborted.error.mock.calls[0][0].cause.name).toBe('AbortError');
+    expect(link.calls).toMatchObject([
+      { status: 'cancelled', aborted: true },
+      { status: 'cancelled', aborted: false },
+    ]);
+  });
+
+  it('should group calls received within the same tick into a batch', async () => {
+    const link = createMockLink<MockRouter>({ fallback: { data: null } });
+
+    run(link, createMockOp('users.a'));
+    run(link, createMockOp('users.b'));
+    await Promise.resolve();
+    run(link, createMockOp('users.c'));
+
+    expect(link.batches()).toEqual([['users.a', 'users.b'], ['users.c']]);
+
+    link.respond('users.c', { data: 'c' });
+    link.reset();
+    const replaced = run(link, createMockOp('users.c'));
+    expect(replaced.next).toHaveBeenCalledWith({ result: { type: 'data', data: 'c' } });
+    expect(link.calls).toHaveLength(1);
+  });
+});
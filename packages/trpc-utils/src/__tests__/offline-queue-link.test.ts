@@ -0,0 +1,246 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AnyRouter } from '@trpc/server';
+import { offlineQueueLink, createMemoryOfflineQueueStorage } from '../offline-queue-link';
+import { createLinkTestHarness } from '../link-test-harness';
+import { createMockLink } from '../mock-link';
+import type { ConnectivitySignal, OfflineConflict } from '../types';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+// Connectivity signal switched by the test
+const createConnectivity = (initiallyOnline: boolean) => {
+  let online = initiallyOnline;
+  const listeners = new Set<(online: boolean) => void>();
+  const signal: ConnectivitySignal = {
+    isOnline: () => online,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  const set = (value: boolean) => {
+    online = value;
+    for (const listener of listeners) {
+      listener(value);
+    }
+  };
+  return { signal, set, listeners };
+};
+
+describe('offlineQueueLink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue mutations failing with network errors and replay them in order', async () => {
+    const network = createMockLink<MockRouter>({
+      responses: { notes: { error: 'fetch failed' } },
+    });
+    const link = offlineQueueLink<MockRouter>({ retryDelayMs: 1000 });
+    const harness = createLinkTestHarness<MockRouter>([link, network]);
+
+    const first = harness.run({ path: 'notes.create', type: 'mutation', input: 1 });
+    const second = harness.run({ path: 'notes.create', type: 'mutation', input: 2 });
+
+    expect(first.status).toBe('pending');
+    expect(second.status).toBe('pending');
+    expect(link.queue.online).toBe(false);
+    expect(link.queue.mutations.map(({ input }) => input)).toEqual([1, 2]);
+    // The second mutation was queued behind the first without being sent
+    expect(network.calls).toHaveLength(1);
+
+    network.respond('notes', (op) => ({ data: `saved ${String(op.input)}` }));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(first.values).toEqual(['saved 1']);
+    expect(second.values).toEqual(['saved 2']);
+    expect(network.calls.slice(1).map(({ op }) => op.input)).toEqual([1, 2]);
+    expect(link.queue.mutations).toHaveLength(0);
+    expect(link.queue.online).toBe(true);
+  });
+
+  it('should keep retrying while the network is down', async () => {
+    const network = createMockLink<MockRouter>({ fallback: { error: 'fetch failed' } });
+    const link = offlineQueueLink<MockRouter>({ retryDelayMs: 1000 });
+    const harness = createLinkTestHarness<MockRouter>([link, network]);
+
+    harness.run({ path: 'notes.create', type: 'mutation' });
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(network.calls).toHaveLength(4);
+    expect(link.queue.mutations[0].attempts).toBe(3);
+  });
+
+  it('should follow the connectivity signal', async () => {
+    const connectivity = createConnectivity(false);
+    const network = createMockLink<MockRouter>({ fallback: { data: 'ok' } });
+    const link = offlineQueueLink<MockRouter>({ connectivity: connectivity.signal });
+    const harness = createLinkTestHarness<MockRouter>([link, network]);
+
+    const query = harness.run({ path: 'notes.list' });
+    const mutation = harness.run({ path: 'notes.create', type: 'mutation' });
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    // Queries are never queued; mutations wait for the signal
+    expect(query.status).toBe('completed');
+    expect(mutation.status).toBe('pending');
+    expect(network.calls.map(({ op }) => op.path)).toEqual(['notes.list']);
+
+    connectivity.set(true);
+    await link.queue.flush();
+    expect(mutation.status).toBe('completed');
+
+    link.dispose();
+    expect(connectivity.listeners.size).toBe(0);
+  });
+
+  it('should resolve queued mutations optimistically when configured', () => {
+    const connectivity = createConnectivity(false);
+    const harness = createLinkTestHarness<MockRouter>([
+      offlineQueueLink<MockRouter>({
+        connectivity: connectivity.signal,
+        routers: {
+          notes: { optimistic: (op) => ({ id: 'local', ...(op.input as object) }) },
+          photos: { optimistic: true },
+          'photos.delete': false,
+        },
+      }),
+      createMockLink({ fallback: { error: 'fetch failed' } }),
+    ]);
+
+    const note = harness.run({ path: 'notes.create', type: 'mutation', input: { text: 'a' } });
+    const photo = harness.run({ path: 'photos.upload', type: 'mutation' });
+    const removal = harness.run({ path: 'photos.delete', type: 'mutation' });
+    const other = harness.run({ path: 'users.update', type: 'mutation' });
+
+    expect(note.values).toEqual([{ id: 'local', text: 'a' }]);
+    expect(photo.status).toBe('completed');
+    expect(removal.status).toBe('failed');
+    expect(other.status).toBe('failed');
+  });
+
+  it('should replace queued mutations with the same dedupe key', async () => {
+    const connectivity = createConnectivity(false);
+    const network = createMockLink<MockRouter>({
+      fallback: (op) => ({ data: op.input }),
+    });
+    const link = offlineQueueLink<MockRouter>({
+      connectivity: connectivity.signal,
+      dedupeKey: (op) => (op.path === 'drafts.save' ? 'draft' : undefined),
+    });
+    const harness = createLinkTestHarness<MockRouter>([link, network]);
+
+    const older = harness.run({ path: 'drafts.save', type: 'mutation', input: 'v1' });
+    harness.run({ path: 'drafts.touch', type: 'mutation', input: 'touch' });
+    const newer = harness.run({ path: 'drafts.save', type: 'mutation', input: 'v2' });
+
+    expect(link.queue.mutations.map(({ input }) => input)).toEqual(['touch', 'v2']);
+
+    connectivity.set(true);
+    await link.queue.flush();
+
+    expect(network.calls.map(({ op }) => op.input)).toEqual(['touch', 'v2']);
+    expect(older.values).toEqual(['v2']);
+    expect(newer.values).toEqual(['v2']);
+  });
+
+  it('should let onConflict drop, retry or rewrite rejected mutations', async () => {
+    const connectivity = createConnectivity(false);
+    const conflicts: OfflineConflict[] = [];
+    let rejections = 0;
+    const network = createMockLink<MockRouter>({
+      responses: {
+        drop: { error: { code: 'CONFLICT', message: 'Gone' } },
+        rewrite: (op) =>
+          op.input === 'merged'
+            ? { data: 'merged' }
+            : { error: { code: 'CONFLICT', message: 'Stale' } },
+        retry: () =>
+          rejections++ === 0
+            ? { error: { code: 'CONFLICT', message: 'Busy' } }
+            : { data: 'ok' },
+      },
+    });
+    const link = offlineQueueLink<MockRouter>({
+      connectivity: connectivity.signal,
+      retryDelayMs: 1000,
+      onConflict: (conflict) => {
+        conflicts.push(conflict);
+        const router = conflict.mutation.path.split('.')[0];
+        return router === 'rewrite' ? { input: 'merged' } : (router as 'drop' | 'retry');
+      },
+    });
+    const harness = createLinkTestHarness<MockRouter>([link, network]);
+
+    const dropped = harness.run({ path: 'drop.a', type: 'mutation' });
+    const rewritten = harness.run({ path: 'rewrite.a', type: 'mutation', input: 'local' });
+    const retried = harness.run({ path: 'retry.a', type: 'mutation' });
+
+    connectivity.set(true);
+    await link.queue.flush();
+
+    expect(dropped.status).toBe('failed');
+    expect(dropped.error).toMatchObject({ message: 'Gone' });
+    expect(rewritten.values).toEqual(['merged']);
+    expect(retried.status).toBe('pending');
+    expect(conflicts.map(({ error }) => (error as Error).message)).toEqual([
+      'Gone',
+      'Stale',
+      'Busy',
+    ]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(retried.values).toEqual(['ok']);
+  });
+
+  it('should persist the queue and replay restored mutations by sequence', async () => {
+    const storage = createMemoryOfflineQueueStorage();
+    const connectivity = createConnectivity(false);
+    const before = createLinkTestHarness<MockRouter>([
+      offlineQueueLink<MockRouter>({
+        storage,
+        connectivity: connectivity.signal,
+        contextKeys: ['idempotencyKey'],
+      }),
+      createMockLink(),
+    ]);
+
+    before.run({ path: 'notes.create', type: 'mutation', input: 1 });
+    before.run({
+      path: 'notes.create',
+      type: 'mutation',
+      input: 2,
+      context: { idempotencyKey: 'k2', secret: true },
+    });
+    expect(await storage.get('2')).toMatchObject({
+      sequence: 2,
+      input: 2,
+      context: { idempotencyKey: 'k2' },
+    });
+
+    // After a reload, with restored mutations
+    const network = createMockLink<MockRouter>({ fallback: { data: null } });
+    const link = offlineQueueLink<MockRouter>({ storage });
+    const after = createLinkTestHarness<MockRouter>([link, network]);
+    expect(link.queue.mutations.map(({ sequence }) => sequence)).toEqual([1, 2]);
+
+    await after.query('notes.list');
+    await vi.advanceTimersByTimeAsync(0);
+
+    // The first operation through the link starts the replay
+    expect(network.calls.map(({ op }) => [op.path, op.input, op.context])).toEqual([
+      ['notes.create', 1, {}],
+      ['notes.list', undefined, {}],
+      ['notes.create', 2, { idempotencyKey: 'k2' }],
+    ]);
+    expect(await storage.keys()).toEqual([]);
+
+    after.run({ path: 'notes.create', type: 'mutation', input: 3 });
+    expect(network.calls.at(-1)?.op.input).toBe(3);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { observable } from '@trpc/server/observable';
+import type { TRPCLink } from '@trpc/client';
+import { rateLimitLink } from '../rate-limit-link';
+import { isNetworkError } from '../endpoint-health';
+import { RateLimitError, isRateLimitError } from '../errors';
+import {
+  createControlledLink,
+  createMockOp,
+  createRunner,
+  type MockRouter,
+} from './link-fixtures';
+
+// Terminating link that answers immediately
+const immediateLink: TRPCLink<MockRouter> = () => () =>
+  observable((observer) => {
+    observer.next({ result: { type: 'data', data: null } } as never);
+    observer.complete();
+    return () => {};
+  });
+
+describe('rateLimitLink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should cap operations in flight', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([rateLimitLink({ maxConcurrent: 2 }), upstream.link]);
+
+    run(createMockOp('users.a'));
+    run(createMockOp('users.b'));
+    run(createMockOp('users.c'));
+    expect(upstream.paths()).toEqual(['users.a', 'users.b']);
+
+    upstream.respond(0);
+    expect(upstream.paths()).toEqual(['users.a', 'users.b', 'users.c']);
+  });
+
+  it('should start operations at the token bucket rate after the burst', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      rateLimitLink({ tokensPerInterval: 2, intervalMs: 1000 }),
+      upstream.link,
+    ]);
+
+    for (const path of ['a', 'b', 'c', 'd']) {
+      run(createMockOp(`users.${path}`));
+    }
+    expect(upstream.requests).toHaveLength(2);
+
+    vi.advanceTimersByTime(499);
+    expect(upstream.requests).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(upstream.requests).toHaveLength(3);
+    vi.advanceTimersByTime(500);
+    expect(upstream.paths()).toEqual(['users.a', 'users.b', 'users.c', 'users.d']);
+  });
+
+  it('should start queued operations by priority, then in FIFO order', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      rateLimitLink({
+        maxConcurrent: 1,
+        priority: (op) => (op.path.startsWith('urgent.') ? 1 : 0),
+      }),
+      upstream.link,
+    ]);
+
+    for (const path of ['users.first', 'users.a', 'users.b', 'urgent.c', 'users.d']) {
+      run(createMockOp(path));
+    }
+    for (let index = 0; index < 4; index++) {
+      upstream.respond(index);
+    }
+
+    expect(upstream.paths()).toEqual([
+      'users.first',
+      'urgent.c',
+      'users.a',
+      'users.b',
+      'users.d',
+    ]);
+  });
+
+  it('should reject operations once the queue is full', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      rateLimitLink({ name: 'https://search.internal', maxConcurrent: 1, maxQueueSize: 1 }),
+      upstream.link,
+    ]);
+
+    run(createMockOp('search.a'));
+    const queued = run(createMockOp('search.b'));
+    const rejected = run(createMockOp('search.c'));
+
+    expect(queued.error).not.toHaveBeenCalled();
+    const error = rejected.error.mock.calls[0][0];
+    expect(isRateLimitError(error)).toBe(true);
+    expect(isNetworkError(error)).toBe(true);
+    expect(error.cause).toMatchObject({
+      limiter: 'https://search.internal',
+      scope: undefined,
+      reason: 'queue-full',
+    });
+    expect(error.message).toBe('rateLimitLink: queue of "https://search.internal" is full');
+  });
+
+  it('should remove aborted operations from the queue', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([rateLimitLink({ maxConcurrent: 1 }), upstream.link]);
+    const controller = new AbortController();
+
+    run(createMockOp('users.a'));
+    const aborted = run(createMockOp('users.b', { signal: controller.signal }));
+    run(createMockOp('users.c'));
+    controller.abort();
+    upstream.respond(0);
+
+    const error = aborted.error.mock.calls[0][0];
+    expect(error.cause).toBeInstanceOf(RateLimitError);
+    expect(error.cause.reason).toBe('aborted');
+    expect(upstream.paths()).toEqual(['users.a', 'users.c']);
+
+    const alreadyAborted = run(createMockOp('users.d', { signal: controller.signal }));
+    expect(alreadyAborted.error.mock.calls[0][0].cause.reason).toBe('aborted');
+  });
+
+  it('should free slots when operations are unsubscribed', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([rateLimitLink({ maxConcurrent: 1 }), upstream.link]);
+
+    const running = run(createMockOp('users.a'));
+    const queued = run(createMockOp('users.b'));
+    run(createMockOp('users.c'));
+
+    queued.unsubscribe();
+    running.unsubscribe();
+
+    expect(upstream.paths()).toEqual(['users.a', 'users.c']);
+  });
+
+  it('should release slots of operations that settle synchronously', () => {
+    const run = createRunner([rateLimitLink({ maxConcurrent: 1 }), immediateLink]);
+
+    const results = [run(createMockOp('users.a')), run(createMockOp('users.b'))];
+
+    for (const result of results) {
+      expect(result.complete).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('should give each router key limits and a queue of its own', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      rateLimitLink({
+        maxConcurrent: 1,
+        routers: { search: { maxQueueSize: 0 }, 'search.suggest': { maxConcurrent: 2 } },
+      }),
+      upstream.link,
+    ]);
+
+    run(createMockOp('users.a'));
+    run(createMockOp('users.b'));
+    run(createMockOp('search.query'));
+    const rejected = run(createMockOp('search.query'));
+    run(createMockOp('search.suggest.a'));
+    run(createMockOp('search.suggest.b'));
+
+    expect(upstream.paths()).toEqual([
+      'users.a',
+      'search.query',
+      'search.suggest.a',
+      'search.suggest.b',
+    ]);
+    expect(rejected.error.mock.calls[0][0].cause).toMatchObject({
+      scope: 'search',
+      reason: 'queue-full',
+    });
+  });
+
+  it('should apply top-level limits per pool rather than across router keys', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      rateLimitLink({ maxConcurrent: 1, routers: { search: {} } }),
+      upstream.link,
+    ]);
+
+    run(createMockOp('users.a'));
+    run(createMockOp('search.a'));
+    run(createMockOp('search.b'));
+
+    expect(upstream.paths()).toEqual(['users.a', 'search.a']);
+  });
+
+  it('should pass operations through when no limit applies', () => {
+    const upstream = createControlledLink();
+    const run = createRunner([
+      rateLimitLink({ routers: { search: { maxConcurrent: 1 } } }),
+      upstream.link,
+    ]);
+
+    for (let index = 0; index < 3; index++) {
+      run(createMockOp('users.list'));
+    }
+
+    expect(upstream.requests).toHaveLength(3);
+  });
+});
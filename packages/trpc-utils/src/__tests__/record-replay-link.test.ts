@@ -0,0 +1,276 @@
+import { describe, it, expect } from 'vitest';
+import type { AnyRouter } from '@trpc/server';
+import { recordReplayLink, createMemoryFixtureStorage } from '../record-replay-link';
+import { createLinkTestHarness } from '../link-test-harness';
+import { createMockLink } from '../mock-link';
+import { endpointRouterLink } from '../endpoint-router-link';
+import { isNetworkError } from '../endpoint-health';
+import type { FixtureTransformer, RecordedFixture, RecordedOperation } from '../types';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+const createFixture = (...operations: RecordedOperation[]) =>
+  JSON.stringify({ version: 1, operations } satisfies RecordedFixture);
+
+// Transformer keeping Dates, in the spirit of superjson
+const dateTransformer: FixtureTransformer = {
+  serialize: (value) =>
+    JSON.parse(
+      JSON.stringify(value, function (this: Record<string, unknown>, key, current: unknown) {
+        const original = this[key];
+        return original instanceof Date ? { $date: original.toISOString() } : current;
+      })
+    ),
+  deserialize: (value) =>
+    JSON.parse(JSON.stringify(value), (_key, current: unknown) =>
+      typeof current === 'object' && current !== null && '$date' in current
+        ? new Date(current.$date as string)
+        : current
+    ),
+};
+
+describe('recordReplayLink', () => {
+  it('should record operations to the storage and replay them without the network', async () => {
+    const storage = createMemoryFixtureStorage();
+    const recorder = recordReplayLink<MockRouter>({
+      mode: 'record',
+      storage,
+      contextKeys: ['locale'],
+    });
+    const recording = createLinkTestHarness<MockRouter>([
+      recorder,
+      endpointRouterLink<MockRouter>({
+        routerToEndpoint: { users: '/api/users' },
+        linkFactory: (endpoint) =>
+          createMockLink({
+            name: endpoint,
+            responses: {
+              'users.get': (op) => ({ data: { id: op.input } }),
+              'users.remove': { error: 'fetch failed' },
+            },
+          }),
+      }),
+    ]);
+
+    await recording.query('users.get', 1, { locale: 'fr', token: 'secret' });
+    await expect(recording.mutation('users.remove', 1)).rejects.toThrow('fetch failed');
+    await recorder.fixture.flush();
+
+    expect(JSON.parse(storage.json ?? '')).toEqual({
+      version: 1,
+      operations: [
+        {
+          path: 'users.get',
+          type: 'query',
+          input: 1,
+          context: { locale: 'fr' },
+          endpoint: '/api/users',
+          results: [{ id: 1 }],
+        },
+        {
+          path: 'users.remove',
+          type: 'mutation',
+          input: 1,
+          context: {},
+          endpoint: '/api/users',
+          results: [],
+          error: { message: 'fetch failed' },
+        },
+      ],
+    });
+
+    const network = createMockLink<MockRouter>();
+    const replaying = createLinkTestHarness<MockRouter>([
+      recordReplayLink({ mode: 'replay', storage }),
+      network,
+    ]);
+
+    const query = replaying.run({ path: 'users.get', input: 1 });
+    await expect(query.result()).resolves.toEqual({ id: 1 });
+    expect(query.routing).toEqual({ endpoint: '/api/users' });
+
+    const error = await replaying.mutation('users.remove', 1).catch((err: unknown) => err);
+    expect(isNetworkError(error)).toBe(true);
+    expect(network.calls).toHaveLength(0);
+  });
+
+  it('should replay tRPC errors with their shape', async () => {
+    const shape = { code: -32600, message: 'Invalid id', data: { code: 'BAD_REQUEST' } };
+    const harness = createLinkTestHarness<MockRouter>(
+      recordReplayLink({
+        mode: 'replay',
+        storage: createMemoryFixtureStorage(
+          createFixture({
+            path: 'users.get',
+            type: 'query',
+            input: 'x',
+            results: [],
+            error: { message: 'Invalid id', shape, data: shape.data },
+          })
+        ),
+      })
+    );
+
+    const error = await harness.query('users.get', 'x').catch((err: unknown) => err);
+
+    expect(error).toMatchObject({ message: 'Invalid id', shape, data: shape.data });
+    expect(isNetworkError(error)).toBe(false);
+  });
+
+  it('should fail loudly for operations no recording matches', async () => {
+    const harness = createLinkTestHarness<MockRouter>(
+      recordReplayLink({
+        mode: 'replay',
+        storage: createMemoryFixtureStorage(
+          createFixture({ path: 'users.get', type: 'query', input: { id: 1 }, results: [1] })
+        ),
+      })
+    );
+
+    await expect(harness.query('users.get', { id: 1 })).resolves.toBe(1);
+    await expect(harness.query('users.get', { id: 2 })).rejects.toThrow(
+      'recordReplayLink: no recording matches query "users.get" with input {"id":2}'
+    );
+    await expect(harness.mutation('users.get', { id: 1 })).rejects.toThrow(
+      'no recording matches mutation'
+    );
+  });
+
+  it('should match by path only, or with a custom matcher', async () => {
+    const storage = createMemoryFixtureStorage(
+      createFixture(
+        {
+          path: 'users.list',
+          type: 'query',
+          input: 1,
+          context: { locale: 'en' },
+          results: ['en'],
+        },
+        {
+          path: 'users.list',
+          type: 'query',
+          input: 1,
+          context: { locale: 'fr' },
+          results: ['fr'],
+        }
+      )
+    );
+
+    const byPath = createLinkTestHarness<MockRouter>(
+      recordReplayLink({ mode: 'replay', storage, match: 'path' })
+    );
+    await expect(byPath.query('users.list', 'other')).resolves.toBe('en');
+
+    const byLocale = createLinkTestHarness<MockRouter>(
+      recordReplayLink({
+        mode: 'replay',
+        storage,
+        match: (op, recorded) =>
+          op.path === recorded.path && op.context.locale === recorded.context?.locale,
+      })
+    );
+    await expect(byLocale.query('users.list', 1, { locale: 'fr' })).resolves.toBe('fr');
+  });
+
+  it('should serve matching recordings in order, then repeat the last one', async () => {
+    const harness = createLinkTestHarness<MockRouter>(
+      recordReplayLink({
+        mode: 'replay',
+        storage: createMemoryFixtureStorage(
+          createFixture(
+            { path: 'jobs.status', type: 'query', input: 7, results: ['running'] },
+            { path: 'jobs.status', type: 'query', input: 7, results: ['done'] }
+          )
+        ),
+      })
+    );
+
+    const statuses = [];
+    for (let poll = 0; poll < 3; poll++) {
+      statuses.push(await harness.query('jobs.status', 7));
+    }
+
+    expect(statuses).toEqual(['running', 'done', 'done']);
+  });
+
+  it('should record open subscriptions and replay them without completing', async () => {
+    const storage = createMemoryFixtureStorage();
+    const recorder = recordReplayLink<MockRouter>({ mode: 'record', storage });
+    const recording = createLinkTestHarness<MockRouter>([
+      recorder,
+      createMockLink({ fallback: { stream: ['a', 'b'], keepOpen: true } }),
+    ]);
+
+    recording.run({ path: 'events.onChange', type: 'subscription' }).unsubscribe();
+    await recorder.fixture.flush();
+    expect(recorder.fixture.operations).toMatchObject([{ results: ['a', 'b'], open: true }]);
+
+    const replaying = createLinkTestHarness<MockRouter>(
+      recordReplayLink({ mode: 'replay', storage })
+    );
+    const replayed = replaying.run({ path: 'events.onChange', type: 'subscription' });
+
+    expect(replayed.values).toEqual(['a', 'b']);
+    expect(replayed.status).toBe('pending');
+  });
+
+  it('should record serialized values with a transformer, and plain JSON without', async () => {
+    const since = new Date('2024-01-01T00:00:00.000Z');
+    const createdAt = new Date('2024-02-01T00:00:00.000Z');
+    const record = async (transformer?: FixtureTransformer) => {
+      const storage = createMemoryFixtureStorage();
+      const recorder = recordReplayLink<MockRouter>({ mode: 'record', storage, transformer });
+      const harness = createLinkTestHarness<MockRouter>([
+        recorder,
+        createMockLink({ responses: { 'users.list': { data: [{ id: 1, createdAt }] } } }),
+      ]);
+      await harness.query('users.list', { since });
+      await recorder.fixture.flush();
+      return storage;
+    };
+
+    const storage = await record(dateTransformer);
+    expect(JSON.parse(storage.json ?? '').operations[0]).toMatchObject({
+      input: { since: { $date: since.toISOString() } },
+      results: [[{ id: 1, createdAt: { $date: createdAt.toISOString() } }]],
+    });
+    const replaying = createLinkTestHarness<MockRouter>(
+      recordReplayLink({ mode: 'replay', storage, transformer: dateTransformer })
+    );
+    await expect(replaying.query('users.list', { since })).resolves.toEqual([
+      { id: 1, createdAt },
+    ]);
+
+    const plain = createLinkTestHarness<MockRouter>(
+      recordReplayLink({ mode: 'replay', storage: await record() })
+    );
+    await expect(plain.query('users.list', { since })).resolves.toEqual([
+      { id: 1, createdAt: createdAt.toISOString() },
+    ]);
+  });
+
+  it('should wait for asynchronous storages, and report load failures', async () => {
+    const harness = createLinkTestHarness<MockRouter>(
+      recordReplayLink({
+        mode: 'replay',
+        storage: {
+          read: async () =>
+            createFixture({ path: 'users.list', type: 'query', input: null, results: [[]] }),
+          write: () => {},
+        },
+      })
+    );
+    await expect(harness.query('users.list', null)).resolves.toEqual([]);
+
+    const broken = createLinkTestHarness<MockRouter>(
+      recordReplayLink({
+        mode: 'replay',
+        storage: createMemoryFixtureStorage('{"version":1}'),
+      })
+    );
+    await expect(broken.query('users.list')).rejects.toThrow(
+      'recordReplayLink: could not load the fixture: the fixture has no operations'
+    );
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { observable } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { retryLink } from '../retry-link';
+import { switchLink } from '../switch-link';
+import { createChain } from '../create-chain';
+import type { RetryEvent } from '../types';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+// Helper to create a mock operation
+const createMockOp = (
+  path: string,
+  type: Operation['type'] = 'query',
+  signal: AbortSignal = new AbortController().signal
+): Operation => ({
+  id: 1,
+  type,
+  path,
+  input: {},
+  context: {},
+  signal,
+});
+
+const networkError = () => TRPCClientError.from(new Error('fetch failed'));
+
+// Terminating link that fails the first `failures` calls, then succeeds
+const createFlakyLink = (failures: number, ops: Operation[] = []): TRPCLink<MockRouter> => {
+  let calls = 0;
+  return () =>
+    ({ op }) =>
+      observable((observer) => {
+        ops.push(op);
+        calls++;
+        if (calls <= failures) {
+          observer.error(networkError() as never);
+        } else {
+          observer.next({ result: { type: 'data', data: calls } } as never);
+          observer.complete();
+        }
+        return () => {};
+      });
+};
+
+const run = (links: TRPCLink<MockRouter>[], op: Operation) => {
+  const result: { data?: unknown; error?: unknown; done: boolean } = { done: false };
+  createChain({ links: links.map((link) => link({} as never)), op }).subscribe({
+    next: (value: unknown) => {
+      result.data = (value as { result: { data: unknown } }).result.data;
+    },
+    error: (error: unknown) => {
+      result.error = error;
+      result.done = true;
+    },
+    complete: () => {
+      result.done = true;
+    },
+  });
+  return result;
+};
+
+describe('retryLink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should retry queries with exponential backoff', async () => {
+    const events: RetryEvent[] = [];
+    const result = run(
+      [
+        retryLink<MockRouter>({ jitter: false, baseDelayMs: 100, onRetry: (e) => events.push(e) }),
+        createFlakyLink(2),
+      ],
+      createMockOp('users.get')
+    );
+
+    expect(result.done).toBe(false);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(result.done).toBe(false);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(result).toMatchObject({ done: true, data: 3 });
+    expect(events.map((event) => [event.attempt, event.delayMs])).toEqual([
+      [1, 100],
+      [2, 200],
+    ]);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const result = run(
+      [retryLink<MockRouter>({ maxAttempts: 2, jitter: false }), createFlakyLink(5)],
+      createMockOp('users.get')
+    );
+
+    await vi.runAllTimersAsync();
+
+    expect(result.done).toBe(true);
+    expect((result.error as Error).message).toBe('fetch failed');
+  });
+
+  it('should apply jitter within the backoff delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const events: RetryEvent[] = [];
+
+    run(
+      [retryLink<MockRouter>({ baseDelayMs: 100, onRetry: (e) => events.push(e) }), createFlakyLink(1)],
+      createMockOp('users.get')
+    );
+
+    expect(events[0].delayMs).toBe(50);
+  });
+
+  it('should never retry mutations unless allowlisted', async () => {
+    const ops: Operation[] = [];
+    const link = retryLink<MockRouter>({
+      jitter: false,
+      routers: { billing: { retryMutations: ['billing.sync'] } },
+    });
+
+    const rejected = run([link, createFlakyLink(1, ops)], createMockOp('billing.pay', 'mutation'));
+    expect(rejected.done).toBe(true);
+    expect(ops).toHaveLength(1);
+
+    const retried = run([link, createFlakyLink(1)], createMockOp('billing.sync', 'mutation'));
+    await vi.runAllTimersAsync();
+    expect(retried).toMatchObject({ done: true, data: 2 });
+  });
+
+  it('should apply per-router policies', async () => {
+    const ops: Operation[] = [];
+    const result = run(
+      [
+        retryLink<MockRouter>({ jitter: false, routers: { reports: { maxAttempts: 1 } } }),
+        createFlakyLink(1, ops),
+      ],
+      createMockOp('reports.daily')
+    );
+
+    expect(result.done).toBe(true);
+    expect(ops).toHaveLength(1);
+  });
+
+  it('should prefer the longest matching router path policy', async () => {
+    const link = retryLink<MockRouter>({
+      jitter: false,
+      routers: {
+        reports: { maxAttempts: 1 },
+        'reports.exports': { maxAttempts: 2 },
+      },
+    });
+
+    const ops: Operation[] = [];
+    const result = run([link, createFlakyLink(1, ops)], createMockOp('reports.exports.csv'));
+    await vi.runAllTimersAsync();
+
+    expect(result).toMatchObject({ done: true, data: 2 });
+    expect(ops).toHaveLength(2);
+  });
+
+  it('should not retry client errors', () => {
+    const link: TRPCLink<MockRouter> = () => () =>
+      observable((observer) => {
+        observer.error(
+          TRPCClientError.from({
+            error: { code: -32600, message: 'Bad request', data: { httpStatus: 400 } },
+          }) as never
+        );
+        return () => {};
+      });
+
+    const result = run([retryLink<MockRouter>(), link], createMockOp('users.get'));
+
+    expect(result.done).toBe(true);
+  });
+
+  it('should stop retrying when the operation is aborted', async () => {
+    const controller = new AbortController();
+    const ops: Operation[] = [];
+    const result = run(
+      [retryLink<MockRouter>({ jitter: false }), createFlakyLink(5, ops)],
+      createMockOp('users.get', 'query', controller.signal)
+    );
+
+    controller.abort();
+    await vi.runAllTimersAsync();
+
+    expect(result.done).toBe(true);
+    expect((result.error as Error).message).toBe('fetch failed');
+    expect(ops).toHaveLength(1);
+  });
+
+  it('should enforce the retry budget across operations', async () => {
+    const ops: Operation[] = [];
+    const link = retryLink<MockRouter>({ jitter: false, budget: { maxRetries: 1 } });
+    const terminal = createFlakyLink(Number.POSITIVE_INFINITY, ops);
+
+    run([link, terminal], createMockOp('users.get'));
+    await vi.runAllTimersAsync();
+
+    expect(ops).toHaveLength(2);
+  });
+
+  it('should reconnect subscriptions from the last event id', async () => {
+    const ops: Operation[] = [];
+    let connections = 0;
+    const terminal: TRPCLink<MockRouter> = () => ({ op }) =>
+      observable((observer) => {
+        ops.push(op);
+        connections++;
+        observer.next({ result: { type: 'data', id: `event-${connections}`, data: connections } } as never);
+        if (connections === 1) {
+          observer.error(networkError() as never);
+        }
+        return () => {};
+      });
+
+    const result = run(
+      [retryLink<MockRouter>({ jitter: false }), terminal],
+      createMockOp('events.onUpdate', 'subscription')
+    );
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(result).toMatchObject({ done: false, data: 2 });
+    expect(ops[1].input).toEqual({ lastEventId: 'event-1' });
+  });
+
+  it('should compose inside switchLink cases', async () => {
+    const link = switchLink<MockRouter, 'flaky'>({
+      select: () => 'flaky',
+      cases: { flaky: [retryLink({ jitter: false }), createFlakyLink(1)] },
+    });
+
+    const result = run([link], createMockOp('users.get'));
+    await vi.runAllTimersAsync();
+
+    expect(result).toMatchObject({ done: true, data: 2 });
+  });
+});
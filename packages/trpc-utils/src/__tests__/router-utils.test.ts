@@ -1,6 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import type { RouterNames, RequiredRouterMapping, PartialRouterMapping } from '../router-utils';
-import type { AnyRouter } from '@trpc/server';
+import { initTRPC, type AnyRouter } from '@trpc/server';
+import type {
+  RouterNames,
+  RouterPaths,
+  ProcedurePaths,
+  ProcedurePathsByType,
+  RouterPrefixes,
+  RequiredRouterMapping,
+  PartialRouterMapping,
+} from '../router-utils';
 
 // Mock AppRouter type for testing type inference
 type MockProcedures = {
@@ -8,6 +16,7 @@ type MockProcedures = {
   'users.getById': unknown;
   'billing.getInvoices': unknown;
   'billing.createInvoice': unknown;
+  'billing.payouts.list': unknown;
   'admin.getStats': unknown;
 };
 
@@ -31,6 +40,109 @@ describe('RouterNames type utility', () => {
   });
 });
 
+describe('RouterPaths type utility', () => {
+  it('should extract every router prefix and procedure path', () => {
+    const testRouterPath = (path: RouterPaths<MockRouter>) => path;
+
+    expect(testRouterPath('billing')).toBe('billing');
+    expect(testRouterPath('billing.payouts')).toBe('billing.payouts');
+    expect(testRouterPath('billing.payouts.list')).toBe('billing.payouts.list');
+    expect(testRouterPath('users.getAll')).toBe('users.getAll');
+  });
+
+  it('should walk nested procedure records', () => {
+    type NestedRouter = AnyRouter & {
+      _def: {
+        procedures: {
+          billing: {
+            payouts: {
+              list: { _def: { procedure: true } };
+            };
+          };
+          health: { _def: { procedure: true } };
+        };
+      };
+    };
+
+    const testRouterPath = (path: RouterPaths<NestedRouter>) => path;
+
+    expect(testRouterPath('billing.payouts')).toBe('billing.payouts');
+    expect(testRouterPath('billing.payouts.list')).toBe('billing.payouts.list');
+    expect(testRouterPath('health')).toBe('health');
+  });
+});
+
+// Real router for assertions that need literal path types
+const t = initTRPC.create();
+const appRouter = t.router({
+  users: t.router({
+    getAll: t.procedure.query(() => []),
+    update: t.procedure.mutation(() => null),
+  }),
+  billing: t.router({
+    payouts: t.router({
+      list: t.procedure.query(() => []),
+      onPayout: t.procedure.subscription(async function* () {}),
+    }),
+  }),
+  health: t.procedure.query(() => 'ok'),
+});
+type AppRouter = typeof appRouter;
+
+describe('ProcedurePaths type utility', () => {
+  it('should extract full procedure paths through nested routers', () => {
+    const testProcedurePath = (path: ProcedurePaths<AppRouter>) => path;
+
+    expect(testProcedurePath('users.getAll')).toBe('users.getAll');
+    expect(testProcedurePath('billing.payouts.list')).toBe('billing.payouts.list');
+    expect(testProcedurePath('health')).toBe('health');
+
+    // @ts-expect-error - routers are not procedure paths
+    testProcedurePath('billing.payouts');
+  });
+
+  it('should treat flat dotted keys as procedure paths', () => {
+    const testProcedurePath = (path: ProcedurePaths<MockRouter>) => path;
+
+    expect(testProcedurePath('billing.payouts.list')).toBe('billing.payouts.list');
+  });
+});
+
+describe('ProcedurePathsByType type utility', () => {
+  it('should extract procedure paths of one operation type', () => {
+    const testMutationPath = (path: ProcedurePathsByType<AppRouter, 'mutation'>) => path;
+    const testSubscriptionPath = (
+      path: ProcedurePathsByType<AppRouter, 'subscription'>
+    ) => path;
+
+    expect(testMutationPath('users.update')).toBe('users.update');
+    expect(testSubscriptionPath('billing.payouts.onPayout')).toBe(
+      'billing.payouts.onPayout'
+    );
+
+    // @ts-expect-error - queries are not mutations
+    testMutationPath('users.getAll');
+  });
+});
+
+describe('RouterPrefixes type utility', () => {
+  it('should extract top-level and nested router paths', () => {
+    const testRouterPrefix = (prefix: RouterPrefixes<AppRouter>) => prefix;
+
+    expect(testRouterPrefix('users')).toBe('users');
+    expect(testRouterPrefix('billing.payouts')).toBe('billing.payouts');
+
+    // @ts-expect-error - procedures are not router prefixes
+    testRouterPrefix('health');
+  });
+
+  it('should fall back to string for untyped routers', () => {
+    const testRouterPrefix = (prefix: RouterPrefixes<AnyRouter>) => prefix;
+
+    expect(testRouterPrefix('anything')).toBe('anything');
+  });
+});
+
 describe('RequiredRouterMapping type utility', () => {
   it('should require all router names as keys', () => {
     // Type-level test - validates that all keys are required
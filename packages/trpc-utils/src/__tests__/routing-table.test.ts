@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { initTRPC, lazy } from '@trpc/server';
+import type { TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { createRoutingTable, formatRoutingTable } from '../routing-table';
+
+const t = initTRPC.create();
+const appRouter = t.router({
+  users: t.router({
+    getAll: t.procedure.query(() => []),
+    update: t.procedure.mutation(() => null),
+  }),
+  billing: t.router({
+    payouts: t.router({ list: t.procedure.query(() => []) }),
+  }),
+  health: t.procedure.query(() => 'ok'),
+});
+
+describe('createRoutingTable', () => {
+  it('should resolve every procedure by rules, longest prefix, then default', () => {
+    const rows = createRoutingTable(appRouter, {
+      routerToEndpoint: { users: '/api/users', 'billing.payouts': '/api/payouts' },
+      rules: [{ match: '*.update', type: 'mutation', endpoint: '/api/writes' }],
+      defaultEndpoint: '/api/trpc',
+    });
+
+    expect(rows.map((row) => [row.path, row.type, row.endpoints, row.source])).toEqual([
+      ['billing.payouts.list', 'query', ['/api/payouts'], { kind: 'mapping', key: 'billing.payouts' }],
+      ['health', 'query', ['/api/trpc'], { kind: 'default' }],
+      ['users.getAll', 'query', ['/api/users'], { kind: 'mapping', key: 'users' }],
+      ['users.update', 'mutation', ['/api/writes'], { kind: 'rule', index: 0 }],
+    ]);
+  });
+
+  it('should skip predicate rules and honour rule types', () => {
+    const rows = createRoutingTable(appRouter, {
+      routerToEndpoint: { users: '/api/users' },
+      rules: [
+        { match: () => true, endpoint: '/api/predicate' },
+        { match: /^users\./, type: 'subscription', endpoint: '/api/ws' },
+      ],
+    });
+
+    expect(rows.find((row) => row.path === 'users.getAll')?.endpoints).toEqual([
+      '/api/users',
+    ]);
+    expect(rows.find((row) => row.path === 'health')).toMatchObject({
+      endpoints: [],
+      source: { kind: 'unmapped' },
+      chain: [],
+    });
+  });
+
+  it('should list failover and replica endpoints', () => {
+    const rows = createRoutingTable(appRouter, {
+      routerToEndpoint: {
+        users: ['/api/a', '/api/b'],
+        billing: { replicas: [{ url: '/api/c', weight: 2 }, '/api/d'], strategy: 'weighted' },
+      },
+    });
+
+    expect(rows[0]).toMatchObject({ endpoints: ['/api/c', '/api/d'], strategy: 'weighted' });
+    expect(rows[2]).toMatchObject({ endpoints: ['/api/a', '/api/b'], strategy: undefined });
+  });
+
+  it('should describe link chains once per endpoint and release them', () => {
+    const dispose = vi.fn();
+    const authLink: TRPCLink<AnyRouter> = function withAuth() {
+      return ({ next, op }) => next(op);
+    };
+    const linkFactory = vi.fn(() => ({ links: [authLink, () => () => null as never], dispose }));
+
+    const rows = createRoutingTable(appRouter, {
+      routerToEndpoint: { users: '/api/users', billing: '/api/billing', health: '/api/users' },
+      linkFactory,
+    });
+
+    expect(rows[0].chain).toEqual(['withAuth', 'anonymous']);
+    expect(linkFactory).toHaveBeenCalledTimes(2);
+    expect(dispose).toHaveBeenCalledTimes(2);
+  });
+
+  it('should prefer explicit labels over link names', () => {
+    const linkFactory = (endpoint: string) => ({
+      links: [() => () => null as never, () => () => null as never],
+      labels: endpoint === '/api/users' ? ['retryLink', 'httpBatchLink'] : undefined,
+    });
+
+    const rows = createRoutingTable(appRouter, {
+      routerToEndpoint: { users: '/api/users', billing: '/api/billing', health: '/api/health' },
+      linkFactory,
+      linkLabels: { '/api/health': ['httpLink'] },
+    });
+
+    expect(rows.map((row) => [row.path, row.chain])).toEqual([
+      ['billing.payouts.list', ['anonymous', 'anonymous']],
+      ['health', ['httpLink']],
+      ['users.getAll', ['retryLink', 'httpBatchLink']],
+      ['users.update', ['retryLink', 'httpBatchLink']],
+    ]);
+  });
+
+  it('should default to httpBatchLink and include lazy routers', () => {
+    const withLazy = t.router({
+      reports: lazy(async () => t.router({ daily: t.procedure.query(() => []) })),
+    });
+
+    expect(createRoutingTable(withLazy, { routerToEndpoint: { reports: '/api/reports' } })).toEqual([
+      {
+        path: 'reports',
+        type: 'lazy',
+        endpoints: ['/api/reports'],
+        strategy: undefined,
+        source: { kind: 'mapping', key: 'reports' },
+        chain: ['httpBatchLink'],
+      },
+    ]);
+  });
+
+  it('should name the default transport of each operation type', () => {
+    const chatRouter = t.router({
+      history: t.procedure.query(() => []),
+      onMessage: t.procedure.subscription(async function* () {}),
+    });
+    const chains = (transport?: { http?: 'httpBatchStreamLink'; subscriptions?: 'wsLink' }) =>
+      createRoutingTable(chatRouter, { routerToEndpoint: {}, defaultEndpoint: '/api/chat', transport })
+        .map((row) => row.chain);
+
+    expect(chains()).toEqual([['httpBatchLink'], ['httpSubscriptionLink']]);
+    expect(chains({ http: 'httpBatchStreamLink', subscriptions: 'wsLink' })).toEqual([
+      ['httpBatchStreamLink'],
+      ['wsLink'],
+    ]);
+  });
+});
+
+describe('formatRoutingTable', () => {
+  it('should render aligned columns', () => {
+    const rows = createRoutingTable(appRouter, {
+      routerToEndpoint: {
+        users: '/api/users',
+        billing: { replicas: ['/api/b1', '/api/b2'] },
+        health: ['/api/h1', '/api/h2'],
+      },
+    });
+
+    expect(formatRoutingTable(rows).split('\n')).toEqual([
+      'PROCEDURE             TYPE      ENDPOINT                        VIA      CHAIN',
+      'billing.payouts.list  query     /api/b1, /api/b2 (round-robin)  billing  httpBatchLink',
+      'health                query     /api/h1 -> /api/h2              health   httpBatchLink',
+      'users.getAll          query     /api/users                      users    httpBatchLink',
+      'users.update          mutation  /api/users                      users    httpBatchLink',
+    ]);
+  });
+});
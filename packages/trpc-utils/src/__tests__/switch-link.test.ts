@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { observable } from '@trpc/server/observable';
+import { initTRPC } from '@trpc/server';
 import { switchLink } from '../switch-link';
 import type { TRPCLink, Operation, TRPCClientError } from '@trpc/client';
 import type { AnyRouter } from '@trpc/server';
@@ -321,4 +322,184 @@ describe('switchLink', () => {
     expect(arrayLink1).toHaveBeenCalledTimes(1);
     expect(arrayLink2).toHaveBeenCalledTimes(1);
   });
+
+  it('should type selector paths from the router', () => {
+    const t = initTRPC.create();
+    const appRouter = t.router({
+      users: t.router({ getAll: t.procedure.query(() => []) }),
+      health: t.procedure.query(() => 'ok'),
+    });
+
+    const link = switchLink<typeof appRouter, 'users' | 'other'>({
+      select: ({ path }) => {
+        // @ts-expect-error - 'users.missing' is not a procedure path
+        if (path === 'users.missing') return 'other';
+        return path === 'users.getAll' ? 'users' : 'other';
+      },
+      cases: { users: createMockLink('users'), other: createMockLink('other') },
+    });
+
+    expect(link).toBeTypeOf('function');
+  });
+
+  describe('default case', () => {
+    it('should route unknown keys to the default case', async () => {
+      type RouteKey = 'known';
+
+      const link = switchLink<MockRouter, RouteKey>({
+        select: () => 'unknown' as RouteKey,
+        cases: { known: createMockLink('known') },
+        default: createMockLink('fallback'),
+      });
+
+      const result = await new Promise((resolve) => {
+        link({} as never)({
+          op: createMockOp('test.procedure'),
+          next: vi.fn() as never,
+        }).subscribe({ next: resolve });
+      });
+
+      expect(result).toEqual({ result: { type: 'data', data: 'fallback' } });
+    });
+
+    it('should initialize the default chain once per runtime', () => {
+      type RouteKey = 'known';
+
+      const defaultLink = vi.fn(createMockLink('fallback'));
+      const link = switchLink<MockRouter, RouteKey>({
+        select: () => 'known',
+        cases: { known: createMockLink('known') },
+        default: [defaultLink],
+      });
+
+      link({} as never);
+
+      expect(defaultLink).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('async selector', () => {
+    it('should queue the operation until the selector resolves', async () => {
+      type RouteKey = 'a' | 'b';
+
+      let resolveKey!: (key: RouteKey) => void;
+      const link = switchLink<MockRouter, RouteKey>({
+        select: () =>
+          new Promise<RouteKey>((resolve) => {
+            resolveKey = resolve;
+          }),
+        cases: { a: createMockLink('response-a'), b: createMockLink('response-b') },
+      });
+
+      const results: unknown[] = [];
+      const done = new Promise<void>((resolve) => {
+        link({} as never)({
+          op: createMockOp('test.procedure'),
+          next: vi.fn() as never,
+        }).subscribe({
+          next: (value) => results.push(value),
+          complete: () => resolve(),
+        });
+      });
+
+      expect(results).toEqual([]);
+      resolveKey('b');
+      await done;
+
+      expect(results).toEqual([{ result: { type: 'data', data: 'response-b' } }]);
+    });
+
+    it('should not start the chain when unsubscribed while the selector is pending', async () => {
+      type RouteKey = 'a';
+
+      const linkA = vi.fn(() => observable(() => () => {}));
+      const link = switchLink<MockRouter, RouteKey>({
+        select: () => Promise.resolve('a' as const),
+        cases: { a: () => linkA },
+      });
+
+      const observer = { next: vi.fn(), error: vi.fn(), complete: vi.fn() };
+      const subscription = link({} as never)({
+        op: createMockOp('test.procedure'),
+        next: vi.fn() as never,
+      }).subscribe(observer);
+
+      subscription.unsubscribe();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(linkA).not.toHaveBeenCalled();
+      expect(observer.error).not.toHaveBeenCalled();
+    });
+
+    it('should fail with an AbortError when aborted while the selector is pending', async () => {
+      type RouteKey = 'a';
+
+      const linkA = vi.fn(() => observable(() => () => {}));
+      const link = switchLink<MockRouter, RouteKey>({
+        select: () => new Promise<RouteKey>((resolve) => setTimeout(() => resolve('a'), 10)),
+        cases: { a: () => linkA },
+      });
+
+      const controller = new AbortController();
+      const observer = { next: vi.fn(), error: vi.fn(), complete: vi.fn() };
+      link({} as never)({
+        op: { ...createMockOp('test.procedure'), signal: controller.signal },
+        next: vi.fn() as never,
+      }).subscribe(observer);
+
+      controller.abort();
+      expect(observer.error).toHaveBeenCalledTimes(1);
+      const error = observer.error.mock.calls[0][0] as TRPCClientError<MockRouter>;
+      expect(error.name).toBe('TRPCClientError');
+      expect(error.cause?.name).toBe('AbortError');
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(linkA).not.toHaveBeenCalled();
+      expect(observer.error).toHaveBeenCalledTimes(1);
+    });
+
+    it('should unsubscribe from the selected chain', async () => {
+      type RouteKey = 'a';
+
+      let cleanedUp = false;
+      const link = switchLink<MockRouter, RouteKey>({
+        select: async () => 'a' as const,
+        cases: {
+          a: () => () =>
+            observable(() => () => {
+              cleanedUp = true;
+            }),
+        },
+      });
+
+      const subscription = link({} as never)({
+        op: createMockOp('test.procedure'),
+        next: vi.fn() as never,
+      }).subscribe({});
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(cleanedUp).toBe(false);
+      subscription.unsubscribe();
+      expect(cleanedUp).toBe(true);
+    });
+
+    it('should emit selector rejections as TRPCClientError', async () => {
+      type RouteKey = 'a';
+
+      const link = switchLink<MockRouter, RouteKey>({
+        select: () => Promise.reject(new Error('flags unavailable')),
+        cases: { a: createMockLink('response-a') },
+      });
+
+      const error = await new Promise<TRPCClientError<MockRouter>>((resolve) => {
+        link({} as never)({
+          op: createMockOp('test.procedure'),
+          next: vi.fn() as never,
+        }).subscribe({ error: resolve });
+      });
+
+      expect(error.name).toBe('TRPCClientError');
+      expect(error.message).toBe('switchLink: selector failed: flags unavailable');
+    });
+  });
 });
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { observable } from '@trpc/server/observable';
+import { switchLink } from '../switch-link';
+import { switchRules } from '../switch-rules';
+import type { TRPCLink, Operation } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import type { SwitchLinkSelectorContext } from '../types';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+type RouteKey = 'admin' | 'bulk' | 'realtime' | 'internal' | 'public';
+type TestContext = { internal?: boolean };
+
+// Helper to build the selector context for an operation
+const createContext = (
+  path: string,
+  type: Operation['type'] = 'query',
+  ctx: TestContext = {}
+): SwitchLinkSelectorContext<TestContext> => ({
+  path,
+  type,
+  ctx,
+  op: { id: 1, type, path, input: undefined, context: ctx, signal: null },
+});
+
+describe('switchRules', () => {
+  const select = switchRules<RouteKey, TestContext>()
+    .prefix('admin', 'admin')
+    .glob('*.export*', 'bulk')
+    .type('subscription', 'realtime')
+    .when(({ ctx }) => ctx.internal === true, 'internal')
+    .otherwise('public');
+
+  it('should match dotted path prefixes', () => {
+    expect(select(createContext('admin.users.list'))).toBe('admin');
+    expect(select(createContext('admin'))).toBe('admin');
+    expect(select(createContext('administration.get'))).toBe('public');
+  });
+
+  it('should match globs within a path segment', () => {
+    expect(select(createContext('users.exportCsv'))).toBe('bulk');
+    expect(select(createContext('users.nested.exportCsv'))).toBe('public');
+  });
+
+  it('should match regular expressions', () => {
+    const byRegex = switchRules<'a' | 'b'>()
+      .glob(/^users\.(get|list)$/, 'a')
+      .otherwise('b');
+
+    expect(byRegex(createContext('users.get'))).toBe('a');
+    expect(byRegex(createContext('users.getById'))).toBe('b');
+  });
+
+  it('should match operation types', () => {
+    expect(select(createContext('chat.onMessage', 'subscription'))).toBe('realtime');
+
+    const byTypes = switchRules<'write' | 'read'>()
+      .type(['mutation', 'subscription'], 'write')
+      .otherwise('read');
+    expect(byTypes(createContext('users.update', 'mutation'))).toBe('write');
+    expect(byTypes(createContext('users.get'))).toBe('read');
+  });
+
+  it('should match context predicates', () => {
+    expect(select(createContext('users.get', 'query', { internal: true }))).toBe(
+      'internal'
+    );
+  });
+
+  it('should use the first matching rule in declared order', () => {
+    expect(select(createContext('admin.exportCsv', 'subscription'))).toBe('admin');
+  });
+
+  it('should fall back to the otherwise case', () => {
+    expect(select(createContext('users.get'))).toBe('public');
+  });
+
+  it('should not mutate shared partial builders', () => {
+    const base = switchRules<'a' | 'b'>().prefix('a', 'a');
+    const withB = base.prefix('b', 'b').otherwise('a');
+    const withoutB = base.otherwise('b');
+
+    expect(withB(createContext('b.get'))).toBe('b');
+    expect(withoutB(createContext('b.get'))).toBe('b');
+    expect(withoutB(createContext('a.get'))).toBe('a');
+  });
+
+  it('should require every case to be reachable at compile time', () => {
+    // @ts-expect-error - 'realtime' and 'internal' are never routed to
+    switchRules<RouteKey>().prefix('admin', 'admin').glob('*.export*', 'bulk').otherwise('public');
+
+    // @ts-expect-error - keys outside K are rejected
+    switchRules<'a' | 'b'>().prefix('c', 'c');
+
+    // The fallback counts as reachable
+    switchRules<'a' | 'b'>().prefix('a', 'a').otherwise('b');
+  });
+
+  it('should drive switchLink', async () => {
+    const createMockLink = (response: string): TRPCLink<MockRouter> => () => () =>
+      observable((observer) => {
+        observer.next({ result: { type: 'data', data: response } } as never);
+        observer.complete();
+        return () => {};
+      });
+
+    const link = switchLink<MockRouter, 'admin' | 'public'>({
+      select: switchRules<'admin' | 'public'>()
+        .prefix('admin', 'admin')
+        .otherwise('public'),
+      cases: { admin: createMockLink('admin'), public: createMockLink('public') },
+    });
+
+    const result = await new Promise((resolve) => {
+      link({} as never)({
+        op: createContext('admin.users.list').op,
+        next: vi.fn() as never,
+      }).subscribe({ next: resolve });
+    });
+
+    expect(result).toEqual({ result: { type: 'data', data: 'admin' } });
+  });
+});
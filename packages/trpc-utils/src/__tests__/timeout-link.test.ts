@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { observable } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { timeoutLink, getOperationDeadline } from '../timeout-link';
+import { switchLink } from '../switch-link';
+import { endpointRouterLink } from '../endpoint-router-link';
+import { createChain } from '../create-chain';
+import { isNetworkError } from '../endpoint-health';
+import { TimeoutError, isTimeoutError } from '../errors';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+// Helper to create a mock operation
+const createMockOp = (path: string, overrides: Partial<Operation> = {}): Operation => ({
+  id: 1,
+  type: 'query',
+  path,
+  input: undefined,
+  context: {},
+  signal: new AbortController().signal,
+  ...overrides,
+});
+
+// Terminating link that records the operations it received and answers after
+// `delayMs`, or never; it fails with an AbortError when its signal aborts, like fetch
+const createSlowLink = (delayMs?: number) => {
+  const received: { op: Operation; closed: boolean }[] = [];
+  const link: TRPCLink<MockRouter> = () => ({ op }) =>
+    observable((observer) => {
+      const request = { op, closed: false };
+      received.push(request);
+
+      const timer =
+        delayMs === undefined
+          ? undefined
+          : setTimeout(() => {
+              observer.next({ result: { type: 'data', data: op.path } } as never);
+              observer.complete();
+            }, delayMs);
+      const onAbort = () => {
+        clearTimeout(timer);
+        const abortError = new Error('The operation was aborted');
+        abortError.name = 'AbortError';
+        observer.error(TRPCClientError.from(abortError) as never);
+      };
+      op.signal?.addEventListener('abort', onAbort);
+
+      return () => {
+        request.closed = true;
+        clearTimeout(timer);
+        op.signal?.removeEventListener('abort', onAbort);
+      };
+    });
+  return { link, received };
+};
+
+const run = (links: TRPCLink<MockRouter>[], op: Operation) => {
+  const observer = { next: vi.fn(), error: vi.fn(), complete: vi.fn() };
+  createChain({ links: links.map((link) => link({} as never)), op }).subscribe(observer);
+  return observer;
+};
+
+describe('timeoutLink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fail and cancel operations past their deadline', () => {
+    const upstream = createSlowLink();
+    const result = run(
+      [timeoutLink({ timeoutMs: 1000 }), upstream.link],
+      createMockOp('users.list')
+    );
+
+    vi.advanceTimersByTime(999);
+    expect(result.error).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+
+    expect(result.error).toHaveBeenCalledTimes(1);
+    const error = result.error.mock.calls[0][0];
+    expect(isTimeoutError(error)).toBe(true);
+    expect(isNetworkError(error)).toBe(true);
+    expect(error.message).toBe('timeoutLink: "users.list" timed out after 1000ms');
+    expect(error.cause).toMatchObject({ path: 'users.list', timeoutMs: 1000 });
+
+    const [request] = upstream.received;
+    expect(request.closed).toBe(true);
+    expect(request.op.signal?.aborted).toBe(true);
+    expect(request.op.signal?.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  it('should let operations finishing in time through', () => {
+    const upstream = createSlowLink(500);
+    const result = run(
+      [timeoutLink({ timeoutMs: 1000 }), upstream.link],
+      createMockOp('users.list')
+    );
+
+    vi.advanceTimersByTime(5000);
+
+    expect(result.next).toHaveBeenCalledTimes(1);
+    expect(result.complete).toHaveBeenCalledTimes(1);
+    expect(result.error).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should forward user aborts as they are, not as timeouts', () => {
+    const upstream = createSlowLink();
+    const controller = new AbortController();
+    const result = run(
+      [timeoutLink({ timeoutMs: 1000 }), upstream.link],
+      createMockOp('users.list', { signal: controller.signal })
+    );
+
+    controller.abort();
+
+    const error = result.error.mock.calls[0][0];
+    expect(isTimeoutError(error)).toBe(false);
+    expect(error.cause.name).toBe('AbortError');
+    expect(upstream.received[0].op.signal?.aborted).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should take the deadline from the context, then routers, then timeoutMs', () => {
+    const upstream = createSlowLink();
+    const links = [
+      timeoutLink<MockRouter>({
+        timeoutMs: 1000,
+        routers: { reports: 5000, 'reports.quick': 200 },
+      }),
+      upstream.link,
+    ];
+
+    run(links, createMockOp('users.list'));
+    run(links, createMockOp('reports.export'));
+    run(links, createMockOp('reports.quick.count'));
+    run(links, createMockOp('reports.export', { context: { timeoutMs: 60_000 } }));
+
+    expect(upstream.received.map(({ op }) => getOperationDeadline(op)?.timeoutMs)).toEqual([
+      1000, 5000, 200, 60_000,
+    ]);
+  });
+
+  it('should pass operations without a deadline and subscriptions through', () => {
+    const upstream = createSlowLink();
+    const links = [timeoutLink<MockRouter>({ routers: { reports: 5000 } }), upstream.link];
+    const untimed = createMockOp('users.list');
+    const subscription = createMockOp('reports.onProgress', { type: 'subscription' });
+
+    run(links, untimed);
+    run(links, subscription);
+    vi.advanceTimersByTime(10_000);
+
+    expect(upstream.received.map(({ op }) => op)).toEqual([untimed, subscription]);
+    expect(upstream.received.every(({ closed }) => !closed)).toBe(true);
+  });
+
+  it('should propagate deadlines through switchLink and endpointRouterLink chains', () => {
+    const upstream = createSlowLink();
+    const result = run(
+      [
+        timeoutLink({ timeoutMs: 1000 }),
+        switchLink<MockRouter, 'api'>({
+          select: () => 'api',
+          cases: {
+            api: endpointRouterLink<MockRouter>({
+              routerToEndpoint: { users: '/api/users' },
+              linkFactory: () => upstream.link,
+            }),
+          },
+        }),
+      ],
+      createMockOp('users.list')
+    );
+
+    const [request] = upstream.received;
+    expect(getOperationDeadline(request.op)).toEqual({
+      timeoutMs: 1000,
+      deadline: Date.now() + 1000,
+    });
+
+    vi.advanceTimersByTime(1000);
+    expect(request.op.signal?.reason).toBeInstanceOf(TimeoutError);
+    expect(request.closed).toBe(true);
+    expect(isTimeoutError(result.error.mock.calls[0][0])).toBe(true);
+  });
+
+  it('should fail over to the next endpoint when placed in a linkFactory chain', () => {
+    const slow = createSlowLink();
+    const fast = createSlowLink(10);
+    const result = run(
+      [
+        endpointRouterLink<MockRouter>({
+          routerToEndpoint: { users: ['/api/slow', '/api/fast'] },
+          linkFactory: (endpoint) => [
+            timeoutLink({ timeoutMs: 1000 }),
+            endpoint === '/api/slow' ? slow.link : fast.link,
+          ],
+        }),
+      ],
+      createMockOp('users.list')
+    );
+
+    vi.advanceTimersByTime(1010);
+
+    expect(slow.received).toHaveLength(1);
+    expect(fast.received).toHaveLength(1);
+    expect(result.next).toHaveBeenCalledWith({ result: { type: 'data', data: 'users.list' } });
+    expect(result.error).not.toHaveBeenCalled();
+  });
+
+  it('should report the earliest deadline of nested timeoutLinks', () => {
+    const upstream = createSlowLink();
+    run(
+      [timeoutLink({ timeoutMs: 500 }), timeoutLink({ timeoutMs: 2000 }), upstream.link],
+      createMockOp('users.list')
+    );
+
+    expect(getOperationDeadline(upstream.received[0].op)?.timeoutMs).toBe(500);
+  });
+});
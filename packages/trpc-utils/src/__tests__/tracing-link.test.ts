@@ -0,0 +1,230 @@
+import { describe, it, expect, vi } from 'vitest';
+import { observable } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { tracingLink, createInMemorySpanExporter, getTraceHeaders } from '../tracing-link';
+import { metricsLink, createHistogramReporter } from '../metrics-link';
+import { endpointRouterLink } from '../endpoint-router-link';
+import { createChain } from '../create-chain';
+
+// Mock router type for testing
+type MockRouter = AnyRouter;
+
+// Helper to create a mock operation
+const createMockOp = (
+  path: string,
+  context: Record<string, unknown> = {},
+  signal: AbortSignal = new AbortController().signal
+): Operation => ({
+  id: 1,
+  type: 'query',
+  path,
+  input: undefined,
+  context,
+  signal,
+});
+
+const TRACEPARENT = /^00-[0-9a-f]{32}-[0-9a-f]{16}-0[01]$/;
+
+// Terminating link that records the trace headers it would send
+const createHeaderLink =
+  (sent: Record<string, string>[]): TRPCLink<MockRouter> =>
+  () =>
+  ({ op }) =>
+    observable((observer) => {
+      sent.push(getTraceHeaders(op));
+      observer.next({ result: { type: 'data', data: null } } as never);
+      observer.complete();
+      return () => {};
+    });
+
+// Terminating link that never settles
+const pendingLink: TRPCLink<MockRouter> = () => () => observable(() => () => {});
+
+const run = (links: TRPCLink<MockRouter>[], op: Operation) =>
+  createChain({ links: links.map((link) => link({} as never)), op }).subscribe({});
+
+describe('tracingLink', () => {
+  it('should export a client span with routing attributes', () => {
+    const exporter = createInMemorySpanExporter();
+    const sent: Record<string, string>[] = [];
+    const router = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { users: '/api/users' },
+      linkFactory: () => createHeaderLink(sent),
+    });
+
+    run(
+      [tracingLink({ exporter, attributes: { 'service.name': 'web' } }), router],
+      createMockOp('users.getAll')
+    );
+
+    const [span] = exporter.spans;
+    expect(span).toMatchObject({
+      name: 'users.getAll',
+      kind: 'client',
+      status: 'ok',
+      sampled: true,
+      parentSpanId: undefined,
+      attributes: {
+        'service.name': 'web',
+        'rpc.system': 'trpc',
+        'rpc.service': 'users',
+        'rpc.method': 'users.getAll',
+        'trpc.type': 'query',
+        'trpc.endpoint': '/api/users',
+        'trpc.attempts': 1,
+      },
+    });
+    expect(sent).toEqual([
+      { traceparent: `00-${span.traceId}-${span.spanId}-01` },
+    ]);
+  });
+
+  it('should continue the trace from the operation context', () => {
+    const exporter = createInMemorySpanExporter();
+    const sent: Record<string, string>[] = [];
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+    run(
+      [tracingLink({ exporter }), createHeaderLink(sent)],
+      createMockOp('users.get', {
+        traceparent: `00-${traceId}-00f067aa0ba902b7-01`,
+        tracestate: 'vendor=abc',
+      })
+    );
+
+    expect(exporter.spans[0]).toMatchObject({
+      traceId,
+      parentSpanId: '00f067aa0ba902b7',
+      traceState: 'vendor=abc',
+    });
+    expect(sent[0].traceparent).toMatch(new RegExp(`^00-${traceId}-[0-9a-f]{16}-01$`));
+    expect(sent[0].tracestate).toBe('vendor=abc');
+  });
+
+  it('should start a new trace when the parent is invalid', () => {
+    const exporter = createInMemorySpanExporter();
+
+    run(
+      [tracingLink({ exporter }), pendingLink],
+      createMockOp('users.get', {
+        traceparent: `00-${'0'.repeat(32)}-00f067aa0ba902b7-01`,
+        tracestate: 'vendor=abc',
+      })
+    ).unsubscribe();
+
+    expect(exporter.spans[0].parentSpanId).toBeUndefined();
+    expect(exporter.spans[0].traceState).toBeUndefined();
+    expect(exporter.spans[0].traceId).not.toBe('0'.repeat(32));
+  });
+
+  it('should propagate but not export unsampled traces', () => {
+    const exporter = createInMemorySpanExporter();
+    const sent: Record<string, string>[] = [];
+
+    run(
+      [tracingLink({ exporter, sampler: () => false }), createHeaderLink(sent)],
+      createMockOp('users.get')
+    );
+
+    expect(exporter.spans).toEqual([]);
+    expect(sent[0].traceparent).toMatch(TRACEPARENT);
+    expect(sent[0].traceparent.endsWith('-00')).toBe(true);
+  });
+
+  it('should record errors and unfinished operations', () => {
+    const exporter = createInMemorySpanExporter();
+    const error = TRPCClientError.from(new Error('fetch failed'));
+    const failingLink: TRPCLink<MockRouter> = () => () =>
+      observable((observer) => {
+        observer.error(error as never);
+        return () => {};
+      });
+
+    run([tracingLink({ exporter }), failingLink], createMockOp('users.get'));
+    run([tracingLink({ exporter }), pendingLink], createMockOp('users.get')).unsubscribe();
+
+    const controller = new AbortController();
+    run([tracingLink({ exporter }), pendingLink], createMockOp('users.get', {}, controller.signal));
+    controller.abort();
+
+    expect(exporter.spans.map((span) => span.status)).toEqual(['error', 'unset', 'unset']);
+    expect(exporter.spans[0].error).toBe(error);
+  });
+
+  it('should share routing decisions with metricsLink', () => {
+    const exporter = createInMemorySpanExporter();
+    const reporter = createHistogramReporter();
+    const router = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { users: '/api/users' },
+      linkFactory: () => createHeaderLink([]),
+    });
+
+    run(
+      [tracingLink({ exporter }), metricsLink({ reporter }), router],
+      createMockOp('users.get')
+    );
+
+    expect(exporter.spans[0].attributes['trpc.endpoint']).toBe('/api/users');
+    expect(reporter.metrics[0].endpoint).toBe('/api/users');
+  });
+
+  it('should inject headers into the default endpointRouterLink chain', async () => {
+    const exporter = createInMemorySpanExporter();
+    const fetch = vi.fn(async (_url: unknown, _init?: RequestInit) =>
+      new Response(JSON.stringify([{ result: { data: 'ok' } }]), {
+        headers: { 'content-type': 'application/json' },
+      })
+    );
+    const router = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { users: 'http://localhost/api/users' },
+      linkOptions: { fetch: fetch as never, headers: { 'x-api-key': 'secret' } },
+    });
+
+    await new Promise((resolve) => {
+      createChain({
+        links: [tracingLink({ exporter }), router].map((link) => link({} as never)),
+        op: createMockOp('users.get'),
+      }).subscribe({ complete: () => resolve(undefined), error: resolve });
+    });
+
+    const headers = new Headers(fetch.mock.calls[0][1]?.headers);
+    const [span] = exporter.spans;
+    expect(headers.get('traceparent')).toBe(`00-${span.traceId}-${span.spanId}-01`);
+    expect(headers.get('x-api-key')).toBe('secret');
+  });
+
+  it('should pass the batched operations to a headers function', async () => {
+    const fetch = vi.fn(async (_url: unknown, _init?: RequestInit) =>
+      new Response(JSON.stringify([{ result: { data: 'ok' } }]), {
+        headers: { 'content-type': 'application/json' },
+      })
+    );
+    const router = endpointRouterLink<MockRouter>({
+      routerToEndpoint: { users: 'http://localhost/api/users' },
+      linkOptions: {
+        fetch: fetch as never,
+        headers: ({ opList }: { opList: readonly Operation[] }) => ({
+          'x-procedures': opList.map((op) => op.path).join(','),
+        }),
+      },
+    });
+
+    await new Promise((resolve) => {
+      createChain({
+        links: [router({} as never)],
+        op: createMockOp('users.get'),
+      }).subscribe({ complete: () => resolve(undefined), error: resolve });
+    });
+
+    const headers = new Headers(fetch.mock.calls[0][1]?.headers);
+    expect(headers.get('x-procedures')).toBe('users.get');
+  });
+});
+
+describe('getTraceHeaders', () => {
+  it('should return no headers for untraced operations', () => {
+    expect(getTraceHeaders(createMockOp('users.get'))).toEqual({});
+    expect(getTraceHeaders([])).toEqual({});
+  });
+});
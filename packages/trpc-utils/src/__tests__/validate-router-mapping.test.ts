@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { initTRPC, lazy } from '@trpc/server';
+import { validateRouterMapping } from '../validate-router-mapping';
+
+const t = initTRPC.create();
+const appRouter = t.router({
+  users: t.router({
+    getAll: t.procedure.query(() => []),
+    update: t.procedure.mutation(() => null),
+  }),
+  billing: t.router({
+    invoices: t.router({ list: t.procedure.query(() => []) }),
+    payouts: t.router({ list: t.procedure.query(() => []) }),
+  }),
+  health: t.procedure.query(() => 'ok'),
+});
+
+describe('validateRouterMapping', () => {
+  it('should accept a complete mapping', () => {
+    const report = validateRouterMapping(appRouter, {
+      users: '/api/users',
+      billing: 'https://billing.internal/trpc',
+      health: '/api/health',
+    });
+
+    expect(report).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it('should report unmapped routers with their unmapped paths', () => {
+    const report = validateRouterMapping(appRouter, {
+      users: '/api/users',
+      'billing.payouts': '/api/payouts',
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'unmapped-router',
+        severity: 'error',
+        router: 'billing',
+        paths: ['billing.invoices.list'],
+      }),
+      expect.objectContaining({
+        code: 'unmapped-router',
+        severity: 'error',
+        router: 'health',
+        paths: ['health'],
+      }),
+    ]);
+  });
+
+  it('should skip ignored paths', () => {
+    const report = validateRouterMapping(
+      appRouter,
+      { users: '/api/users', billing: '/api/billing' },
+      { ignore: ['health'] }
+    );
+
+    expect(report.diagnostics).toEqual([]);
+  });
+
+  it('should downgrade unmapped routers to warnings with a default endpoint', () => {
+    const report = validateRouterMapping(
+      appRouter,
+      { users: '/api/users' },
+      { defaultEndpoint: '/api/trpc' }
+    );
+
+    expect(report.valid).toBe(true);
+    expect(report.diagnostics.map((d) => [d.code, d.severity])).toEqual([
+      ['unmapped-router', 'warning'],
+      ['unmapped-router', 'warning'],
+    ]);
+  });
+
+  it('should report stale keys', () => {
+    const report = validateRouterMapping(appRouter, {
+      users: '/api/users',
+      billing: '/api/billing',
+      health: '/api/health',
+      legacy: '/api/legacy',
+      'billing.refunds': '/api/refunds',
+      'users.getAll': '/api/users-read',
+    });
+
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({ code: 'stale-key', key: 'legacy' }),
+      expect.objectContaining({ code: 'stale-key', key: 'billing.refunds' }),
+    ]);
+  });
+
+  it('should report duplicate endpoints as warnings', () => {
+    const report = validateRouterMapping(appRouter, {
+      users: ['/api/shared', '/api/users'],
+      billing: { replicas: [{ url: '/api/shared' }] },
+      health: '/api/health',
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'duplicate-endpoint',
+        severity: 'warning',
+        endpoint: '/api/shared',
+        keys: ['users', 'billing'],
+      }),
+    ]);
+  });
+
+  it('should report invalid URLs', () => {
+    const report = validateRouterMapping(
+      appRouter,
+      { users: 'api/users', billing: 'ftp://billing.internal', health: '//cdn/trpc' },
+      { defaultEndpoint: 'not a url' }
+    );
+
+    expect(report.diagnostics.map((d) => d.code === 'invalid-url' && d.key)).toEqual([
+      'users',
+      'billing',
+      'health',
+      'defaultEndpoint',
+    ]);
+  });
+
+  it('should apply severity overrides', () => {
+    const report = validateRouterMapping(
+      appRouter,
+      { users: '/api/shared', billing: '/api/shared', health: '/api/health' },
+      { severity: { 'duplicate-endpoint': 'error' } }
+    );
+
+    expect(report.valid).toBe(false);
+  });
+
+  it('should treat lazy routers as mappable paths', () => {
+    const lazyRouter = t.router({
+      reports: t.router({ daily: t.procedure.query(() => []) }),
+    });
+    const withLazy = t.router({
+      users: t.router({ getAll: t.procedure.query(() => []) }),
+      reports: lazy(async () => lazyRouter),
+    });
+
+    expect(validateRouterMapping(withLazy, { users: '/api/users' }).diagnostics).toEqual([
+      expect.objectContaining({ code: 'unmapped-router', paths: ['reports'] }),
+    ]);
+    expect(
+      validateRouterMapping(withLazy, {
+        users: '/api/users',
+        'reports.daily': '/api/reports',
+      }).valid
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Whether a value is a promise, or another thenable.
+ * @internal
+ */
+export function isPromiseLike<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | undefined)?.then === 'function';
+}
+
+/**
+ * Calls a storage method and hands its result to `callback`, synchronously when
+ * the storage is synchronous. A failing storage is treated as returning undefined.
+ * @internal
+ */
+export function callStorage<T>(
+  call: () => T | PromiseLike<T>,
+  callback: (value: T | undefined) => void
+): void {
+  let value: T | PromiseLike<T>;
+  try {
+    value = call();
+  } catch {
+    callback(undefined);
+    return;
+  }
+
+  if (isPromiseLike(value)) {
+    value.then(callback, () => callback(undefined));
+  } else {
+    callback(value);
+  }
+}
+
+/**
+ * Lets a Node.js process exit while the timer is pending: timers for waiting
+ * operations or idle resources should not keep it alive on their own.
+ * @internal
+ */
+export function unrefTimer(timer: ReturnType<typeof setTimeout>): void {
+  (timer as { unref?: () => void }).unref?.();
+}
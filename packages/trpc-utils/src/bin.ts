@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { runCli } from './cli';
+
+runCli(process.argv.slice(2), {
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+  cwd: process.cwd(),
+}).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,285 @@
+import { observable, type Unsubscribable } from '@trpc/server/observable';
+import type { Operation, TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { callStorage, isPromiseLike } from './async-utils';
+import { getOperationKey, getOperationKeyPath } from './operation-key';
+import { getPathPrefixes, getRouterName } from './path-matching';
+import type {
+  CacheInvalidationPrefix,
+  CacheLinkOptions,
+  CachedQueryResult,
+  CacheStorageAdapter,
+  MemoryCacheStorageOptions,
+  QueryCache,
+} from './types';
+
+/**
+ * Creates the default cacheLink storage: an in-memory LRU map.
+ *
+ * @example
+ * ```ts
+ * const link = cacheLink({
+ *   ttlMs: 30_000,
+ *   storage: createMemoryCacheStorage({ maxEntries: 100 }),
+ * });
+ * ```
+ */
+export function createMemoryCacheStorage(
+  opts: MemoryCacheStorageOptions = {}
+): CacheStorageAdapter {
+  const maxEntries = opts.maxEntries ?? 500;
+  // Map iteration order doubles as LRU order: least recently used first
+  const entries = new Map<string, CachedQueryResult>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    keys() {
+      return Array.from(entries.keys());
+    },
+  };
+}
+
+/**
+ * Creates a link that caches query results for `ttlMs`, and optionally keeps
+ * serving them for `staleWhileRevalidateMs` longer while refreshing them in the
+ * background. Successful mutations invalidate the queries of their router, so a
+ * `billing.refund` mutation clears every cached `billing.*` query; use the
+ * `invalidate` option to target other routers or paths.
+ *
+ * Results are cached after the transformer ran: storage adapters that serialize
+ * entries (e.g. to localStorage) must handle the data types the API returns.
+ * Errors are never cached. The cache is exposed on the returned link as
+ * `link.cache` for manual invalidation.
+ *
+ * @example
+ * ```ts
+ * const queries = cacheLink<AppRouter>({
+ *   ttlMs: 30_000,
+ *   staleWhileRevalidateMs: 5 * 60_000,
+ *   invalidate: (op) => (op.path === 'users.upgrade' ? ['users', 'billing'] : ['users']),
+ * });
+ *
+ * const link = [queries, endpointRouterLink<AppRouter>({ routerToEndpoint })];
+ *
+ * // On logout
+ * await queries.cache.clear();
+ * ```
+ */
+export function cacheLink<TRouter extends AnyRouter>(
+  opts: CacheLinkOptions<TRouter>
+): TRPCLink<TRouter> & { cache: QueryCache<TRouter> } {
+  const {
+    ttlMs,
+    staleWhileRevalidateMs = 0,
+    storage = createMemoryCacheStorage(),
+    contextKey,
+    cacheable,
+    invalidate = (op: Operation) => [
+      getRouterName(op.path) as CacheInvalidationPrefix<TRouter>,
+    ],
+  } = opts;
+
+  // Bumped on every invalidation, so results requested before it are never stored
+  let generation = 0;
+  const revalidating = new Set<string>();
+
+  const store = (key: string, data: unknown, requestedIn: number) => {
+    if (requestedIn === generation) {
+      callStorage(() => storage.set(key, { data, storedAt: Date.now() }), () => {});
+    }
+  };
+
+  // Returns undefined when the storage deleted everything synchronously
+  const invalidatePrefixes = (
+    matches: (path: string) => boolean
+  ): Promise<void> | undefined => {
+    generation++;
+
+    const deleteMatching = (keys: string[]): Promise<void> | undefined => {
+      const deletions: Promise<void>[] = [];
+      for (const key of keys) {
+        if (!matches(getOperationKeyPath(key))) {
+          continue;
+        }
+        try {
+          const deletion = storage.delete(key);
+          if (isPromiseLike(deletion)) {
+            deletions.push(deletion.catch(() => {}));
+          }
+        } catch {
+          // A failing storage keeps the entry; the generation bump still applies
+        }
+      }
+      return deletions.length > 0 ? Promise.all(deletions).then(() => {}) : undefined;
+    };
+
+    let keys: string[] | Promise<string[]>;
+    try {
+      keys = storage.keys();
+    } catch {
+      return undefined;
+    }
+    return isPromiseLike(keys)
+      ? keys.then(
+          async (resolved) => {
+            await deleteMatching(resolved);
+          },
+          () => {}
+        )
+      : deleteMatching(keys);
+  };
+
+  const invalidatePaths = (prefixes: string[]) =>
+    invalidatePrefixes((path) =>
+      getPathPrefixes(path).some((prefix) => prefixes.includes(prefix))
+    );
+
+  const cache: QueryCache<TRouter> = {
+    invalidate: async (...prefixes) => {
+      await invalidatePaths(prefixes);
+    },
+    clear: async () => {
+      await invalidatePrefixes(() => true);
+    },
+  };
+
+  const link: TRPCLink<TRouter> = () => {
+    return ({ op, next }) => {
+      return observable((observer) => {
+        if (op.type === 'mutation' && invalidate !== false) {
+          let pending: Promise<void> | undefined;
+          // Results are held back until the invalidation is done, so queries made
+          // once the mutation resolved never see stale entries
+          const after = (forward: () => void) => {
+            if (pending) {
+              pending = pending.then(forward);
+            } else {
+              forward();
+            }
+          };
+
+          return next(op).subscribe({
+            next(value) {
+              if (value.result.type === 'data') {
+                pending = invalidatePaths(invalidate(op));
+              }
+              after(() => observer.next(value));
+            },
+            error(err) {
+              after(() => observer.error(err));
+            },
+            complete() {
+              after(() => observer.complete());
+            },
+          });
+        }
+
+        const key =
+          op.type === 'query' && (cacheable?.(op) ?? true)
+            ? getOperationKey(op, contextKey)
+            : undefined;
+        if (key === undefined) {
+          return next(op).subscribe(observer);
+        }
+
+        let subscription: Unsubscribable | undefined;
+        let closed = false;
+
+        const fetch = () => {
+          const requestedIn = generation;
+          subscription = next(op).subscribe({
+            next(value) {
+              if (value.result.type === 'data') {
+                store(key, value.result.data, requestedIn);
+              }
+              observer.next(value);
+            },
+            error(err) {
+              observer.error(err);
+            },
+            complete() {
+              observer.complete();
+            },
+          });
+        };
+
+        const revalidate = () => {
+          if (revalidating.has(key)) {
+            return;
+          }
+          revalidating.add(key);
+          const requestedIn = generation;
+          const done = () => revalidating.delete(key);
+
+          // Detached from the operation, which already completed with the stale result
+          next({ ...op, signal: null }).subscribe({
+            next(value) {
+              if (value.result.type === 'data') {
+                store(key, value.result.data, requestedIn);
+              }
+            },
+            error: done,
+            complete: done,
+          });
+        };
+
+        callStorage(
+          () => storage.get(key),
+          (entry) => {
+            if (closed) {
+              return;
+            }
+
+            const age = entry ? Date.now() - entry.storedAt : Number.POSITIVE_INFINITY;
+            if (!entry || age >= ttlMs + staleWhileRevalidateMs) {
+              fetch();
+              return;
+            }
+
+            observer.next({ result: { type: 'data', data: entry.data } });
+            observer.complete();
+            if (age >= ttlMs) {
+              revalidate();
+            }
+          }
+        );
+
+        return () => {
+          closed = true;
+          subscription?.unsubscribe();
+        };
+      });
+    };
+  };
+
+  return Object.assign(link, { cache });
+}
+
+export type {
+  CacheInvalidationPrefix,
+  CacheLinkOptions,
+  CachedQueryResult,
+  CacheStorageAdapter,
+  MemoryCacheStorageOptions,
+  QueryCache,
+} from './types.js';
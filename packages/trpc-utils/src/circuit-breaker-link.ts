@@ -0,0 +1,247 @@
+import { observable } from '@trpc/server/observable';
+import { TRPCClientError, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { isServiceFailure } from './endpoint-health';
+import { CircuitOpenError } from './errors';
+import type {
+  CircuitBreaker,
+  CircuitBreakerLinkOptions,
+  CircuitBreakerOptions,
+  CircuitPermit,
+  CircuitState,
+  CircuitStateChange,
+} from './types';
+
+/**
+ * Creates a circuit breaker that tracks the failure rate over a sliding window.
+ * Share one breaker between several links by passing it as `{ breaker }` to
+ * circuitBreakerLink.
+ *
+ * @example
+ * ```ts
+ * const breaker = createCircuitBreaker({
+ *   name: 'billing',
+ *   onStateChange: ({ to }) => setBillingBanner(to !== 'closed'),
+ * });
+ * ```
+ */
+export function createCircuitBreaker(opts: CircuitBreakerOptions = {}): CircuitBreaker {
+  const {
+    name = 'default',
+    failureRateThreshold = 0.5,
+    minimumRequests = 5,
+    windowMs = 10_000,
+    resetTimeoutMs = 30_000,
+    halfOpenMaxOperations = 1,
+    isFailure = isServiceFailure,
+  } = opts;
+
+  const listeners = new Set<(event: CircuitStateChange) => void>();
+  if (opts.onStateChange) {
+    listeners.add(opts.onStateChange);
+  }
+
+  let state: CircuitState = 'closed';
+  let openedAt = 0;
+  let halfOpenInFlight = 0;
+  // Outcomes recorded while closed, oldest first
+  let outcomes: { timestamp: number; failed: boolean }[] = [];
+
+  const transition = (to: CircuitState, error?: unknown) => {
+    if (state === to) {
+      return;
+    }
+
+    const event: CircuitStateChange = {
+      name,
+      from: state,
+      to,
+      error,
+      timestamp: Date.now(),
+    };
+    state = to;
+    for (const listener of listeners) {
+      listener(event);
+    }
+  };
+
+  const open = (error: unknown) => {
+    openedAt = Date.now();
+    outcomes = [];
+    halfOpenInFlight = 0;
+    transition('open', error);
+  };
+
+  const getState = (): CircuitState => {
+    if (state === 'open' && Date.now() - openedAt >= resetTimeoutMs) {
+      transition('half-open');
+    }
+    return state;
+  };
+
+  const record = (failed: boolean, error?: unknown) => {
+    const now = Date.now();
+    outcomes = outcomes.filter((outcome) => now - outcome.timestamp < windowMs);
+    outcomes.push({ timestamp: now, failed });
+
+    const failures = outcomes.filter((outcome) => outcome.failed).length;
+    if (
+      outcomes.length >= minimumRequests &&
+      failures / outcomes.length >= failureRateThreshold
+    ) {
+      open(error);
+    }
+  };
+
+  return {
+    name,
+    getState,
+    getRetryAfterMs() {
+      if (getState() !== 'open') {
+        return 0;
+      }
+      return Math.max(0, openedAt + resetTimeoutMs - Date.now());
+    },
+    tryAcquire() {
+      const current = getState();
+      if (current === 'open') {
+        return undefined;
+      }
+
+      const isTrial = current === 'half-open';
+      if (isTrial) {
+        if (halfOpenInFlight >= halfOpenMaxOperations) {
+          return undefined;
+        }
+        halfOpenInFlight++;
+      }
+
+      let settled = false;
+      const settle = (outcome: 'success' | 'failure' | 'none', error?: unknown) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+
+        if (isTrial) {
+          // Ignore trials that outlived a reset or a reopen
+          if (state !== 'half-open') {
+            return;
+          }
+          halfOpenInFlight--;
+          if (outcome === 'success') {
+            outcomes = [];
+            transition('closed');
+          } else if (outcome === 'failure') {
+            open(error);
+          }
+          return;
+        }
+
+        // Outcomes of operations started before the circuit opened are dropped
+        if (state === 'closed' && outcome !== 'none') {
+          record(outcome === 'failure', error);
+        }
+      };
+
+      const permit: CircuitPermit = {
+        success: () => settle('success'),
+        failure: (error) => settle(isFailure(error) ? 'failure' : 'success', error),
+        release: () => settle('none'),
+      };
+      return permit;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    reset() {
+      outcomes = [];
+      halfOpenInFlight = 0;
+      transition('closed');
+    },
+  };
+}
+
+/**
+ * Creates a link that fails fast while its circuit breaker is open, instead of
+ * letting requests to a service that is down hang until they time out.
+ *
+ * Rejections are TRPCClientErrors whose `cause` is a CircuitOpenError, and they
+ * count as network-level errors, so endpointRouterLink failover moves on to the
+ * next endpoint. The breaker is exposed on the returned link as `link.breaker`.
+ *
+ * Place it in a `linkFactory` chain to get one breaker per endpoint, or in a
+ * `switchLink` case to get one breaker per case.
+ *
+ * @example
+ * ```ts
+ * const link = endpointRouterLink<AppRouter>({
+ *   routerToEndpoint: {
+ *     billing: ['https://billing-a.internal/trpc', 'https://billing-b.internal/trpc'],
+ *   },
+ *   linkFactory: (endpoint) => [
+ *     circuitBreakerLink({
+ *       name: endpoint,
+ *       onStateChange: ({ name, to }) => showServiceBanner(name, to),
+ *     }),
+ *     httpBatchLink({ url: endpoint }),
+ *   ],
+ * });
+ * ```
+ */
+export function circuitBreakerLink<TRouter extends AnyRouter>(
+  opts: CircuitBreakerLinkOptions = {}
+): TRPCLink<TRouter> & { breaker: CircuitBreaker } {
+  const breaker = 'breaker' in opts ? opts.breaker : createCircuitBreaker(opts);
+
+  const link: TRPCLink<TRouter> = () => {
+    return ({ op, next }) => {
+      return observable((observer) => {
+        const permit = breaker.tryAcquire();
+
+        if (!permit) {
+          observer.error(
+            TRPCClientError.from(
+              new CircuitOpenError(breaker.name, breaker.getRetryAfterMs())
+            )
+          );
+          return;
+        }
+
+        const subscription = next(op).subscribe({
+          next(value) {
+            permit.success();
+            observer.next(value);
+          },
+          error(err) {
+            permit.failure(err);
+            observer.error(err);
+          },
+          complete() {
+            permit.success();
+            observer.complete();
+          },
+        });
+
+        return () => {
+          permit.release();
+          subscription.unsubscribe();
+        };
+      });
+    };
+  };
+
+  return Object.assign(link, { breaker });
+}
+
+export type {
+  CircuitBreaker,
+  CircuitBreakerLinkOptions,
+  CircuitBreakerOptions,
+  CircuitPermit,
+  CircuitState,
+  CircuitStateChange,
+} from './types.js';
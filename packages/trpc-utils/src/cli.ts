@@ -0,0 +1,183 @@
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { AnyRouter } from '@trpc/server';
+import { isEndpointRegistry } from './endpoint-registry';
+import { createRoutingTable, formatRoutingTable } from './routing-table';
+import { validateRouterMapping } from './validate-router-mapping';
+import type {
+  EndpointMappingSource,
+  EndpointTarget,
+  RoutingTableOptions,
+} from './types';
+
+/**
+ * Where the CLI writes output and how it loads the user's module.
+ * @internal
+ */
+export interface CliIO {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+  cwd: string;
+  importModule?: (url: string) => Promise<Record<string, unknown>>;
+}
+
+const USAGE = `Usage: samyx-trpc routes <module> [options]
+
+Prints the procedure -> endpoint -> link chain table of an endpointRouterLink
+configuration. <module> must export the server AppRouter and the endpoint
+mapping (load TypeScript modules through a loader, e.g. node --import tsx).
+
+Options:
+  --router <export>   Export holding the AppRouter (default: appRouter)
+  --mapping <export>  Export holding routerToEndpoint, or the full
+                      endpointRouterLink options (default: routerToEndpoint)
+  --strict            Exit with code 1 unless every procedure is routed by a
+                      rule or mapping key, and the mapping has no errors
+  -h, --help          Show this help`;
+
+interface RoutesArgs {
+  modulePath: string;
+  routerExport: string;
+  mappingExport: string;
+  strict: boolean;
+}
+
+/**
+ * Parses `routes` arguments, returning an error message for invalid input.
+ */
+function parseRoutesArgs(args: string[]): RoutesArgs | string {
+  const parsed: Partial<RoutesArgs> = {
+    routerExport: 'appRouter',
+    mappingExport: 'routerToEndpoint',
+    strict: false,
+  };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+
+    if (arg === '--strict') {
+      parsed.strict = true;
+    } else if (arg === '--router' || arg === '--mapping') {
+      const value = args[++index];
+      if (value === undefined || value.startsWith('-')) {
+        return `${arg} requires an export name`;
+      }
+      parsed[arg === '--router' ? 'routerExport' : 'mappingExport'] = value;
+    } else if (arg.startsWith('-')) {
+      return `unknown option ${arg}`;
+    } else if (parsed.modulePath === undefined) {
+      parsed.modulePath = arg;
+    } else {
+      return `unexpected argument ${arg}`;
+    }
+  }
+
+  if (parsed.modulePath === undefined) {
+    return 'missing <module>';
+  }
+  return parsed as RoutesArgs;
+}
+
+/**
+ * Resolves a mapping export, which may be a mapping source or full link options.
+ */
+async function resolveRoutingOptions(value: unknown): Promise<RoutingTableOptions> {
+  const { routerToEndpoint: source, ...rest } =
+    typeof value === 'object' && value !== null && 'routerToEndpoint' in value
+      ? (value as RoutingTableOptions & {
+          routerToEndpoint: EndpointMappingSource<Record<string, EndpointTarget>>;
+        })
+      : { routerToEndpoint: value as EndpointMappingSource<Record<string, EndpointTarget>> };
+
+  const routerToEndpoint =
+    typeof source === 'function'
+      ? await source()
+      : isEndpointRegistry(source)
+        ? await source.load()
+        : source;
+
+  return { ...rest, routerToEndpoint };
+}
+
+/**
+ * Runs the `routes` command and returns the process exit code:
+ * 0 on success, 1 when strict checks fail, 2 on usage or loading errors.
+ */
+async function runRoutes(args: string[], io: CliIO): Promise<number> {
+  const parsed = parseRoutesArgs(args);
+  if (typeof parsed === 'string') {
+    io.stderr(`samyx-trpc routes: ${parsed}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const importModule = io.importModule ?? ((url: string) => import(url));
+  const url = pathToFileURL(resolve(io.cwd, parsed.modulePath)).href;
+
+  let appRouter: AnyRouter;
+  let options: RoutingTableOptions;
+  try {
+    const loaded = await importModule(url);
+    appRouter = loaded[parsed.routerExport] as AnyRouter;
+    if (typeof appRouter !== 'object' || appRouter === null || !('_def' in appRouter)) {
+      io.stderr(`samyx-trpc routes: "${parsed.routerExport}" is not a tRPC router export`);
+      return 2;
+    }
+    if (loaded[parsed.mappingExport] === undefined) {
+      io.stderr(`samyx-trpc routes: module has no "${parsed.mappingExport}" export`);
+      return 2;
+    }
+    options = await resolveRoutingOptions(loaded[parsed.mappingExport]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr(`samyx-trpc routes: failed to load ${parsed.modulePath}: ${message}`);
+    return 2;
+  }
+
+  const rows = createRoutingTable(appRouter, options);
+  io.stdout(formatRoutingTable(rows));
+
+  // Unmapped routers are visible in the table, where rules are taken into account
+  const diagnostics = validateRouterMapping(appRouter, options.routerToEndpoint, {
+    defaultEndpoint: options.defaultEndpoint,
+  }).diagnostics.filter((diagnostic) => diagnostic.code !== 'unmapped-router');
+  for (const diagnostic of diagnostics) {
+    io.stderr(`${diagnostic.severity}: ${diagnostic.message}`);
+  }
+
+  if (!parsed.strict) {
+    return 0;
+  }
+
+  const unmapped = rows.filter(
+    (row) => row.source.kind === 'default' || row.source.kind === 'unmapped'
+  );
+  if (unmapped.length > 0) {
+    io.stderr(
+      `error: ${unmapped.length} procedure(s) not routed by a rule or mapping key: ` +
+        unmapped.map((row) => row.path).join(', ')
+    );
+  }
+  return unmapped.length > 0 || diagnostics.some((d) => d.severity === 'error') ? 1 : 0;
+}
+
+/**
+ * Entry point of the `samyx-trpc` bin. Returns the process exit code.
+ * @internal
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  const [command, ...args] = argv;
+
+  if (command === undefined || command === '-h' || command === '--help') {
+    io.stdout(USAGE);
+    return command === undefined ? 2 : 0;
+  }
+  if (command !== 'routes') {
+    io.stderr(`samyx-trpc: unknown command "${command}"\n\n${USAGE}`);
+    return 2;
+  }
+  if (args.includes('-h') || args.includes('--help')) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  return runRoutes(args, io);
+}
@@ -0,0 +1,157 @@
+import { observable, type Observer, type Unsubscribable } from '@trpc/server/observable';
+import {
+  TRPCClientError,
+  type Operation,
+  type OperationResultEnvelope,
+  type TRPCLink,
+} from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { forkOperation, getRoutingDecision, recordRoutingDecision } from './operation-context';
+import { getOperationKey } from './operation-key';
+import type { DedupeLinkOptions } from './types';
+
+type OperationObserver<TRouter extends AnyRouter> = Observer<
+  OperationResultEnvelope<unknown, TRPCClientError<TRouter>>,
+  TRPCClientError<TRouter>
+>;
+
+/**
+ * A query in flight, shared by every identical operation subscribed to it.
+ */
+interface InFlightQuery<TRouter extends AnyRouter> {
+  /** The operation sent down the chain, with an abort signal of its own */
+  op: Operation;
+  controller: AbortController;
+  /** Subscribers and the operation each of them issued */
+  subscribers: Map<OperationObserver<TRouter>, Operation>;
+  subscription?: Unsubscribable;
+  settled: boolean;
+}
+
+/**
+ * Creates a link that shares one in-flight request between identical queries,
+ * keyed by path, input (serialized with sorted keys) and an optional context key.
+ *
+ * Subscribers are reference counted: unsubscribing or aborting one of them leaves
+ * the request running for the others, and the request is only cancelled once every
+ * subscriber has left. Nothing is cached: queries issued once the request sent a
+ * result start a new one. Mutations and subscriptions are never deduplicated.
+ *
+ * @example
+ * ```ts
+ * const link = [
+ *   dedupeLink({ contextKey: (context) => context.userId as string | undefined }),
+ *   endpointRouterLink<AppRouter>({ routerToEndpoint }),
+ * ];
+ * ```
+ */
+export function dedupeLink<TRouter extends AnyRouter>(
+  opts: DedupeLinkOptions = {}
+): TRPCLink<TRouter> {
+  const { contextKey } = opts;
+
+  return () => {
+    const inFlight = new Map<string, InFlightQuery<TRouter>>();
+
+    return ({ op, next }) => {
+      return observable((observer) => {
+        const key = op.type === 'query' ? getOperationKey(op, contextKey) : undefined;
+        if (key === undefined || op.signal?.aborted) {
+          return next(op).subscribe(observer);
+        }
+
+        let query = inFlight.get(key);
+        const isLeader = query === undefined;
+        if (!query) {
+          const controller = new AbortController();
+          // Routing decisions land on the shared operation and are copied to every subscriber
+          query = {
+            op: { ...forkOperation(op), signal: controller.signal },
+            controller,
+            subscribers: new Map(),
+            settled: false,
+          };
+          inFlight.set(key, query);
+        }
+
+        const current = query;
+        current.subscribers.set(observer, op);
+
+        // Stops new identical queries from joining this one
+        const close = () => {
+          if (inFlight.get(key) === current) {
+            inFlight.delete(key);
+          }
+        };
+
+        const settle = () => {
+          current.settled = true;
+          close();
+        };
+
+        const shareDecision = () => {
+          const decision = getRoutingDecision(current.op);
+          if (decision) {
+            for (const subscriberOp of current.subscribers.values()) {
+              recordRoutingDecision(subscriberOp, decision);
+            }
+          }
+        };
+
+        const leave = () => {
+          op.signal?.removeEventListener('abort', onAbort);
+          if (
+            !current.subscribers.delete(observer) ||
+            current.subscribers.size > 0 ||
+            current.settled
+          ) {
+            return;
+          }
+          settle();
+          current.controller.abort();
+          current.subscription?.unsubscribe();
+        };
+
+        const onAbort = () => {
+          const wasSubscribed = current.subscribers.has(observer);
+          leave();
+          if (wasSubscribed) {
+            observer.error(TRPCClientError.from(new Error('dedupeLink: operation aborted')));
+          }
+        };
+        op.signal?.addEventListener('abort', onAbort);
+
+        if (isLeader) {
+          current.subscription = next(current.op).subscribe({
+            next(value) {
+              // Queries joining later would miss this value: they start a new request
+              close();
+              shareDecision();
+              for (const subscriber of Array.from(current.subscribers.keys())) {
+                subscriber.next(value);
+              }
+            },
+            error(err) {
+              settle();
+              shareDecision();
+              for (const subscriber of Array.from(current.subscribers.keys())) {
+                subscriber.error(err);
+              }
+            },
+            complete() {
+              settle();
+              shareDecision();
+              for (const subscriber of Array.from(current.subscribers.keys())) {
+                subscriber.complete();
+              }
+            },
+          });
+        }
+
+        return leave;
+      });
+    };
+  };
+}
+
+export type { DedupeLinkOptions } from './types.js';
@@ -0,0 +1,89 @@
+import { isTRPCClientError } from '@trpc/client';
+import type { EndpointHealthChange } from './types';
+
+/**
+ * Tracks which endpoints are currently healthy.
+ * @internal
+ */
+export interface EndpointHealthTracker {
+  /** Whether the endpoint is healthy (never failed, recovered, or its cool-down elapsed) */
+  isHealthy(endpoint: string): boolean;
+  /** Records a successful response, marking the endpoint healthy again */
+  reportSuccess(endpoint: string): void;
+  /** Records a network-level failure, marking the endpoint unhealthy for the cool-down */
+  reportFailure(endpoint: string, error: unknown): void;
+}
+
+/**
+ * Creates a health tracker that marks failing endpoints unhealthy for a cool-down window.
+ * Only state transitions are reported through `onHealthChange`.
+ * @internal
+ */
+export function createEndpointHealthTracker(opts: {
+  cooldownMs: number;
+  onHealthChange?: (event: EndpointHealthChange) => void;
+}): EndpointHealthTracker {
+  // Endpoints currently marked unhealthy, mapped to the end of their cool-down
+  const unhealthyUntil = new Map<string, number>();
+
+  return {
+    isHealthy(endpoint) {
+      const until = unhealthyUntil.get(endpoint);
+      return until === undefined || Date.now() >= until;
+    },
+    reportSuccess(endpoint) {
+      if (!unhealthyUntil.delete(endpoint)) {
+        return;
+      }
+
+      opts.onHealthChange?.({
+        endpoint,
+        healthy: true,
+        timestamp: Date.now(),
+      });
+    },
+    reportFailure(endpoint, error) {
+      const wasHealthy = !unhealthyUntil.has(endpoint);
+      const now = Date.now();
+      unhealthyUntil.set(endpoint, now + opts.cooldownMs);
+
+      if (wasHealthy) {
+        opts.onHealthChange?.({
+          endpoint,
+          healthy: false,
+          error,
+          timestamp: now,
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Whether an error is a network-level TRPCClientError, i.e. the request never
+ * produced a tRPC error response (connection refused, DNS failure, non-tRPC 5xx body).
+ * Aborted requests are not considered network errors.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!isTRPCClientError(error) || error.shape !== undefined) {
+    return false;
+  }
+
+  return error.cause?.name !== 'AbortError';
+}
+
+/**
+ * Whether an error means the service itself failed: a network-level error or a
+ * response with HTTP status >= 500. tRPC errors such as BAD_REQUEST or
+ * UNAUTHORIZED mean the service is up.
+ */
+export function isServiceFailure(error: unknown): boolean {
+  if (isNetworkError(error)) {
+    return true;
+  }
+
+  const httpStatus = isTRPCClientError(error)
+    ? (error.data as { httpStatus?: unknown } | undefined)?.httpStatus
+    : undefined;
+  return typeof httpStatus === 'number' && httpStatus >= 500;
+}
@@ -0,0 +1,95 @@
+import type {
+  EndpointMappingSource,
+  EndpointRegistry,
+  EndpointRegistryOptions,
+  EndpointTarget,
+  ManagedEndpointRegistry,
+} from './types';
+
+/**
+ * Creates a registry holding a router-to-endpoint mapping that can change at runtime,
+ * e.g. when a config service publishes new endpoints during a deploy.
+ * Pass it as `routerToEndpoint` to endpointRouterLink: new operations use the latest
+ * mapping, and cached chains for endpoints that disappear are dropped.
+ *
+ * @example
+ * ```ts
+ * const registry = createEndpointRegistry({
+ *   load: () => fetch('/config/endpoints').then((res) => res.json()),
+ * });
+ * configService.on('endpoints', (mapping) => registry.set(mapping));
+ *
+ * const link = endpointRouterLink<AppRouter>({ routerToEndpoint: registry });
+ * ```
+ */
+export function createEndpointRegistry<
+  TMapping extends Record<string, EndpointTarget> = Record<string, EndpointTarget>,
+>(opts: EndpointRegistryOptions<TMapping> = {}): ManagedEndpointRegistry<TMapping> {
+  const listeners = new Set<(mapping: TMapping) => void>();
+  let current = opts.initial;
+  let pending: Promise<TMapping> | undefined;
+
+  const set = (mapping: TMapping) => {
+    current = mapping;
+    for (const listener of listeners) {
+      listener(mapping);
+    }
+  };
+
+  const refresh = (): Promise<TMapping> => {
+    if (!opts.load) {
+      return Promise.reject(
+        new Error('endpointRegistry: no mapping has been set and no load function was provided')
+      );
+    }
+
+    pending ??= opts.load().then(
+      (mapping) => {
+        pending = undefined;
+        set(mapping);
+        return mapping;
+      },
+      (error: unknown) => {
+        pending = undefined;
+        throw error;
+      }
+    );
+    return pending;
+  };
+
+  return {
+    get: () => current,
+    load: () => (current === undefined ? refresh() : Promise.resolve(current)),
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    set,
+    refresh,
+  };
+}
+
+/**
+ * Whether a mapping source is a registry (as opposed to a static mapping or a resolver).
+ * @internal
+ */
+export function isEndpointRegistry<TMapping>(
+  source: EndpointMappingSource<TMapping>
+): source is EndpointRegistry<TMapping> {
+  const candidate = source as Partial<EndpointRegistry<TMapping>>;
+  return (
+    typeof candidate.get === 'function' &&
+    typeof candidate.load === 'function' &&
+    typeof candidate.subscribe === 'function'
+  );
+}
+
+export type {
+  EndpointMappingResolver,
+  EndpointMappingSource,
+  EndpointRegistry,
+  EndpointRegistryOptions,
+  ManagedEndpointRegistry,
+} from './types.js';
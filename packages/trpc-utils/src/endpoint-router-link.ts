@@ -1,12 +1,34 @@
-import { observable } from '@trpc/server/observable';
-import { httpBatchLink, TRPCClientError, type TRPCLink, type OperationLink } from '@trpc/client';
+import { observable, type Observer } from '@trpc/server/observable';
+import {
+  TRPCClientError,
+  type TRPCLink,
+  type Operation,
+  type OperationResultEnvelope,
+} from '@trpc/client';
 import type { AnyRouter } from '@trpc/server';
+import { isPromiseLike } from './async-utils';
 import { createChain } from './create-chain';
+import { createEndpointHealthTracker, isNetworkError } from './endpoint-health';
+import { getTargetEndpoints, isReplicaGroup } from './endpoint-target';
+import { isEndpointRegistry } from './endpoint-registry';
+import { createLinkCache, type CachedChain, type LinkCache } from './link-cache';
+import { createReplicaSelector, type ReplicaSelector } from './load-balancer';
+import { getAvoidedEndpoints, recordRoutingDecision } from './operation-context';
+import { createTransportLinkFactory } from './transport-link-factory';
+import { createPathMatcher, getRouterName, matchLongestPrefix } from './path-matching';
 import type {
+  DisposableLink,
+  DisposableLinks,
   EndpointRouterLinkOptions,
   TypedEndpointRouterLinkOptions,
+  EndpointRule,
+  EndpointTarget,
   LinkFactory,
   LinkOrLinks,
+  ProcedurePaths,
+  ReplicaGroup,
+  RouterPaths,
+  SwitchLinkSelectorContext,
 } from './types';
 
 /**
@@ -18,9 +40,52 @@ function asArray<TRouter extends AnyRouter>(
   return Array.isArray(value) ? value : [value];
 }
 
+type OperationObserver<TRouter extends AnyRouter> = Observer<
+  OperationResultEnvelope<unknown, TRPCClientError<TRouter>>,
+  TRPCClientError<TRouter>
+>;
+
+/**
+ * Splits a link factory result into its links and optional teardown.
+ */
+function normalizeFactoryResult<TRouter extends AnyRouter>(
+  value: LinkOrLinks<TRouter> | DisposableLinks<TRouter>
+): { links: TRPCLink<TRouter>[]; dispose?: () => void } {
+  if (typeof value === 'function' || Array.isArray(value)) {
+    return { links: asArray(value) };
+  }
+  return { links: asArray(value.links), dispose: value.dispose };
+}
+
+/**
+ * Compiles a routing rule into a predicate over the selector context.
+ */
+function compileRule<TContext, TPath extends string>(
+  rule: EndpointRule<TContext, TPath>
+): (context: SwitchLinkSelectorContext<TContext, TPath>) => boolean {
+  const { match, type } = rule;
+  const types = type === undefined ? undefined : Array.isArray(type) ? type : [type];
+
+  let matches: (context: SwitchLinkSelectorContext<TContext, TPath>) => boolean;
+  if (typeof match === 'function') {
+    matches = match;
+  } else {
+    const matchPath = createPathMatcher(match);
+    matches = (context) => matchPath(context.path);
+  }
+
+  return (context) => (!types || types.includes(context.type)) && matches(context);
+}
+
 /**
  * Creates a link that routes requests to different endpoints based on the router name.
- * The router name is extracted from the first segment of the procedure path.
+ * Mapping keys can be top-level routers ("billing"), nested routers ("billing.payouts")
+ * or full procedure paths ("users.uploadAvatar"). The longest matching prefix of the
+ * procedure path wins.
+ *
+ * `rules` are evaluated in declared order before the map and `defaultEndpoint`,
+ * so glob, regex and context-based routing share the same per-endpoint link cache
+ * (and therefore batching) as the router map.
  *
  * The linkFactory can return a single link or an array of links that will be chained.
  *
@@ -35,6 +100,74 @@ function asArray<TRouter extends AnyRouter>(
  *   defaultEndpoint: '/api/trpc',
  * });
  *
+ * // Nested routers split across deployments
+ * const link = endpointRouterLink<AppRouter>({
+ *   routerToEndpoint: {
+ *     billing: 'https://billing.internal/trpc',
+ *     'billing.payouts': 'https://payouts.internal/trpc',
+ *     'users.uploadAvatar': 'https://uploads.internal/trpc',
+ *   },
+ * });
+ *
+ * // Pattern and predicate rules, checked before the map
+ * const link = endpointRouterLink<AppRouter>({
+ *   rules: [
+ *     { match: 'admin.*.export*', endpoint: 'https://exports.internal/trpc' },
+ *     { match: /^reports\./, type: 'query', endpoint: 'https://replica.internal/trpc' },
+ *     { match: ({ ctx }) => (ctx as any).preview, endpoint: '/api/preview/trpc' },
+ *   ],
+ *   routerToEndpoint: { users: '/api/users-service/trpc' },
+ *   defaultEndpoint: '/api/trpc',
+ * });
+ *
+ * // Failover: queries hitting a network error are replayed on the next endpoint
+ * const link = endpointRouterLink<AppRouter>({
+ *   routerToEndpoint: {
+ *     billing: ['https://billing-a.internal/trpc', 'https://billing-b.internal/trpc'],
+ *   },
+ *   failover: {
+ *     cooldownMs: 60_000,
+ *     onHealthChange: ({ endpoint, healthy }) => reportHealth(endpoint, healthy),
+ *   },
+ * });
+ *
+ * // Load balancing across replicas (each replica batches independently)
+ * const link = endpointRouterLink<AppRouter>({
+ *   routerToEndpoint: {
+ *     search: {
+ *       replicas: [
+ *         { url: 'https://search-1.internal/trpc', weight: 3 },
+ *         { url: 'https://search-2.internal/trpc', weight: 1 },
+ *       ],
+ *       strategy: 'weighted',
+ *     },
+ *   },
+ * });
+ *
+ * // Hot-reloadable mapping from a config service
+ * const registry = createEndpointRegistry({ load: fetchEndpointConfig });
+ * const link = endpointRouterLink<AppRouter>({ routerToEndpoint: registry });
+ *
+ * // Per-operation override for debugging and preview environments:
+ * // client.users.get.query(input, { context: { endpoint: 'staging' } })
+ * const link = endpointRouterLink<AppRouter>({
+ *   routerToEndpoint: { users: '/api/users-service/trpc' },
+ *   endpointOverride: {
+ *     endpoints: { staging: 'https://staging.internal/trpc' },
+ *   },
+ * });
+ *
+ * // Bounded cache for dynamic endpoints, with explicit teardown
+ * const link = endpointRouterLink<AppRouter>({
+ *   routerToEndpoint: tenantRegistry,
+ *   cache: { maxSize: 20, idleTimeoutMs: 5 * 60_000 },
+ *   linkFactory: (endpoint) => {
+ *     const client = createWSClient({ url: toWsUrl(endpoint) });
+ *     return { links: wsLink({ client }), dispose: () => client.close() };
+ *   },
+ * });
+ * // later: link.dispose(), or `using link = endpointRouterLink(...)`
+ *
  * // With custom link factory returning a chain
  * const link = endpointRouterLink<AppRouter>({
  *   routerToEndpoint: { ... },
@@ -52,78 +185,416 @@ function asArray<TRouter extends AnyRouter>(
  *     headers: () => ({ Authorization: `Bearer ${getToken()}` }),
  *   },
  * });
+ *
+ * // Streamed queries, and subscriptions over one WebSocket per endpoint
+ * // (by default, subscriptions use server-sent events)
+ * const link = endpointRouterLink<AppRouter>({
+ *   routerToEndpoint: { chat: 'https://chat.internal/trpc', users: '/api/users' },
+ *   transport: {
+ *     http: 'httpBatchStreamLink',
+ *     subscriptions: 'wsLink',
+ *     // Headers only reach HTTP requests; authenticate subscriptions here
+ *     wsClientOptions: { connectionParams: async () => ({ token: await getToken() }) },
+ *   },
+ * });
  * ```
  */
 export function endpointRouterLink<
   TRouter extends AnyRouter,
-  TMapping extends Record<string, string> = Record<string, string>,
->(opts: EndpointRouterLinkOptions<TRouter, TMapping>): TRPCLink<TRouter> {
+  TMapping extends Record<string, EndpointTarget> = Record<string, EndpointTarget>,
+  TContext = unknown,
+>(opts: EndpointRouterLinkOptions<TRouter, TMapping, TContext>): DisposableLink<TRouter> {
   const {
     routerToEndpoint,
+    endpointOverride,
+    rules = [],
     defaultEndpoint,
     strict = false,
+    failover = {},
     linkFactory,
     linkOptions = {},
+    transport = {},
+    cache,
   } = opts;
+  const { isFailoverError = isNetworkError } = failover;
+
+  const health = createEndpointHealthTracker({
+    cooldownMs: failover.cooldownMs ?? 30_000,
+    onHealthChange: failover.onHealthChange,
+  });
 
-  // Default link factory uses httpBatchLink
-  // We use type assertions here because httpBatchLink's complex generic
-  // types don't always infer correctly with dynamic linkOptions
+  // Default link factory splits operations by type: httpBatchLink (or
+  // httpBatchStreamLink) for queries and mutations, and a subscription link
   const createLink: LinkFactory<TRouter> =
-    linkFactory ??
-    ((endpoint: string) => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return httpBatchLink({
-        url: endpoint,
-        ...linkOptions,
-      } as any) as TRPCLink<TRouter>;
-    });
+    linkFactory ?? createTransportLinkFactory<TRouter>(linkOptions, transport);
+
+  const compiledRules = rules.map((rule) => ({
+    endpoint: rule.endpoint,
+    matches: compileRule(rule),
+  }));
+
+  // Resolves the target of an operation, with a name for where it came from
+  const resolveTarget = (
+    context: SwitchLinkSelectorContext<TContext, ProcedurePaths<TRouter>>,
+    mapping: Record<string, EndpointTarget>
+  ): { target: EndpointTarget; source: string } | undefined => {
+    for (const [index, rule] of compiledRules.entries()) {
+      if (rule.matches(context)) {
+        return { target: rule.endpoint, source: `rule:${index}` };
+      }
+    }
+
+    const match = matchLongestPrefix(mapping, context.path);
+    if (match) {
+      return { target: match.value, source: `mapping:${match.key}` };
+    }
+    return defaultEndpoint === undefined
+      ? undefined
+      : { target: defaultEndpoint, source: 'default' };
+  };
+
+  const overrideKey = endpointOverride?.contextKey ?? 'endpoint';
+  const overrideEndpoints: Record<string, string> = endpointOverride?.endpoints ?? {};
+  const overrideUrls = new Set(Object.values(overrideEndpoints));
+
+  // Resolves an allowlisted override name or URL; undefined if it is not allowed
+  const resolveOverride = (override: unknown): string | undefined => {
+    if (typeof override !== 'string') {
+      return undefined;
+    }
+    const named = Object.getOwnPropertyDescriptor(overrideEndpoints, override)?.value as
+      | string
+      | undefined;
+    return named ?? (overrideUrls.has(override) ? override : undefined);
+  };
+
+  // Endpoints referenced outside the mapping stay cached across mapping changes
+  const staticEndpoints = [
+    ...overrideUrls,
+    ...rules.flatMap((rule) => getTargetEndpoints(rule.endpoint)),
+    ...(defaultEndpoint === undefined ? [] : getTargetEndpoints(defaultEndpoint)),
+  ];
+
+  // Active operations per endpoint, used by the 'least-in-flight' strategy
+  const inFlight = new Map<string, number>();
+  const getInFlight = (endpoint: string) => inFlight.get(endpoint) ?? 0;
+
+  // Load balancer state lives per replica group, identified by where it was
+  // resolved from and its replicas: resolvers may return new objects per call
+  const replicaSelectors = new Map<
+    string,
+    { source: string; endpoints: string[]; select: ReplicaSelector }
+  >();
+  const getReplicaSelectorKey = (source: string, group: ReplicaGroup) =>
+    JSON.stringify([source, group.strategy, group.replicas]);
+
+  // Drops the load balancer state of replica groups using an evicted endpoint
+  const pruneReplicaSelectors = (endpoint: string) => {
+    for (const [key, { endpoints }] of replicaSelectors) {
+      if (endpoints.includes(endpoint)) {
+        replicaSelectors.delete(key);
+      }
+    }
+  };
+
+  // Link chain caches of every runtime this link was initialized with
+  const linkCaches = new Set<LinkCache<TRouter>>();
+  let disposed = false;
+  let currentMapping: Record<string, EndpointTarget> | undefined;
+
+  // Switches to a new mapping, dropping cached chains for endpoints that disappeared
+  const applyMapping = (mapping: Record<string, EndpointTarget>) => {
+    if (mapping === currentMapping) {
+      return;
+    }
+
+    const previousMapping = currentMapping;
+    currentMapping = mapping;
+    if (previousMapping === undefined) {
+      return;
+    }
+
+    // Replica groups no longer in the mapping start over if they come back
+    const mappedGroups = new Set(
+      Object.entries(mapping).flatMap(([key, target]) =>
+        isReplicaGroup(target) ? [getReplicaSelectorKey(`mapping:${key}`, target)] : []
+      )
+    );
+    for (const [key, { source }] of replicaSelectors) {
+      if (source.startsWith('mapping:') && !mappedGroups.has(key)) {
+        replicaSelectors.delete(key);
+      }
+    }
+
+    const activeEndpoints = new Set([
+      ...staticEndpoints,
+      ...Object.values(mapping).flatMap(getTargetEndpoints),
+    ]);
+    for (const linkCache of linkCaches) {
+      for (const endpoint of linkCache.keys()) {
+        if (!activeEndpoints.has(endpoint)) {
+          linkCache.evict(endpoint);
+        }
+      }
+    }
+  };
+
+  const getMapping = ():
+    | Record<string, EndpointTarget>
+    | Promise<Record<string, EndpointTarget>> => {
+    if (typeof routerToEndpoint === 'function') {
+      return routerToEndpoint();
+    }
+    if (isEndpointRegistry(routerToEndpoint)) {
+      return routerToEndpoint.get() ?? routerToEndpoint.load();
+    }
+    return routerToEndpoint;
+  };
+
+  const unsubscribeRegistry = isEndpointRegistry(routerToEndpoint)
+    ? routerToEndpoint.subscribe(applyMapping)
+    : undefined;
+
+  const dispose = () => {
+    disposed = true;
+    unsubscribeRegistry?.();
+    for (const linkCache of linkCaches) {
+      linkCache.dispose();
+    }
+    linkCaches.clear();
+  };
 
-  return (runtime) => {
+  // Orders a target's endpoints: healthy ones first, then the unhealthy ones as a
+  // last resort so a fully-degraded target still gets tried
+  const getCandidates = (target: EndpointTarget, source: string): string[] => {
+    if (typeof target === 'string') {
+      return [target];
+    }
+
+    if (isReplicaGroup(target)) {
+      const key = getReplicaSelectorKey(source, target);
+      let selector = replicaSelectors.get(key);
+      if (!selector) {
+        selector = {
+          source,
+          endpoints: getTargetEndpoints(target),
+          select: createReplicaSelector(target, getInFlight),
+        };
+        replicaSelectors.set(key, selector);
+      }
+      return selector.select((endpoint) => health.isHealthy(endpoint));
+    }
+
+    const healthy = target.filter((endpoint) => health.isHealthy(endpoint));
+    const unhealthy = target.filter((endpoint) => !health.isHealthy(endpoint));
+    return [...healthy, ...unhealthy];
+  };
+
+  const link: TRPCLink<TRouter> = (runtime) => {
     // Cache for initialized link chains, keyed by endpoint URL
-    const linkCache = new Map<string, OperationLink<TRouter>[]>();
+    const linkCache = createLinkCache<TRouter>({
+      create: (endpoint): CachedChain<TRouter> => {
+        const { links, dispose: disposeChain } = normalizeFactoryResult(createLink(endpoint));
+        return {
+          links: links.map((endpointLink) => endpointLink(runtime)),
+          dispose: disposeChain,
+        };
+      },
+      policy: cache,
+      onEvict: pruneReplicaSelectors,
+    });
+    linkCaches.add(linkCache);
+
+    // Routes one operation with the given mapping; returns its teardown
+    const route = (
+      op: Operation,
+      mapping: Record<string, EndpointTarget>,
+      observer: OperationObserver<TRouter>
+    ): (() => void) | undefined => {
+      const routerName = getRouterName(op.path);
+      const override = endpointOverride ? op.context[overrideKey] : undefined;
+      let candidates: string[];
 
-    const getInitializedLinks = (endpoint: string): OperationLink<TRouter>[] => {
-      let initializedLinks = linkCache.get(endpoint);
+      if (override !== undefined) {
+        const overrideEndpoint = resolveOverride(override);
 
-      if (!initializedLinks) {
-        const linksOrLink = createLink(endpoint);
-        const links = asArray(linksOrLink);
-        initializedLinks = links.map((link) => link(runtime));
-        linkCache.set(endpoint, initializedLinks);
+        if (!overrideEndpoint) {
+          const allowed = Object.keys(overrideEndpoints).join(', ');
+          observer.error(
+            TRPCClientError.from(
+              new Error(
+                `endpointRouterLink: endpoint override "${String(override)}" is not allowed. ` +
+                  `Allowed endpoints: ${allowed || '(none)'}`
+              )
+            )
+          );
+          return undefined;
+        }
+
+        candidates = [overrideEndpoint];
+      } else {
+        const resolved = resolveTarget(
+          {
+            path: op.path as ProcedurePaths<TRouter>,
+            type: op.type,
+            ctx: op.context as TContext,
+            op,
+          },
+          mapping
+        );
+        candidates = resolved ? getCandidates(resolved.target, resolved.source) : [];
+
+        // Avoided endpoints (e.g. by a hedge) stay available as a last resort
+        const avoided = getAvoidedEndpoints(op);
+        if (avoided.length > 0) {
+          candidates = [
+            ...candidates.filter((endpoint) => !avoided.includes(endpoint)),
+            ...candidates.filter((endpoint) => avoided.includes(endpoint)),
+          ];
+        }
+      }
+
+      if (candidates.length === 0) {
+        const availableMappings = Object.keys(mapping).join(', ');
+        const errorMessage = strict
+          ? `endpointRouterLink: no endpoint mapping for router "${routerName}" ` +
+            'and no defaultEndpoint provided. ' +
+            `Available mappings: ${availableMappings || '(none)'}`
+          : `endpointRouterLink: no endpoint for router "${routerName}". ` +
+            'Either add it to routerToEndpoint or provide a defaultEndpoint.';
+
+        observer.error(TRPCClientError.from(new Error(errorMessage)));
+        return undefined;
       }
 
-      return initializedLinks;
+      let currentAttempt = 0;
+      let unsubscribeCurrent: (() => void) | undefined;
+
+      const attempt = (index: number) => {
+        currentAttempt = index;
+        const endpoint = candidates[index];
+        recordRoutingDecision(op, { endpoint, attempts: index + 1 });
+        const lease = linkCache.acquire(endpoint);
+        const links = lease.links;
+        let receivedData = false;
+
+        let active = true;
+        inFlight.set(endpoint, getInFlight(endpoint) + 1);
+        const release = () => {
+          if (active) {
+            active = false;
+            const remaining = getInFlight(endpoint) - 1;
+            if (remaining > 0) {
+              inFlight.set(endpoint, remaining);
+            } else {
+              inFlight.delete(endpoint);
+            }
+            lease.release();
+          }
+        };
+
+        // Use createChain to execute the link chain
+        const subscription = createChain({ op, links }).subscribe({
+          next(value) {
+            receivedData = true;
+            health.reportSuccess(endpoint);
+            observer.next(value);
+          },
+          error(err) {
+            release();
+
+            if (!isFailoverError(err) || op.signal?.aborted) {
+              observer.error(err);
+              return;
+            }
+
+            health.reportFailure(endpoint, err);
+
+            // Only queries are safe to replay, and only before any data was emitted
+            const canReplay =
+              op.type === 'query' && !receivedData && index + 1 < candidates.length;
+
+            if (canReplay) {
+              attempt(index + 1);
+            } else {
+              observer.error(err);
+            }
+          },
+          complete() {
+            release();
+            health.reportSuccess(endpoint);
+            observer.complete();
+          },
+        });
+
+        // A synchronous failure may already have started the next attempt
+        if (currentAttempt === index) {
+          unsubscribeCurrent = () => {
+            release();
+            subscription.unsubscribe();
+          };
+        }
+      };
+
+      attempt(0);
+
+      return () => {
+        unsubscribeCurrent?.();
+      };
     };
 
     return (props) => {
       return observable((observer) => {
         const { op } = props;
-        const routerName = op.path.split('.')[0];
-        const endpoint =
-          (routerToEndpoint as Record<string, string>)[routerName] ??
-          defaultEndpoint;
-
-        if (!endpoint) {
-          const availableMappings = Object.keys(routerToEndpoint).join(', ');
-          const errorMessage = strict
-            ? `endpointRouterLink: no endpoint mapping for router "${routerName}" ` +
-              `and no defaultEndpoint provided. ` +
-              `Available mappings: ${availableMappings || '(none)'}`
-            : `endpointRouterLink: no endpoint for router "${routerName}". ` +
-              `Either add it to routerToEndpoint or provide a defaultEndpoint.`;
-
-          observer.error(TRPCClientError.from(new Error(errorMessage)));
+
+        if (disposed) {
+          observer.error(
+            TRPCClientError.from(new Error('endpointRouterLink: link has been disposed'))
+          );
           return;
         }
 
-        const links = getInitializedLinks(endpoint);
+        const mapping = getMapping();
 
-        // Use createChain to execute the link chain
-        return createChain({ op, links }).subscribe(observer);
+        if (!isPromiseLike(mapping)) {
+          applyMapping(mapping);
+          return route(op, mapping, observer);
+        }
+
+        // Async resolution: the operation waits for the mapping
+        let cancelled = false;
+        let teardown: (() => void) | undefined;
+
+        mapping.then(
+          (resolved) => {
+            if (cancelled) {
+              return;
+            }
+            applyMapping(resolved);
+            teardown = route(op, resolved, observer);
+          },
+          (error: unknown) => {
+            if (cancelled) {
+              return;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            observer.error(
+              TRPCClientError.from(
+                new Error(`endpointRouterLink: failed to resolve endpoint mapping: ${message}`)
+              )
+            );
+          }
+        );
+
+        return () => {
+          cancelled = true;
+          teardown?.();
+        };
       });
     };
   };
+
+  return Object.assign(link, { dispose, [Symbol.dispose]: dispose });
 }
 
 /**
@@ -139,21 +610,57 @@ export function endpointRouterLink<
  *     billing: '/api/billing', // TS validates 'billing' exists in AppRouter
  *   },
  *   defaultEndpoint: '/api/trpc',
+ *   // Typed override: rule predicates see `ctx.endpoint` as 'staging' | 'preview' | URL
+ *   endpointOverride: {
+ *     endpoints: { staging: '/api/staging', preview: '/api/preview' },
+ *   },
  * });
  * ```
  */
-export function typedEndpointRouterLink<TRouter extends AnyRouter>(
-  opts: TypedEndpointRouterLinkOptions<TRouter>
-): TRPCLink<TRouter> {
+export function typedEndpointRouterLink<
+  TRouter extends AnyRouter,
+  TContext = unknown,
+  TOverrideNames extends string = string,
+  TOverrideKey extends string = 'endpoint',
+>(
+  opts: TypedEndpointRouterLinkOptions<
+    TRouter,
+    RouterPaths<TRouter>,
+    TContext,
+    TOverrideNames,
+    TOverrideKey
+  >
+): DisposableLink<TRouter> {
   return endpointRouterLink(
-    opts as EndpointRouterLinkOptions<TRouter, Record<string, string>>
+    opts as unknown as EndpointRouterLinkOptions<
+      TRouter,
+      Record<string, EndpointTarget>,
+      TContext
+    >
   );
 }
 
 export type {
+  EndpointRouterLinkBaseOptions,
   EndpointRouterLinkOptions,
   TypedEndpointRouterLinkOptions,
+  EndpointRule,
+  EndpointRuleMatcher,
+  EndpointTarget,
+  EndpointReplica,
+  ReplicaGroup,
+  LoadBalancingStrategy,
+  EndpointFailoverOptions,
+  EndpointHealthChange,
+  EndpointOverrideContext,
+  EndpointOverrideOptions,
+  EndpointUrl,
+  EndpointTransportOptions,
+  EndpointSSEOptions,
   LinkFactory,
   LinkFactoryOptions,
   LinkOrLinks,
+  DisposableLink,
+  DisposableLinks,
+  LinkCacheOptions,
 } from './types.js';
@@ -0,0 +1,25 @@
+import type { EndpointTarget, ReplicaGroup } from './types';
+
+/**
+ * Whether a target is a load-balanced replica group.
+ * @internal
+ */
+export function isReplicaGroup(target: EndpointTarget): target is ReplicaGroup {
+  return typeof target === 'object' && 'replicas' in target;
+}
+
+/**
+ * Lists every endpoint URL a target can route to.
+ * @internal
+ */
+export function getTargetEndpoints(target: EndpointTarget): string[] {
+  if (typeof target === 'string') {
+    return [target];
+  }
+  if (isReplicaGroup(target)) {
+    return target.replicas.map((replica) =>
+      typeof replica === 'string' ? replica : replica.url
+    );
+  }
+  return [...target];
+}
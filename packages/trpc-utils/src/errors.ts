@@ -0,0 +1,90 @@
+import { isTRPCClientError } from '@trpc/client';
+
+/**
+ * Cause of the TRPCClientError emitted when a circuit breaker rejects an operation.
+ */
+export class CircuitOpenError extends Error {
+  /** Name of the breaker that rejected the operation (usually the endpoint) */
+  readonly circuit: string;
+  /** Time until the breaker lets a trial request through */
+  readonly retryAfterMs: number;
+
+  constructor(circuit: string, retryAfterMs: number) {
+    super(
+      `circuitBreakerLink: circuit "${circuit}" is open, ` +
+        `failing fast for another ${retryAfterMs}ms`
+    );
+    this.name = 'CircuitOpenError';
+    this.circuit = circuit;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Whether an error (or the cause of a TRPCClientError) is a CircuitOpenError.
+ */
+export function isCircuitOpenError(error: unknown): boolean {
+  const cause = isTRPCClientError(error) ? error.cause : error;
+  return cause instanceof CircuitOpenError;
+}
+
+/**
+ * Cause of the TRPCClientError emitted when rateLimitLink rejects an operation.
+ * - queue-full: the queue already held `maxQueueSize` operations
+ * - aborted: `op.signal` aborted while the operation was queued
+ */
+export class RateLimitError extends Error {
+  /** Name of the link that rejected the operation (usually the endpoint) */
+  readonly limiter: string;
+  /** The `routers` key whose limits applied, if any */
+  readonly scope: string | undefined;
+  readonly reason: 'queue-full' | 'aborted';
+
+  constructor(limiter: string, scope: string | undefined, reason: 'queue-full' | 'aborted') {
+    const target = scope === undefined ? `"${limiter}"` : `"${limiter}" (${scope})`;
+    super(
+      reason === 'queue-full'
+        ? `rateLimitLink: queue of ${target} is full`
+        : `rateLimitLink: operation aborted while queued by ${target}`
+    );
+    this.name = 'RateLimitError';
+    this.limiter = limiter;
+    this.scope = scope;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Whether an error (or the cause of a TRPCClientError) is a RateLimitError.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const cause = isTRPCClientError(error) ? error.cause : error;
+  return cause instanceof RateLimitError;
+}
+
+/**
+ * Cause of the TRPCClientError emitted when timeoutLink gives up on an operation.
+ * Also the reason of the AbortSignal passed down the chain, so links and fetch
+ * implementations below see why the request was cancelled.
+ */
+export class TimeoutError extends Error {
+  /** Path of the operation that timed out */
+  readonly path: string;
+  readonly timeoutMs: number;
+
+  constructor(path: string, timeoutMs: number) {
+    super(`timeoutLink: "${path}" timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+    this.path = path;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Whether an error (or the cause of a TRPCClientError) is a TimeoutError.
+ * Operations aborted through their own `op.signal` fail with other errors.
+ */
+export function isTimeoutError(error: unknown): boolean {
+  const cause = isTRPCClientError(error) ? error.cause : error;
+  return cause instanceof TimeoutError;
+}
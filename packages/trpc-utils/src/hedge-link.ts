@@ -0,0 +1,263 @@
+import { observable, type Unsubscribable } from '@trpc/server/observable';
+import type { Operation, TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { createHistogramReporter } from './metrics-link';
+import {
+  forkOperation,
+  getRoutingDecision,
+  recordRoutingDecision,
+  setAvoidedEndpoints,
+} from './operation-context';
+import { getRouterName, matchLongestPrefix } from './path-matching';
+import type {
+  HedgeLinkOptions,
+  HedgePercentileDelay,
+  HedgePolicy,
+  HistogramReporter,
+} from './types';
+
+const DEFAULT_DELAY: HedgePercentileDelay = { percentile: 95, fallbackMs: 100 };
+
+/**
+ * One request sent for a hedged query: the first attempt or the hedge.
+ */
+interface Attempt {
+  op: Operation;
+  controller: AbortController;
+  startedAt: number;
+  subscription?: Unsubscribable;
+  failed: boolean;
+}
+
+/**
+ * Creates a link that hedges slow queries: when a query has not answered within
+ * the hedge delay, the same query is sent again, and the first attempt to answer
+ * wins while the other one is cancelled. Behind endpointRouterLink, the hedge
+ * goes to a different replica than the first attempt whenever the router has one.
+ *
+ * Only queries of the routers opted in through `routers` are hedged, at most one
+ * hedge per query, within a hedge budget shared by every operation. The delay is
+ * either fixed or a percentile of the latencies the link observed recently.
+ * A query fails once every attempt failed; a first attempt failing before the
+ * hedge was sent fails the query (retries are retryLink's job).
+ *
+ * Place it before endpointRouterLink (and after metricsLink or tracingLink,
+ * which then see one operation routed to the winning endpoint).
+ *
+ * @example
+ * ```ts
+ * const link = [
+ *   hedgeLink<AppRouter>({
+ *     delay: { percentile: 95, fallbackMs: 150 },
+ *     routers: { dashboard: true, 'reports.summary': { delay: 300 } },
+ *     budget: { maxHedges: 20, windowMs: 10_000 },
+ *   }),
+ *   endpointRouterLink<AppRouter>({
+ *     routerToEndpoint: {
+ *       dashboard: {
+ *         replicas: ['https://read-1.internal/trpc', 'https://read-2.internal/trpc'],
+ *       },
+ *     },
+ *   }),
+ * ];
+ * ```
+ */
+export function hedgeLink<TRouter extends AnyRouter>(
+  opts: HedgeLinkOptions<TRouter>
+): TRPCLink<TRouter> {
+  const { routers, budget = { maxHedges: 10 }, onHedge, ...basePolicy } = opts;
+
+  // Timestamps of hedges still inside the budget window
+  let hedgeTimestamps: number[] = [];
+
+  const takeBudget = (): boolean => {
+    const now = Date.now();
+    const windowMs = budget.windowMs ?? 10_000;
+    hedgeTimestamps = hedgeTimestamps.filter((timestamp) => now - timestamp < windowMs);
+
+    if (hedgeTimestamps.length >= budget.maxHedges) {
+      return false;
+    }
+    hedgeTimestamps.push(now);
+    return true;
+  };
+
+  // Recent successful latencies, per routers key
+  const latencies = new Map<string, HistogramReporter>();
+
+  const getPolicy = (path: string) => {
+    const match = matchLongestPrefix(
+      routers as Record<string, boolean | HedgePolicy | undefined>,
+      path
+    );
+    if (!match || match.value === false) {
+      return undefined;
+    }
+
+    const policy: HedgePolicy = {
+      ...basePolicy,
+      ...(match.value === true ? {} : match.value),
+    };
+    return { scope: match.key, delay: policy.delay ?? DEFAULT_DELAY };
+  };
+
+  const getLatencies = (scope: string, delay: HedgePolicy['delay']) => {
+    let reporter = latencies.get(scope);
+    if (!reporter) {
+      const windowSize = typeof delay === 'object' ? delay.windowSize : undefined;
+      reporter = createHistogramReporter({ maxMetrics: windowSize ?? 100 });
+      latencies.set(scope, reporter);
+    }
+    return reporter;
+  };
+
+  const getDelayMs = (scope: string, delay: NonNullable<HedgePolicy['delay']>) => {
+    if (typeof delay === 'number') {
+      return delay;
+    }
+    const reporter = getLatencies(scope, delay);
+    if (reporter.metrics.length < (delay.minSamples ?? 20)) {
+      return delay.fallbackMs;
+    }
+    return reporter.percentile(delay.percentile ?? 95) ?? delay.fallbackMs;
+  };
+
+  return () => {
+    return ({ op, next }) => {
+      return observable((observer) => {
+        const policy = op.type === 'query' ? getPolicy(op.path) : undefined;
+        if (!policy || op.signal?.aborted) {
+          return next(op).subscribe(observer);
+        }
+
+        const attempts: Attempt[] = [];
+        let winner: Attempt | undefined;
+        let done = false;
+        let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const onAbort = () => {
+          for (const attempt of attempts) {
+            attempt.controller.abort(op.signal?.reason);
+          }
+        };
+        op.signal?.addEventListener('abort', onAbort);
+
+        const finish = () => {
+          done = true;
+          clearTimeout(hedgeTimer);
+          op.signal?.removeEventListener('abort', onAbort);
+        };
+
+        const settleWinner = (attempt: Attempt) => {
+          winner = attempt;
+          clearTimeout(hedgeTimer);
+          for (const other of attempts) {
+            if (other !== attempt) {
+              other.subscription?.unsubscribe();
+              other.controller.abort();
+            }
+          }
+
+          // Both attempts recorded their routing; report the winning one
+          const decision = getRoutingDecision(attempt.op);
+          if (decision) {
+            recordRoutingDecision(op, decision);
+          }
+
+          const reporter = getLatencies(policy.scope, policy.delay);
+          const durationMs = Date.now() - attempt.startedAt;
+          reporter.report({
+            path: op.path,
+            type: op.type,
+            router: getRouterName(op.path),
+            outcome: 'ok',
+            durationMs,
+            startedAt: attempt.startedAt,
+          });
+        };
+
+        const start = (avoidedEndpoint?: string) => {
+          // Each attempt gets a context of its own, so routing decisions do not mix,
+          // and a signal of its own, so the losing request can be aborted
+          const controller = new AbortController();
+          const attemptOp = { ...forkOperation(op), signal: controller.signal };
+          if (avoidedEndpoint !== undefined) {
+            setAvoidedEndpoints(attemptOp, [avoidedEndpoint]);
+          }
+          const attempt: Attempt = {
+            op: attemptOp,
+            controller,
+            startedAt: Date.now(),
+            failed: false,
+          };
+          attempts.push(attempt);
+
+          attempt.subscription = next(attemptOp).subscribe({
+            next(value) {
+              if (done || (winner && winner !== attempt)) {
+                return;
+              }
+              if (!winner) {
+                settleWinner(attempt);
+              }
+              observer.next(value);
+            },
+            error(err) {
+              if (done || (winner && winner !== attempt)) {
+                return;
+              }
+              attempt.failed = true;
+
+              // Another attempt may still answer
+              const pending = attempts.some((other) => !other.failed);
+              if (!winner && pending) {
+                return;
+              }
+              finish();
+              observer.error(err);
+            },
+            complete() {
+              if (done || (winner && winner !== attempt)) {
+                return;
+              }
+              if (!winner) {
+                settleWinner(attempt);
+              }
+              finish();
+              observer.complete();
+            },
+          });
+        };
+
+        start();
+
+        if (!done && !winner) {
+          const delayMs = getDelayMs(policy.scope, policy.delay);
+          hedgeTimer = setTimeout(() => {
+            if (done || winner || !takeBudget()) {
+              return;
+            }
+            const avoidedEndpoint = getRoutingDecision(attempts[0].op)?.endpoint;
+            onHedge?.({ op, delayMs: Date.now() - attempts[0].startedAt, avoidedEndpoint });
+            start(avoidedEndpoint);
+          }, delayMs);
+        }
+
+        return () => {
+          finish();
+          for (const attempt of attempts) {
+            attempt.subscription?.unsubscribe();
+          }
+        };
+      });
+    };
+  };
+}
+
+export type {
+  HedgeBudget,
+  HedgeEvent,
+  HedgeLinkOptions,
+  HedgePercentileDelay,
+  HedgePolicy,
+} from './types.js';
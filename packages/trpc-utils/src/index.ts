@@ -1,23 +1,173 @@
 // Links
 export { switchLink } from './switch-link';
+export { switchRules } from './switch-rules';
 export { endpointRouterLink, typedEndpointRouterLink } from './endpoint-router-link';
+export { circuitBreakerLink, createCircuitBreaker } from './circuit-breaker-link';
+export { retryLink } from './retry-link';
+export { metricsLink, createHistogramReporter } from './metrics-link';
+export {
+  tracingLink,
+  createInMemorySpanExporter,
+  getTraceHeaders,
+} from './tracing-link';
+export { dedupeLink } from './dedupe-link';
+export { cacheLink, createMemoryCacheStorage } from './cache-link';
+export { rateLimitLink } from './rate-limit-link';
+export { timeoutLink, getOperationDeadline } from './timeout-link';
+export { hedgeLink } from './hedge-link';
+export { createMockLink } from './mock-link';
+export { recordReplayLink, createMemoryFixtureStorage } from './record-replay-link';
+export { offlineQueueLink, createMemoryOfflineQueueStorage } from './offline-queue-link';
+
+// Errors
+export {
+  CircuitOpenError,
+  isCircuitOpenError,
+  RateLimitError,
+  isRateLimitError,
+  TimeoutError,
+  isTimeoutError,
+} from './errors';
 
 // Utilities
 export { createChain } from './create-chain';
+export { createEndpointRegistry } from './endpoint-registry';
+export { validateRouterMapping } from './validate-router-mapping';
+export { createRoutingTable, formatRoutingTable } from './routing-table';
+export { createLinkTestHarness } from './link-test-harness';
 
 // Types
 export type {
   // Core types
   RouterNames,
+  RouterPaths,
+  ProcedurePaths,
+  ProcedurePathsByType,
+  RouterPrefixes,
   RequiredRouterMapping,
   PartialRouterMapping,
   LinkFactory,
   LinkFactoryOptions,
   LinkOrLinks,
+  DisposableLink,
+  DisposableLinks,
+  LinkCacheOptions,
   // switchLink types
   SwitchLinkOptions,
   SwitchLinkSelectorContext,
+  SwitchRulesBuilder,
   // endpointRouterLink types
+  EndpointRouterLinkBaseOptions,
   EndpointRouterLinkOptions,
+  EndpointRule,
+  EndpointRuleMatcher,
+  EndpointTarget,
+  EndpointReplica,
+  ReplicaGroup,
+  LoadBalancingStrategy,
+  EndpointFailoverOptions,
+  EndpointHealthChange,
   TypedEndpointRouterLinkOptions,
+  EndpointUrl,
+  EndpointOverrideOptions,
+  EndpointOverrideContext,
+  EndpointTransportOptions,
+  EndpointSSEOptions,
+  // Endpoint registry types
+  EndpointMappingResolver,
+  EndpointMappingSource,
+  EndpointRegistry,
+  EndpointRegistryOptions,
+  ManagedEndpointRegistry,
+  // circuitBreakerLink types
+  CircuitBreaker,
+  CircuitBreakerLinkOptions,
+  CircuitBreakerOptions,
+  CircuitPermit,
+  CircuitState,
+  CircuitStateChange,
+  // retryLink types
+  RetryBudget,
+  RetryEvent,
+  RetryLinkOptions,
+  RetryPolicy,
+  // metricsLink types
+  HistogramReporter,
+  HistogramReporterOptions,
+  LatencyHistogram,
+  MetricsLinkOptions,
+  MetricsReporter,
+  OperationMetric,
+  OperationMetricFilter,
+  OperationOutcome,
+  RoutingDecision,
+  // tracingLink types
+  InMemorySpanExporter,
+  SpanAttributeValue,
+  SpanExporter,
+  TraceContext,
+  TraceSpan,
+  TracingLinkOptions,
+  // dedupeLink types
+  DedupeLinkOptions,
+  // cacheLink types
+  CacheInvalidationPrefix,
+  CacheLinkOptions,
+  CachedQueryResult,
+  CacheStorageAdapter,
+  MemoryCacheStorageOptions,
+  QueryCache,
+  // rateLimitLink types
+  RateLimit,
+  RateLimitLinkOptions,
+  // timeoutLink types
+  OperationDeadline,
+  TimeoutLinkOptions,
+  // hedgeLink types
+  HedgeBudget,
+  HedgeEvent,
+  HedgeLinkOptions,
+  HedgePercentileDelay,
+  HedgePolicy,
+  // createMockLink types
+  MockCallStatus,
+  MockLink,
+  MockLinkCall,
+  MockLinkOptions,
+  MockResponder,
+  MockResponse,
+  MockTRPCError,
+  // recordReplayLink types
+  FixtureStorageAdapter,
+  FixtureTransformer,
+  RecordedError,
+  RecordedFixture,
+  RecordedOperation,
+  RecordedOperationMatcher,
+  RecordReplayFixture,
+  RecordReplayLinkOptions,
+  RecordReplayMode,
+  // offlineQueueLink types
+  ConnectivitySignal,
+  OfflineConflict,
+  OfflineConflictResolution,
+  OfflineQueue,
+  OfflineQueueLinkOptions,
+  OfflineQueuePolicy,
+  OfflineQueueStorage,
+  QueuedMutation,
+  // createLinkTestHarness types
+  HarnessOperation,
+  HarnessOperationInput,
+  LinkTestHarness,
+  LinkTestHarnessOptions,
+  // validateRouterMapping types
+  RouterMappingDiagnostic,
+  RouterMappingReport,
+  RouterMappingSeverity,
+  ValidateRouterMappingOptions,
+  // Routing table types
+  RoutingSource,
+  RoutingTableOptions,
+  RoutingTableRow,
 } from './types.js';
@@ -0,0 +1,180 @@
+import type { OperationLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { unrefTimer } from './async-utils';
+import type { LinkCacheOptions } from './types';
+
+/**
+ * An initialized link chain for one endpoint, with an optional teardown
+ * (e.g. closing a WebSocket client).
+ * @internal
+ */
+export interface CachedChain<TRouter extends AnyRouter> {
+  links: OperationLink<TRouter>[];
+  dispose?: () => void;
+}
+
+/**
+ * A chain leased for one operation. `release` must be called when the
+ * operation ends; it is safe to call more than once.
+ * @internal
+ */
+export interface ChainLease<TRouter extends AnyRouter> {
+  links: OperationLink<TRouter>[];
+  release: () => void;
+}
+
+/**
+ * Per-endpoint cache of initialized link chains.
+ * @internal
+ */
+export interface LinkCache<TRouter extends AnyRouter> {
+  /** Returns the chain for an endpoint (creating it if needed) and marks it in use */
+  acquire(endpoint: string): ChainLease<TRouter>;
+  /** Endpoints with a cached chain */
+  keys(): string[];
+  /** Evicts an endpoint's chain; a chain in use is torn down once its operations end */
+  evict(endpoint: string): void;
+  /** Tears down every chain, including chains still in use */
+  dispose(): void;
+}
+
+interface CacheEntry<TRouter extends AnyRouter> extends CachedChain<TRouter> {
+  endpoint: string;
+  createdAt: number;
+  inFlight: number;
+  evicted: boolean;
+  disposed: boolean;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Creates a link chain cache with optional LRU size bound, TTL and idle eviction.
+ * Chains with operations in flight are never torn down early: they are removed from
+ * the cache so new operations get a fresh chain, and disposed when they go idle.
+ * @internal
+ */
+export function createLinkCache<TRouter extends AnyRouter>(opts: {
+  create: (endpoint: string) => CachedChain<TRouter>;
+  policy?: LinkCacheOptions;
+  /** Called when an endpoint's chain leaves the cache, e.g. to drop state kept for it */
+  onEvict?: (endpoint: string) => void;
+}): LinkCache<TRouter> {
+  const { onEvict } = opts;
+  const { maxSize = Number.POSITIVE_INFINITY, ttlMs, idleTimeoutMs } = opts.policy ?? {};
+
+  // Map iteration order doubles as LRU order: least recently used first
+  const entries = new Map<string, CacheEntry<TRouter>>();
+  // Every chain not yet torn down, including evicted chains still in use
+  const live = new Set<CacheEntry<TRouter>>();
+
+  const teardown = (entry: CacheEntry<TRouter>) => {
+    if (entry.disposed) {
+      return;
+    }
+    entry.disposed = true;
+    clearTimeout(entry.idleTimer);
+    live.delete(entry);
+    entry.dispose?.();
+  };
+
+  const evictEntry = (entry: CacheEntry<TRouter>) => {
+    if (entries.get(entry.endpoint) === entry) {
+      entries.delete(entry.endpoint);
+      onEvict?.(entry.endpoint);
+    }
+    entry.evicted = true;
+    if (entry.inFlight === 0) {
+      teardown(entry);
+    }
+  };
+
+  // Evicts least recently used idle chains until the cache fits
+  const enforceMaxSize = () => {
+    for (const entry of entries.values()) {
+      if (entries.size <= maxSize) {
+        return;
+      }
+      if (entry.inFlight === 0) {
+        evictEntry(entry);
+      }
+    }
+  };
+
+  const isExpired = (entry: CacheEntry<TRouter>) =>
+    ttlMs !== undefined && Date.now() - entry.createdAt >= ttlMs;
+
+  return {
+    acquire(endpoint) {
+      let entry = entries.get(endpoint);
+
+      if (entry && isExpired(entry)) {
+        evictEntry(entry);
+        entry = undefined;
+      }
+
+      if (entry) {
+        // Move to the most recently used position
+        entries.delete(endpoint);
+        entries.set(endpoint, entry);
+      } else {
+        entry = {
+          ...opts.create(endpoint),
+          endpoint,
+          createdAt: Date.now(),
+          inFlight: 0,
+          evicted: false,
+          disposed: false,
+        };
+        entries.set(endpoint, entry);
+        live.add(entry);
+      }
+
+      const current = entry;
+      current.inFlight++;
+      clearTimeout(current.idleTimer);
+      current.idleTimer = undefined;
+      enforceMaxSize();
+
+      let released = false;
+      return {
+        links: current.links,
+        release() {
+          if (released) {
+            return;
+          }
+          released = true;
+          current.inFlight--;
+
+          if (current.inFlight > 0 || current.disposed) {
+            return;
+          }
+          if (current.evicted) {
+            teardown(current);
+            return;
+          }
+
+          enforceMaxSize();
+          if (idleTimeoutMs !== undefined && !current.evicted) {
+            current.idleTimer = setTimeout(() => evictEntry(current), idleTimeoutMs);
+            unrefTimer(current.idleTimer);
+          }
+        },
+      };
+    },
+    keys() {
+      return Array.from(entries.keys());
+    },
+    evict(endpoint) {
+      const entry = entries.get(endpoint);
+      if (entry) {
+        evictEntry(entry);
+      }
+    },
+    dispose() {
+      entries.clear();
+      for (const entry of Array.from(live)) {
+        teardown(entry);
+      }
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import type { Operation, OperationLink, TRPCClientRuntime } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { createChain } from './create-chain';
+import { groupByBatch, listenToMockCalls } from './mock-link';
+import { getRoutingDecision } from './operation-context';
+import type {
+  HarnessOperation,
+  HarnessOperationInput,
+  LinkOrLinks,
+  LinkTestHarness,
+  LinkTestHarnessOptions,
+  MockLinkCall,
+} from './types';
+
+/**
+ * Creates a harness running operations through a link chain like a client
+ * would: the links are initialized once, so their state is shared between
+ * operations, and every operation goes through createChain.
+ *
+ * The chain ends with mock links (see createMockLink), directly or through
+ * a `linkFactory`; the harness records the calls of all of them, so tests can
+ * assert what each endpoint received, how operations were batched, which ones
+ * were aborted, and the routing decision taken for each operation.
+ *
+ * @example
+ * ```ts
+ * const harness = createLinkTestHarness<AppRouter>([
+ *   endpointRouterLink<AppRouter>({
+ *     routerToEndpoint: { users: ['/api/users-1', '/api/users-2'] },
+ *     linkFactory: (endpoint) =>
+ *       createMockLink({
+ *         name: endpoint,
+ *         responses: { users: endpoint.endsWith('-1') ? { error: 'down' } : { data: [] } },
+ *       }),
+ *   }),
+ * ]);
+ *
+ * const operation = harness.run({ path: 'users.list' });
+ * await expect(operation.result()).resolves.toEqual([]);
+ * expect(operation.routing?.endpoint).toBe('/api/users-2');
+ * expect(harness.callsTo('/api/users-1')).toHaveLength(1);
+ * ```
+ */
+export function createLinkTestHarness<TRouter extends AnyRouter>(
+  links: LinkOrLinks<TRouter>,
+  opts: LinkTestHarnessOptions = {}
+): LinkTestHarness<TRouter> {
+  // A runtime of the harness' own, so only the mock links of this chain report to it
+  const runtime: TRPCClientRuntime = { ...opts.runtime };
+  const calls: MockLinkCall[] = [];
+  listenToMockCalls(runtime, (call) => calls.push(call));
+
+  const operationLinks: OperationLink<TRouter>[] = (
+    Array.isArray(links) ? links : [links]
+  ).map((link) => link(runtime));
+
+  let lastId = 0;
+
+  const run = (input: HarnessOperationInput<TRouter>): HarnessOperation => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(input.signal?.reason);
+    if (input.signal?.aborted) {
+      onAbort();
+    } else {
+      input.signal?.addEventListener('abort', onAbort);
+    }
+
+    const op: Operation = {
+      id: ++lastId,
+      type: input.type ?? 'query',
+      path: input.path,
+      input: input.input,
+      context: { ...input.context },
+      signal: controller.signal,
+    };
+
+    // Settles result() promises, once the operation ended
+    const waiters: (() => void)[] = [];
+
+    const operation: HarnessOperation = {
+      op,
+      status: 'pending',
+      values: [],
+      get routing() {
+        return getRoutingDecision(op);
+      },
+      result: () =>
+        new Promise((resolve, reject) => {
+          const settle = () => {
+            if (operation.status === 'completed') {
+              resolve(operation.values[operation.values.length - 1]);
+            } else {
+              reject(operation.error ?? new Error('linkTestHarness: operation cancelled'));
+            }
+          };
+          if (operation.status === 'pending') {
+            waiters.push(settle);
+          } else {
+            settle();
+          }
+        }),
+      abort: (reason) => controller.abort(reason),
+      unsubscribe: () => {
+        subscription.unsubscribe();
+        end('cancelled');
+      },
+    };
+
+    const end = (status: HarnessOperation['status']) => {
+      if (operation.status !== 'pending') {
+        return;
+      }
+      operation.status = status;
+      input.signal?.removeEventListener('abort', onAbort);
+      for (const waiter of waiters.splice(0)) {
+        waiter();
+      }
+    };
+
+    const subscription = createChain({ links: operationLinks, op }).subscribe({
+      next(envelope) {
+        if (envelope.result.type === 'data') {
+          operation.values.push(envelope.result.data);
+        }
+      },
+      error(err) {
+        operation.error = err;
+        end(controller.signal.aborted ? 'cancelled' : 'failed');
+      },
+      complete() {
+        end('completed');
+      },
+    });
+
+    return operation;
+  };
+
+  return {
+    run,
+    query: (path, input, context) => run({ path, input, context }).result(),
+    mutation: (path, input, context) =>
+      run({ path, type: 'mutation', input, context }).result(),
+    calls,
+    callsTo: (link) => calls.filter((call) => call.link === link),
+    batches: (link) =>
+      groupByBatch(link === undefined ? calls : calls.filter((call) => call.link === link)),
+    reset: () => {
+      calls.length = 0;
+    },
+  };
+}
+
+export type {
+  HarnessOperation,
+  HarnessOperationInput,
+  LinkTestHarness,
+  LinkTestHarnessOptions,
+} from './types.js';
@@ -0,0 +1,78 @@
+import type { ReplicaGroup } from './types';
+
+/**
+ * Orders the replicas of a group for one operation: the replica picked by the
+ * strategy comes first, followed by the remaining eligible replicas (in declared
+ * order) as failover candidates, then the ineligible ones as a last resort.
+ * @internal
+ */
+export type ReplicaSelector = (isEligible: (endpoint: string) => boolean) => string[];
+
+/**
+ * Creates a selector implementing the group's load-balancing strategy.
+ * State (round-robin cursor, weighted counters) lives in the returned closure,
+ * so one selector should be created per replica group.
+ * @internal
+ */
+export function createReplicaSelector(
+  group: ReplicaGroup,
+  getInFlight: (endpoint: string) => number
+): ReplicaSelector {
+  const replicas = group.replicas.map((replica) =>
+    typeof replica === 'string'
+      ? { url: replica, weight: 1 }
+      : { url: replica.url, weight: replica.weight ?? 1 }
+  );
+  const strategy = group.strategy ?? 'round-robin';
+
+  let cursor = 0;
+  // Smooth weighted round-robin state, keyed by replica URL
+  const currentWeights = new Map<string, number>();
+
+  const pick = (pool: typeof replicas): (typeof replicas)[number] => {
+    switch (strategy) {
+      case 'random':
+        return pool[Math.floor(Math.random() * pool.length)];
+
+      case 'least-in-flight':
+        return pool.reduce((best, replica) =>
+          getInFlight(replica.url) < getInFlight(best.url) ? replica : best
+        );
+
+      case 'weighted': {
+        const totalWeight = pool.reduce((sum, replica) => sum + replica.weight, 0);
+        let best = pool[0];
+        for (const replica of pool) {
+          const weight = (currentWeights.get(replica.url) ?? 0) + replica.weight;
+          currentWeights.set(replica.url, weight);
+          if (weight > (currentWeights.get(best.url) ?? 0)) {
+            best = replica;
+          }
+        }
+        currentWeights.set(best.url, (currentWeights.get(best.url) ?? 0) - totalWeight);
+        return best;
+      }
+
+      default: {
+        const replica = pool[cursor % pool.length];
+        cursor = (cursor + 1) % Number.MAX_SAFE_INTEGER;
+        return replica;
+      }
+    }
+  };
+
+  return (isEligible) => {
+    if (replicas.length === 0) {
+      return [];
+    }
+
+    const eligible = replicas.filter((replica) => isEligible(replica.url));
+    const picked = pick(eligible.length > 0 ? eligible : replicas);
+
+    const rest = [
+      ...eligible.filter((replica) => replica !== picked),
+      ...replicas.filter((replica) => replica !== picked && !eligible.includes(replica)),
+    ];
+    return [picked.url, ...rest.map((replica) => replica.url)];
+  };
+}
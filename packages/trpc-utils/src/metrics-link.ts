@@ -0,0 +1,206 @@
+import { observable } from '@trpc/server/observable';
+import { isTRPCClientError, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { isNetworkError } from './endpoint-health';
+import { isCircuitOpenError, isRateLimitError, isTimeoutError } from './errors';
+import { getRouterName } from './path-matching';
+import { forkOperation, getRoutingDecision } from './operation-context';
+import type {
+  HistogramReporter,
+  HistogramReporterOptions,
+  LatencyHistogram,
+  MetricsLinkOptions,
+  OperationMetric,
+  OperationMetricFilter,
+} from './types';
+
+const DEFAULT_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10_000];
+
+/**
+ * Classifies an operation error for reporting.
+ */
+function getErrorCode(error: unknown): string {
+  if (isCircuitOpenError(error)) {
+    return 'CIRCUIT_OPEN';
+  }
+  if (isTimeoutError(error)) {
+    return 'TIMEOUT';
+  }
+  if (isRateLimitError(error)) {
+    return 'RATE_LIMITED';
+  }
+  if (isNetworkError(error)) {
+    return 'NETWORK_ERROR';
+  }
+
+  const code = isTRPCClientError(error)
+    ? (error.data as { code?: unknown } | undefined)?.code
+    : undefined;
+  return typeof code === 'string' ? code : 'UNKNOWN';
+}
+
+/**
+ * Creates a link that reports the duration and outcome of every operation,
+ * together with the endpoint or case chosen by endpointRouterLink and switchLink.
+ *
+ * Place it before the routing links so their decisions are visible. Reporter
+ * errors are swallowed so metrics can never break requests.
+ *
+ * @example
+ * ```ts
+ * const link = [
+ *   metricsLink({
+ *     reporter: {
+ *       report: ({ endpoint, outcome, durationMs }) =>
+ *         latency.observe({ endpoint, outcome }, durationMs),
+ *     },
+ *   }),
+ *   endpointRouterLink<AppRouter>({ routerToEndpoint }),
+ * ];
+ * ```
+ */
+export function metricsLink<TRouter extends AnyRouter>(
+  opts: MetricsLinkOptions
+): TRPCLink<TRouter> {
+  const { reporter } = opts;
+
+  return () => {
+    return ({ op, next }) => {
+      return observable((observer) => {
+        // A context object of its own, so routing decisions are tracked per operation
+        const trackedOp = forkOperation(op);
+        const startedAt = Date.now();
+        let reported = false;
+
+        const report = (outcome: OperationMetric['outcome'], error?: unknown) => {
+          if (reported) {
+            return;
+          }
+          reported = true;
+          op.signal?.removeEventListener('abort', onAbort);
+
+          try {
+            reporter.report({
+              path: op.path,
+              type: op.type,
+              router: getRouterName(op.path),
+              ...getRoutingDecision(trackedOp),
+              outcome,
+              errorCode: outcome === 'error' ? getErrorCode(error) : undefined,
+              durationMs: Date.now() - startedAt,
+              startedAt,
+            });
+          } catch {
+            // Metrics must never break the operation
+          }
+        };
+
+        const onAbort = () => report('aborted');
+        op.signal?.addEventListener('abort', onAbort);
+
+        const subscription = next(trackedOp).subscribe({
+          next(value) {
+            observer.next(value);
+          },
+          error(err) {
+            report(op.signal?.aborted ? 'aborted' : 'error', err);
+            observer.error(err);
+          },
+          complete() {
+            report('ok');
+            observer.complete();
+          },
+        });
+
+        return () => {
+          report('aborted');
+          subscription.unsubscribe();
+        };
+      });
+    };
+  };
+}
+
+/**
+ * Whether a metric matches every field of a filter.
+ */
+function matchesFilter(metric: OperationMetric, filter: OperationMetricFilter): boolean {
+  return Object.entries(filter).every(
+    ([field, value]) =>
+      value === undefined || metric[field as keyof OperationMetricFilter] === value
+  );
+}
+
+/**
+ * Creates an in-memory reporter that keeps every metric and computes latency
+ * histograms and percentiles on demand. Meant for tests and local debugging.
+ *
+ * @example
+ * ```ts
+ * const reporter = createHistogramReporter();
+ * const link = [metricsLink({ reporter }), endpointRouterLink({ routerToEndpoint })];
+ *
+ * // ...run operations
+ * expect(reporter.histogram({ endpoint: '/api/users', outcome: 'ok' }).count).toBe(3);
+ * ```
+ */
+export function createHistogramReporter(
+  opts: HistogramReporterOptions = {}
+): HistogramReporter {
+  const buckets = [...(opts.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  const maxMetrics = opts.maxMetrics ?? 10_000;
+  let metrics: OperationMetric[] = [];
+
+  const select = (filter: OperationMetricFilter = {}) =>
+    metrics.filter((metric) => matchesFilter(metric, filter));
+
+  return {
+    get metrics() {
+      return metrics;
+    },
+    report(metric) {
+      metrics.push(metric);
+      if (metrics.length > maxMetrics) {
+        metrics = metrics.slice(metrics.length - maxMetrics);
+      }
+    },
+    histogram(filter): LatencyHistogram {
+      const durations = select(filter).map((metric) => metric.durationMs);
+      return {
+        count: durations.length,
+        sumMs: durations.reduce((sum, duration) => sum + duration, 0),
+        buckets: buckets.map((le) => ({
+          le,
+          count: durations.filter((duration) => duration <= le).length,
+        })),
+      };
+    },
+    percentile(percentile, filter) {
+      const durations = select(filter)
+        .map((metric) => metric.durationMs)
+        .sort((a, b) => a - b);
+      if (durations.length === 0) {
+        return undefined;
+      }
+
+      // Nearest-rank percentile
+      const rank = Math.ceil((Math.min(Math.max(percentile, 0), 100) / 100) * durations.length);
+      return durations[Math.max(rank - 1, 0)];
+    },
+    reset() {
+      metrics = [];
+    },
+  };
+}
+
+export type {
+  HistogramReporter,
+  HistogramReporterOptions,
+  LatencyHistogram,
+  MetricsLinkOptions,
+  MetricsReporter,
+  OperationMetric,
+  OperationMetricFilter,
+  OperationOutcome,
+  RoutingDecision,
+} from './types.js';
@@ -0,0 +1,246 @@
+import { observable } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type TRPCLink } from '@trpc/client';
+import { TRPCError, type AnyRouter } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { TRPC_ERROR_CODES_BY_KEY } from '@trpc/server/rpc';
+import { matchLongestPrefix } from './path-matching';
+import type {
+  MockLink,
+  MockLinkCall,
+  MockLinkOptions,
+  MockResponder,
+  MockResponse,
+  MockTRPCError,
+} from './types';
+
+// Test harnesses listen to the calls of every mock link initialized with their
+// runtime, including the ones endpointRouterLink creates per endpoint
+const runtimeListeners = new WeakMap<object, (call: MockLinkCall) => void>();
+
+// Batch numbers are unique across mock links, so calls of several links can be
+// grouped together
+let lastBatch = 0;
+
+/**
+ * Reports the calls of every mock link initialized with `runtime` to `listener`.
+ * @internal
+ */
+export function listenToMockCalls(
+  runtime: object,
+  listener: (call: MockLinkCall) => void
+): void {
+  runtimeListeners.set(runtime, listener);
+}
+
+/**
+ * Groups the paths of calls by batch, in the order batches started.
+ * @internal
+ */
+export function groupByBatch(calls: readonly MockLinkCall[]): string[][] {
+  const batches = new Map<number, string[]>();
+  for (const call of calls) {
+    const paths = batches.get(call.batch) ?? [];
+    paths.push(call.op.path);
+    batches.set(call.batch, paths);
+  }
+  return [...batches.values()];
+}
+
+// Fails like fetch does when its signal aborts
+const createAbortError = () => {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return TRPCClientError.from(error);
+};
+
+// Strings and errors fail like the network does; tRPC errors carry their shape
+// like the responses of a server, so links tell them apart from network errors
+const toClientError = (error: Error | string | MockTRPCError, op: Operation) => {
+  if (typeof error === 'string') {
+    return TRPCClientError.from(new Error(error));
+  }
+  if (error instanceof Error) {
+    return TRPCClientError.from(error);
+  }
+  const { code, message = code, data } = error;
+  const httpStatus = error.httpStatus ?? getHTTPStatusCodeFromError(new TRPCError({ code }));
+  return TRPCClientError.from({
+    error: {
+      code: TRPC_ERROR_CODES_BY_KEY[code],
+      message,
+      data: { code, httpStatus, path: op.path, ...data },
+    },
+  });
+};
+
+/**
+ * Creates a terminating link answering with scripted responses instead of
+ * sending requests, and recording every operation it received: the operation
+ * as the links before it left it, its batch, and whether it was aborted.
+ *
+ * Operations received within the same tick share a batch, like the operations
+ * httpBatchLink sends in one request. A pending call fails with an AbortError
+ * when `op.signal` aborts, like fetch.
+ *
+ * @example
+ * ```ts
+ * const users = createMockLink<AppRouter>({
+ *   name: '/api/users',
+ *   responses: {
+ *     users: { data: [] },
+ *     'users.get': (op) => ({ data: { id: op.input } }),
+ *     // A tRPC error response, and a request failing like the network does
+ *     'users.remove': { error: { code: 'FORBIDDEN' }, delayMs: 50 },
+ *     'users.export': { error: 'fetch failed' },
+ *     'users.onChange': { stream: ['created', 'updated'], intervalMs: 10 },
+ *   },
+ * });
+ *
+ * const link = endpointRouterLink<AppRouter>({
+ *   routerToEndpoint: { users: '/api/users' },
+ *   linkFactory: () => users,
+ * });
+ * ```
+ */
+export function createMockLink<TRouter extends AnyRouter>(
+  opts: MockLinkOptions<TRouter> = {}
+): MockLink<TRouter> {
+  const { name = 'mock', fallback } = opts;
+  const responses: Record<string, MockResponder | undefined> = { ...opts.responses };
+  const calls: MockLinkCall[] = [];
+
+  // Batch of the current tick, closed once the tick ends
+  let currentBatch: number | undefined;
+
+  const takeBatch = () => {
+    if (currentBatch === undefined) {
+      currentBatch = ++lastBatch;
+      queueMicrotask(() => {
+        currentBatch = undefined;
+      });
+    }
+    return currentBatch;
+  };
+
+  const getResponse = (op: Operation): MockResponse => {
+    const responder = matchLongestPrefix(responses, op.path)?.value ?? fallback;
+    if (!responder) {
+      return { error: `mockLink: no response scripted for "${op.path}"` };
+    }
+    return typeof responder === 'function' ? responder(op) : responder;
+  };
+
+  const link: TRPCLink<TRouter> = (runtime) => {
+    const listener = runtimeListeners.get(runtime);
+
+    return ({ op }) => {
+      return observable((observer) => {
+        const call: MockLinkCall = {
+          link: name,
+          op,
+          batch: takeBatch(),
+          status: 'pending',
+          aborted: false,
+        };
+        calls.push(call);
+        listener?.(call);
+
+        const timers: ReturnType<typeof setTimeout>[] = [];
+
+        const cleanup = () => {
+          for (const timer of timers) {
+            clearTimeout(timer);
+          }
+          op.signal?.removeEventListener('abort', onAbort);
+        };
+
+        const settle = (status: MockLinkCall['status']) => {
+          call.status = status;
+          cleanup();
+        };
+
+        const onAbort = () => {
+          call.aborted = true;
+          settle('cancelled');
+          observer.error(createAbortError());
+        };
+
+        if (op.signal?.aborted) {
+          onAbort();
+          return () => {};
+        }
+        op.signal?.addEventListener('abort', onAbort);
+
+        const response = getResponse(op);
+        const later = (delayMs: number | undefined, callback: () => void) => {
+          if (delayMs === undefined) {
+            callback();
+          } else {
+            timers.push(setTimeout(callback, delayMs));
+          }
+        };
+
+        if ('data' in response) {
+          later(response.delayMs, () => {
+            settle('completed');
+            observer.next({ result: { type: 'data', data: response.data } });
+            observer.complete();
+          });
+        } else if ('error' in response) {
+          later(response.delayMs, () => {
+            settle('failed');
+            observer.error(toClientError(response.error, op));
+          });
+        } else if ('stream' in response) {
+          const { stream, intervalMs, keepOpen = false } = response;
+          const emit = (index: number) => {
+            if (index >= stream.length) {
+              if (!keepOpen) {
+                settle('completed');
+                observer.complete();
+              }
+              return;
+            }
+            observer.next({ result: { type: 'data', data: stream[index] } });
+            later(intervalMs, () => emit(index + 1));
+          };
+
+          later(response.delayMs, () => {
+            if (op.type === 'subscription') {
+              observer.next({ result: { type: 'started' } });
+            }
+            emit(0);
+          });
+        }
+
+        return () => {
+          if (call.status === 'pending') {
+            settle('cancelled');
+          }
+          cleanup();
+        };
+      });
+    };
+  };
+
+  return Object.assign(link, {
+    calls,
+    batches: () => groupByBatch(calls),
+    respond: (path: string, responder: MockResponder) => {
+      responses[path] = responder;
+    },
+    reset: () => {
+      calls.length = 0;
+    },
+  });
+}
+
+export type {
+  MockCallStatus,
+  MockLink,
+  MockLinkCall,
+  MockLinkOptions,
+  MockResponder,
+  MockResponse,
+  MockTRPCError,
+} from './types.js';
@@ -0,0 +1,531 @@
+import { observable, type Observer, type Unsubscribable } from '@trpc/server/observable';
+import type {
+  Operation,
+  OperationResultEnvelope,
+  OperationResultObservable,
+  TRPCClientError,
+  TRPCLink,
+} from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { callStorage, unrefTimer } from './async-utils';
+import { isNetworkError } from './endpoint-health';
+import { getRouterName, matchLongestPrefix } from './path-matching';
+import type {
+  DisposableLink,
+  OfflineConflictResolution,
+  OfflineQueue,
+  OfflineQueueLinkOptions,
+  OfflineQueuePolicy,
+  OfflineQueueStorage,
+  QueuedMutation,
+} from './types';
+
+type OperationObserver<TRouter extends AnyRouter> = Observer<
+  OperationResultEnvelope<unknown, TRPCClientError<TRouter>>,
+  TRPCClientError<TRouter>
+>;
+
+/**
+ * Callers waiting for a queued mutation, with the operation they issued.
+ */
+interface Waiter<TRouter extends AnyRouter> {
+  op: Operation;
+  observers: Set<OperationObserver<TRouter>>;
+}
+
+/**
+ * Creates the default offlineQueueLink storage, keeping the queue in memory.
+ * Implement OfflineQueueStorage over IndexedDB or the filesystem for a queue
+ * surviving reloads.
+ *
+ * @example
+ * ```ts
+ * const link = offlineQueueLink({ storage: createMemoryOfflineQueueStorage() });
+ * ```
+ */
+export function createMemoryOfflineQueueStorage(): OfflineQueueStorage {
+  const mutations = new Map<string, QueuedMutation>();
+
+  return {
+    get(id) {
+      return mutations.get(id);
+    },
+    set(id, mutation) {
+      mutations.set(id, mutation);
+    },
+    delete(id) {
+      mutations.delete(id);
+    },
+    keys() {
+      return Array.from(mutations.keys());
+    },
+  };
+}
+
+/**
+ * Creates a link that queues mutations while the device is offline, persists
+ * them to `storage`, and replays them once connectivity returns.
+ *
+ * A mutation is queued when the link considers the device offline, when it
+ * fails with a network-level error, or when mutations of its router are already
+ * queued, so each router's mutations replay in the order they were issued.
+ * Connectivity comes from the `connectivity` signal when given; otherwise a
+ * network-level error means offline, and a successful operation means online.
+ * While offline, the queue is replayed every `retryDelayMs`.
+ *
+ * Queued mutations stay pending until replayed, or resolve right away with the
+ * `optimistic` option. A mutation with the `dedupeKey` of a queued one replaces
+ * it. When the server rejects a replayed mutation, `onConflict` decides whether
+ * to drop it, retry it later or resend it with another input. Unsubscribing
+ * from a queued mutation does not remove it from the queue. Mutations restored
+ * from storage replay once the first operation went through the link.
+ *
+ * Place it before endpointRouterLink and retryLink, so failures are only seen
+ * once the endpoints and retries were exhausted.
+ *
+ * @example
+ * ```ts
+ * const link = [
+ *   offlineQueueLink<AppRouter>({
+ *     storage: indexedDbQueueStorage,
+ *     connectivity: {
+ *       isOnline: () => navigator.onLine,
+ *       subscribe: (listener) => {
+ *         const online = () => listener(true);
+ *         const offline = () => listener(false);
+ *         window.addEventListener('online', online);
+ *         window.addEventListener('offline', offline);
+ *         return () => {
+ *           window.removeEventListener('online', online);
+ *           window.removeEventListener('offline', offline);
+ *         };
+ *       },
+ *     },
+ *     routers: {
+ *       inspections: {
+ *         optimistic: true,
+ *         dedupeKey: (op) => `draft:${(op.input as { id: string }).id}`,
+ *       },
+ *       photos: true,
+ *     },
+ *     onConflict: ({ error }) => (isVersionConflict(error) ? 'drop' : 'retry'),
+ *   }),
+ *   endpointRouterLink<AppRouter>({ routerToEndpoint }),
+ * ];
+ * ```
+ */
+export function offlineQueueLink<TRouter extends AnyRouter>(
+  opts: OfflineQueueLinkOptions<TRouter> = {}
+): DisposableLink<TRouter> & { queue: OfflineQueue } {
+  const {
+    storage = createMemoryOfflineQueueStorage(),
+    connectivity,
+    routers,
+    contextKeys = [],
+    retryDelayMs = 5000,
+    onConflict,
+    ...basePolicy
+  } = opts;
+
+  // Queued mutations, in sequence order, and the callers waiting for them
+  const mutations: QueuedMutation[] = [];
+  const waiters = new Map<string, Waiter<TRouter>>();
+  const inFlight = new Set<string>();
+  let lastSequence = 0;
+
+  let online = connectivity?.isOnline() ?? true;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  // Running replays, per router
+  const flushing = new Map<string, Promise<void>>();
+  // Any `next` of the chain runs the rest of it, so replays use the latest one
+  let sendNext: ((op: Operation) => OperationResultObservable<TRouter, unknown>) | undefined;
+
+  // The persisted queue loads once, when the link is created
+  let loaded = false;
+  const onLoaded: (() => void)[] = [];
+  const whenLoaded = (callback: () => void) => {
+    if (loaded) {
+      callback();
+    } else {
+      onLoaded.push(callback);
+    }
+  };
+
+  callStorage(
+    () => storage.keys(),
+    (ids = []) => {
+      const restored: QueuedMutation[] = [];
+      const finish = () => {
+        restored.sort((a, b) => a.sequence - b.sequence);
+        mutations.push(...restored);
+        lastSequence = restored.reduce(
+          (max, { sequence }) => Math.max(max, sequence),
+          lastSequence
+        );
+        loaded = true;
+        for (const callback of onLoaded.splice(0)) {
+          callback();
+        }
+      };
+
+      let remaining = ids.length;
+      if (remaining === 0) {
+        finish();
+        return;
+      }
+      for (const id of ids) {
+        callStorage(
+          () => storage.get(id),
+          (mutation) => {
+            if (mutation) {
+              restored.push(mutation);
+            }
+            if (--remaining === 0) {
+              finish();
+            }
+          }
+        );
+      }
+    }
+  );
+
+  const persist = (mutation: QueuedMutation) => {
+    callStorage(() => storage.set(mutation.id, mutation), () => {});
+  };
+
+  const remove = (mutation: QueuedMutation) => {
+    const index = mutations.indexOf(mutation);
+    if (index !== -1) {
+      mutations.splice(index, 1);
+    }
+    callStorage(() => storage.delete(mutation.id), () => {});
+  };
+
+  const getPolicy = (path: string): OfflineQueuePolicy | undefined => {
+    if (!routers) {
+      return basePolicy;
+    }
+    const match = matchLongestPrefix(
+      routers as Record<string, boolean | OfflineQueuePolicy | undefined>,
+      path
+    );
+    if (!match || match.value === false) {
+      return undefined;
+    }
+    return { ...basePolicy, ...(match.value === true ? {} : match.value) };
+  };
+
+  const hasQueued = (router: string) =>
+    mutations.some(({ path }) => getRouterName(path) === router);
+
+  const scheduleRetry = () => {
+    // With a connectivity signal, replays wait for it to report online
+    if (retryTimer || mutations.length === 0 || connectivity?.isOnline() === false) {
+      return;
+    }
+    retryTimer = setTimeout(() => {
+      retryTimer = undefined;
+      void flush();
+    }, retryDelayMs);
+    unrefTimer(retryTimer);
+  };
+
+  const settleWaiters = (
+    mutation: QueuedMutation,
+    settle: (observer: OperationObserver<TRouter>) => void
+  ) => {
+    const waiter = waiters.get(mutation.id);
+    waiters.delete(mutation.id);
+    for (const observer of waiter?.observers ?? []) {
+      settle(observer);
+    }
+  };
+
+  // Replays a mutation; resolves with whether the next one of its router can follow
+  const replay = async (
+    mutation: QueuedMutation,
+    send: NonNullable<typeof sendNext>
+  ): Promise<boolean> => {
+    const waiter = waiters.get(mutation.id);
+    const op: Operation = {
+      id: waiter?.op.id ?? mutation.sequence,
+      type: 'mutation',
+      path: mutation.path,
+      context: waiter?.op.context ?? { ...mutation.context },
+      input: mutation.input,
+      // Callers leaving do not cancel queued mutations
+      signal: null,
+    };
+
+    inFlight.add(mutation.id);
+    mutation.attempts++;
+    persist(mutation);
+
+    const results: OperationResultEnvelope<unknown, TRPCClientError<TRouter>>[] = [];
+    const error = await new Promise<TRPCClientError<TRouter> | undefined>((resolve) => {
+      send(op).subscribe({
+        next(value) {
+          results.push(value);
+        },
+        error: resolve,
+        complete() {
+          resolve(undefined);
+        },
+      });
+    });
+    inFlight.delete(mutation.id);
+
+    if (!error) {
+      online = true;
+      remove(mutation);
+      settleWaiters(mutation, (observer) => {
+        for (const result of results) {
+          observer.next(result);
+        }
+        observer.complete();
+      });
+      return true;
+    }
+
+    if (isNetworkError(error)) {
+      online = false;
+      return false;
+    }
+
+    let resolution: OfflineConflictResolution = 'drop';
+    try {
+      resolution = (await onConflict?.({ mutation, error })) ?? 'drop';
+    } catch {
+      // A failing conflict handler drops the mutation
+    }
+
+    if (resolution === 'retry') {
+      return false;
+    }
+    if (resolution === 'drop') {
+      remove(mutation);
+      settleWaiters(mutation, (observer) => observer.error(error));
+      return true;
+    }
+    mutation.input = resolution.input;
+    persist(mutation);
+    return true;
+  };
+
+  const flushRouter = (router: string): Promise<void> => {
+    const running = flushing.get(router);
+    if (running) {
+      return running;
+    }
+
+    const run = (async () => {
+      for (;;) {
+        const mutation = mutations.find(({ path }) => getRouterName(path) === router);
+        if (!mutation || !sendNext) {
+          return;
+        }
+        let proceed = false;
+        try {
+          proceed = await replay(mutation, sendNext);
+        } catch {
+          // The mutation stays queued, and is replayed again later
+          inFlight.delete(mutation.id);
+        }
+        if (!proceed) {
+          scheduleRetry();
+          return;
+        }
+      }
+    })().finally(() => {
+      flushing.delete(router);
+    });
+    flushing.set(router, run);
+    return run;
+  };
+
+  const flush = async (): Promise<void> => {
+    const queuedRouters = new Set(mutations.map(({ path }) => getRouterName(path)));
+    await Promise.all(Array.from(queuedRouters, flushRouter));
+  };
+
+  const markOnline = () => {
+    // A connectivity signal reporting offline has the last word
+    if (!online && connectivity?.isOnline() !== false) {
+      online = true;
+      void flush();
+    }
+  };
+
+  const unsubscribeConnectivity = connectivity?.subscribe((value) => {
+    online = value;
+    if (value) {
+      clearTimeout(retryTimer);
+      retryTimer = undefined;
+      void flush();
+    }
+  });
+
+  const enqueue = (
+    op: Operation,
+    policy: OfflineQueuePolicy,
+    observer: OperationObserver<TRouter>
+  ): QueuedMutation => {
+    const router = getRouterName(op.path);
+    const dedupeKey = policy.dedupeKey?.(op);
+    const observers = new Set<OperationObserver<TRouter>>();
+
+    if (dedupeKey !== undefined) {
+      const superseded = mutations.find(
+        (queued) =>
+          queued.dedupeKey === dedupeKey &&
+          getRouterName(queued.path) === router &&
+          !inFlight.has(queued.id)
+      );
+      if (superseded) {
+        // Callers of the superseded mutation get the result of the new one
+        remove(superseded);
+        for (const waiting of waiters.get(superseded.id)?.observers ?? []) {
+          observers.add(waiting);
+        }
+        waiters.delete(superseded.id);
+      }
+    }
+
+    const context: Record<string, unknown> = {};
+    for (const key of contextKeys) {
+      if (op.context[key] !== undefined) {
+        context[key] = op.context[key];
+      }
+    }
+
+    const sequence = ++lastSequence;
+    const mutation: QueuedMutation = {
+      id: String(sequence),
+      sequence,
+      path: op.path,
+      input: op.input,
+      ...(contextKeys.length > 0 ? { context } : {}),
+      ...(dedupeKey !== undefined ? { dedupeKey } : {}),
+      queuedAt: Date.now(),
+      attempts: 0,
+    };
+    mutations.push(mutation);
+    persist(mutation);
+
+    const { optimistic = false } = policy;
+    if (optimistic === false) {
+      observers.add(observer);
+    } else {
+      const data = optimistic === true ? undefined : optimistic(op);
+      observer.next({ result: { type: 'data', data } });
+      observer.complete();
+    }
+    waiters.set(mutation.id, { op, observers });
+
+    if (online) {
+      void flushRouter(router);
+    } else {
+      scheduleRetry();
+    }
+    return mutation;
+  };
+
+  const link: TRPCLink<TRouter> = () => {
+    return ({ op, next }) => {
+      const isFirst = !sendNext;
+      sendNext = next;
+      if (isFirst) {
+        // Mutations restored from storage wait for the chain to replay them
+        whenLoaded(() => {
+          if (online) {
+            void flush();
+          } else {
+            scheduleRetry();
+          }
+        });
+      }
+
+      return observable((observer) => {
+        const policy = op.type === 'mutation' ? getPolicy(op.path) : undefined;
+        let subscription: Unsubscribable | undefined;
+        let queued: QueuedMutation | undefined;
+        let closed = false;
+
+        const send = (onNetworkError?: () => void) => {
+          subscription = next(op).subscribe({
+            next(value) {
+              observer.next(value);
+            },
+            error(err) {
+              if (isNetworkError(err) && !op.signal?.aborted) {
+                online = false;
+                if (onNetworkError) {
+                  onNetworkError();
+                  return;
+                }
+              }
+              observer.error(err);
+            },
+            complete() {
+              markOnline();
+              observer.complete();
+            },
+          });
+        };
+
+        if (!policy) {
+          send();
+        } else {
+          whenLoaded(() => {
+            if (closed) {
+              return;
+            }
+            const queue = () => {
+              queued = enqueue(op, policy, observer);
+            };
+            if (!online || hasQueued(getRouterName(op.path))) {
+              queue();
+            } else {
+              send(queue);
+            }
+          });
+        }
+
+        return () => {
+          closed = true;
+          subscription?.unsubscribe();
+          if (queued) {
+            waiters.get(queued.id)?.observers.delete(observer);
+          }
+        };
+      });
+    };
+  };
+
+  const dispose = () => {
+    unsubscribeConnectivity?.();
+    clearTimeout(retryTimer);
+    retryTimer = undefined;
+  };
+
+  const queue: OfflineQueue = {
+    get online() {
+      return online;
+    },
+    mutations,
+    flush,
+  };
+
+  return Object.assign(link, { queue, dispose, [Symbol.dispose]: dispose });
+}
+
+export type {
+  ConnectivitySignal,
+  OfflineConflict,
+  OfflineConflictResolution,
+  OfflineQueue,
+  OfflineQueueLinkOptions,
+  OfflineQueuePolicy,
+  OfflineQueueStorage,
+  QueuedMutation,
+} from './types.js';
@@ -0,0 +1,120 @@
+import type { Operation } from '@trpc/client';
+import type { OperationDeadline, RoutingDecision, TraceContext } from './types';
+
+// Per-operation state is keyed by the operation context, which links forward
+// unchanged down the chain. Links that track operations (metricsLink, tracingLink)
+// fork the context so state never mixes between operations sharing a context
+// object; forks remember their parent so state crosses fork boundaries.
+const parents = new WeakMap<object, object>();
+const decisions = new WeakMap<object, RoutingDecision>();
+const traceContexts = new WeakMap<object, TraceContext>();
+const deadlines = new WeakMap<object, OperationDeadline>();
+const avoidedEndpoints = new WeakMap<object, readonly string[]>();
+
+/**
+ * Lists a context and the contexts it was forked from, innermost first.
+ */
+function getLineage(context: object): object[] {
+  const lineage: object[] = [];
+  for (let current: object | undefined = context; current; current = parents.get(current)) {
+    lineage.push(current);
+  }
+  return lineage;
+}
+
+/**
+ * Returns a copy of the operation with a context object of its own.
+ * @internal
+ */
+export function forkOperation(op: Operation): Operation {
+  const context = { ...op.context };
+  parents.set(context, op.context);
+  return { ...op, context };
+}
+
+/**
+ * Records (part of) the routing decision taken for an operation, making it
+ * visible to every link that forked the operation before.
+ * @internal
+ */
+export function recordRoutingDecision(op: Operation, decision: RoutingDecision): void {
+  for (const context of getLineage(op.context)) {
+    decisions.set(context, { ...decisions.get(context), ...decision });
+  }
+}
+
+/**
+ * Reads the routing decision recorded for an operation, if any.
+ * @internal
+ */
+export function getRoutingDecision(op: Operation): RoutingDecision | undefined {
+  return decisions.get(op.context);
+}
+
+/**
+ * Attaches the trace context of the span wrapping an operation.
+ * @internal
+ */
+export function setTraceContext(op: Operation, traceContext: TraceContext): void {
+  traceContexts.set(op.context, traceContext);
+}
+
+/**
+ * Reads the trace context of the innermost span wrapping an operation, if any.
+ * @internal
+ */
+export function getTraceContext(op: Operation): TraceContext | undefined {
+  for (const context of getLineage(op.context)) {
+    const traceContext = traceContexts.get(context);
+    if (traceContext) {
+      return traceContext;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Attaches the deadline a timeoutLink applied to an operation.
+ * @internal
+ */
+export function setDeadline(op: Operation, deadline: OperationDeadline): void {
+  deadlines.set(op.context, deadline);
+}
+
+/**
+ * Reads the earliest deadline applied to an operation by the links before, if any.
+ * @internal
+ */
+export function getDeadline(op: Operation): OperationDeadline | undefined {
+  let earliest: OperationDeadline | undefined;
+  for (const context of getLineage(op.context)) {
+    const deadline = deadlines.get(context);
+    if (deadline && (!earliest || deadline.deadline < earliest.deadline)) {
+      earliest = deadline;
+    }
+  }
+  return earliest;
+}
+
+/**
+ * Asks endpointRouterLink to prefer other endpoints than these for an operation,
+ * e.g. to send a hedge to a different replica than the first attempt.
+ * @internal
+ */
+export function setAvoidedEndpoints(op: Operation, endpoints: readonly string[]): void {
+  avoidedEndpoints.set(op.context, endpoints);
+}
+
+/**
+ * Reads the endpoints an operation should preferably not be sent to.
+ * @internal
+ */
+export function getAvoidedEndpoints(op: Operation): readonly string[] {
+  for (const context of getLineage(op.context)) {
+    const endpoints = avoidedEndpoints.get(context);
+    if (endpoints) {
+      return endpoints;
+    }
+  }
+  return [];
+}
@@ -0,0 +1,75 @@
+import type { Operation } from '@trpc/client';
+
+/**
+ * Serializes a value to JSON with object keys sorted, so inputs that differ only
+ * in key order serialize identically. Returns undefined for values JSON cannot
+ * represent faithfully: BigInt, circular structures, and objects other than
+ * object literals, arrays and dates (a Map or a Set would serialize to `{}`).
+ * @internal
+ */
+export function stableStringify(value: unknown): string | undefined {
+  try {
+    return (
+      JSON.stringify(value, function (this: Record<string, unknown>, key, current: unknown) {
+        // The holder has the value as it was before toJSON, e.g. a Date
+        const original = this[key];
+        if (
+          typeof original === 'object' &&
+          original !== null &&
+          !Array.isArray(original) &&
+          !(original instanceof Date) &&
+          !isPlainObject(original)
+        ) {
+          throw new TypeError('not serializable');
+        }
+        if (!isPlainObject(current)) {
+          return current;
+        }
+        const sorted: Record<string, unknown> = {};
+        for (const key of Object.keys(current).sort()) {
+          sorted[key] = current[key];
+        }
+        return sorted;
+      }) ?? 'undefined'
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a value is an object literal (or created with a null prototype).
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Builds the key identifying an operation: its path, its serialized input and an
+ * optional caller-provided context key, as `<path>?<json>`. Returns undefined when
+ * the input cannot be serialized.
+ * @internal
+ */
+export function getOperationKey(
+  op: Operation,
+  contextKey?: (context: Operation['context']) => string | undefined
+): string | undefined {
+  const input = stableStringify(op.input);
+  if (input === undefined) {
+    return undefined;
+  }
+  return `${op.path}?${JSON.stringify([input, contextKey?.(op.context) ?? null])}`;
+}
+
+/**
+ * Reads the procedure path back from an operation key.
+ * @internal
+ */
+export function getOperationKeyPath(key: string): string {
+  const separator = key.indexOf('?');
+  return separator === -1 ? key : key.slice(0, separator);
+}
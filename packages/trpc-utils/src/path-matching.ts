@@ -0,0 +1,92 @@
+/**
+ * Runtime helpers for matching procedure paths against router keys.
+ */
+
+/**
+ * Extracts the top-level router name from a procedure path.
+ * "users.getAll" -> "users"
+ */
+export function getRouterName(path: string): string {
+  return path.split('.')[0];
+}
+
+/**
+ * Lists every dotted prefix of a procedure path, longest first.
+ * "billing.payouts.list" -> ["billing.payouts.list", "billing.payouts", "billing"]
+ */
+export function getPathPrefixes(path: string): string[] {
+  const segments = path.split('.');
+  const prefixes: string[] = [];
+
+  for (let length = segments.length; length > 0; length--) {
+    prefixes.push(segments.slice(0, length).join('.'));
+  }
+
+  return prefixes;
+}
+
+/**
+ * Finds the mapping entry whose key is the longest dotted prefix of `path`.
+ * Keys may be router names ("billing"), nested routers ("billing.payouts")
+ * or full procedure paths ("users.uploadAvatar").
+ */
+export function matchLongestPrefix<T>(
+  mapping: Record<string, T>,
+  path: string
+): { key: string; value: T } | undefined {
+  for (const prefix of getPathPrefixes(path)) {
+    // Own properties only, so paths like "constructor.get" never hit the prototype
+    const value = Object.getOwnPropertyDescriptor(mapping, prefix)?.value as
+      | T
+      | undefined;
+
+    if (value !== undefined) {
+      return { key: prefix, value };
+    }
+  }
+
+  return undefined;
+}
+
+const REGEX_SPECIAL_CHARS = /[.+?^${}()|[\]\\]/g;
+
+/**
+ * Converts a glob over procedure paths to an anchored regular expression.
+ * `*` matches within a single path segment, `**` matches across segments.
+ * "admin.*.export*" matches "admin.users.exportCsv" but not "admin.exportCsv".
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '*') {
+      if (pattern[index + 1] === '*') {
+        source += '.*';
+        index++;
+      } else {
+        source += '[^.]*';
+      }
+    } else {
+      source += char.replace(REGEX_SPECIAL_CHARS, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Creates a predicate that tests procedure paths against a glob or regex.
+ */
+export function createPathMatcher(
+  pattern: string | RegExp
+): (path: string) => boolean {
+  const regex = typeof pattern === 'string' ? globToRegExp(pattern) : pattern;
+
+  return (path) => {
+    // Reset stateful (global/sticky) regexes so repeated tests are consistent
+    regex.lastIndex = 0;
+    return regex.test(path);
+  };
+}
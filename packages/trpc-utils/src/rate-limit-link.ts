@@ -0,0 +1,261 @@
+import { observable, type Unsubscribable } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { unrefTimer } from './async-utils';
+import { RateLimitError } from './errors';
+import { matchLongestPrefix } from './path-matching';
+import type { RateLimit, RateLimitLinkOptions } from './types';
+
+interface QueuedOperation {
+  priority: number;
+  start: () => void;
+}
+
+/**
+ * A place in a limiter. `cancel` leaves the queue (or frees the slot once started);
+ * it is safe to call more than once.
+ */
+interface LimiterTicket {
+  cancel: () => void;
+}
+
+/**
+ * Token bucket, concurrency cap and queue for one group of operations.
+ */
+interface Limiter {
+  /**
+   * Calls `start` as soon as the limits allow it, possibly synchronously.
+   * Returns undefined when the queue is full.
+   */
+  acquire: (
+    op: Operation,
+    start: (ticket: LimiterTicket) => void
+  ) => LimiterTicket | undefined;
+}
+
+/**
+ * Whether any limit is set, i.e. whether operations can ever wait.
+ */
+function isLimited(limit: RateLimit): boolean {
+  return limit.tokensPerInterval !== undefined || limit.maxConcurrent !== undefined;
+}
+
+/**
+ * Creates the limiter of one group of operations. Tokens refill continuously,
+ * so a rate of 10 per second lets an operation through every 100ms once the
+ * burst is spent.
+ */
+function createLimiter(limit: RateLimit): Limiter {
+  const {
+    tokensPerInterval,
+    intervalMs = 1000,
+    burst = tokensPerInterval,
+    maxConcurrent = Number.POSITIVE_INFINITY,
+    maxQueueSize = Number.POSITIVE_INFINITY,
+    priority,
+  } = limit;
+
+  const capacity = burst ?? Number.POSITIVE_INFINITY;
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  let inFlight = 0;
+  // Sorted by priority, highest first; FIFO among equal priorities
+  const queue: QueuedOperation[] = [];
+  let drainTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const refill = () => {
+    if (tokensPerInterval === undefined) {
+      return;
+    }
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) * tokensPerInterval) / intervalMs);
+    refilledAt = now;
+  };
+
+  const canStart = () => {
+    refill();
+    return inFlight < maxConcurrent && (tokensPerInterval === undefined || tokens >= 1);
+  };
+
+  const take = () => {
+    if (tokensPerInterval !== undefined) {
+      tokens -= 1;
+    }
+    inFlight++;
+  };
+
+  const drain = () => {
+    clearTimeout(drainTimer);
+    drainTimer = undefined;
+
+    while (queue.length > 0 && canStart()) {
+      const queued = queue.shift() as QueuedOperation;
+      take();
+      queued.start();
+    }
+
+    // Concurrency slots free up on release; tokens need a timer. Operations started
+    // above may have drained the queue again, and scheduled a timer of their own.
+    if (queue.length > 0 && inFlight < maxConcurrent && tokensPerInterval !== undefined) {
+      clearTimeout(drainTimer);
+      drainTimer = setTimeout(drain, ((1 - tokens) * intervalMs) / tokensPerInterval);
+      unrefTimer(drainTimer);
+    }
+  };
+
+  const release = () => {
+    inFlight--;
+    drain();
+  };
+
+  return {
+    acquire(op, start) {
+      let state: 'queued' | 'started' | 'done' = 'queued';
+      let queued: QueuedOperation | undefined;
+
+      const ticket: LimiterTicket = {
+        cancel() {
+          if (state === 'queued' && queued) {
+            queue.splice(queue.indexOf(queued), 1);
+          } else if (state === 'started') {
+            release();
+          }
+          state = 'done';
+        },
+      };
+      const begin = () => {
+        state = 'started';
+        start(ticket);
+      };
+
+      if (queue.length === 0 && canStart()) {
+        take();
+        begin();
+        return ticket;
+      }
+      if (queue.length >= maxQueueSize) {
+        return undefined;
+      }
+
+      const entry = { priority: priority?.(op) ?? 0, start: begin };
+      const index = queue.findIndex((other) => other.priority < entry.priority);
+      queue.splice(index === -1 ? queue.length : index, 0, entry);
+      queued = entry;
+      drain();
+      return ticket;
+    },
+  };
+}
+
+/**
+ * Creates a link that caps how fast and how many operations reach an upstream
+ * service: a token bucket (`tokensPerInterval`, `burst`) and a concurrency cap
+ * (`maxConcurrent`). Operations over the limits wait in a FIFO queue, or in
+ * priority order with `priority`. Each `routers` key is a separate pool with a
+ * bucket, cap and queue of its own: the top-level limits are per-pool defaults,
+ * not a cap over all operations.
+ *
+ * Rejections are TRPCClientErrors whose `cause` is a RateLimitError: when the
+ * queue holds `maxQueueSize` operations already, or when `op.signal` aborts
+ * while the operation waits. A full queue counts as a network-level error, so
+ * endpointRouterLink failover moves on to the next endpoint.
+ *
+ * Place it in a `linkFactory` chain to limit each endpoint separately.
+ *
+ * @example
+ * ```ts
+ * const link = endpointRouterLink<AppRouter>({
+ *   routerToEndpoint,
+ *   linkFactory: (endpoint) => [
+ *     rateLimitLink<AppRouter>({
+ *       name: endpoint,
+ *       maxConcurrent: 6,
+ *       routers: {
+ *         search: { tokensPerInterval: 10, intervalMs: 1000, maxQueueSize: 20 },
+ *       },
+ *     }),
+ *     httpBatchLink({ url: endpoint }),
+ *   ],
+ * });
+ * ```
+ */
+export function rateLimitLink<TRouter extends AnyRouter>(
+  opts: RateLimitLinkOptions<TRouter>
+): TRPCLink<TRouter> {
+  const { name = 'default', routers = {}, ...defaults } = opts;
+
+  return () => {
+    // One limiter per routers key, and one (under '') for the top-level limits
+    const limiters = new Map<string, Limiter | undefined>();
+
+    const getLimiter = (path: string) => {
+      const match = matchLongestPrefix(routers as Record<string, RateLimit>, path);
+      const scope = match?.key ?? '';
+      if (!limiters.has(scope)) {
+        const limit = { ...defaults, ...match?.value };
+        limiters.set(scope, isLimited(limit) ? createLimiter(limit) : undefined);
+      }
+      return { scope: match?.key, limiter: limiters.get(scope) };
+    };
+
+    return ({ op, next }) => {
+      return observable((observer) => {
+        const { scope, limiter } = getLimiter(op.path);
+        if (!limiter) {
+          return next(op).subscribe(observer);
+        }
+
+        const reject = (reason: RateLimitError['reason']) =>
+          observer.error(TRPCClientError.from(new RateLimitError(name, scope, reason)));
+
+        if (op.signal?.aborted) {
+          reject('aborted');
+          return;
+        }
+
+        let subscription: Unsubscribable | undefined;
+        let waiting = true;
+
+        const onAbort = () => {
+          ticket?.cancel();
+          reject('aborted');
+        };
+
+        const ticket = limiter.acquire(op, (started) => {
+          waiting = false;
+          op.signal?.removeEventListener('abort', onAbort);
+
+          subscription = next(op).subscribe({
+            next(value) {
+              observer.next(value);
+            },
+            error(err) {
+              started.cancel();
+              observer.error(err);
+            },
+            complete() {
+              started.cancel();
+              observer.complete();
+            },
+          });
+        });
+
+        if (!ticket) {
+          reject('queue-full');
+          return;
+        }
+        if (waiting) {
+          op.signal?.addEventListener('abort', onAbort);
+        }
+
+        return () => {
+          op.signal?.removeEventListener('abort', onAbort);
+          ticket.cancel();
+          subscription?.unsubscribe();
+        };
+      });
+    };
+  };
+}
+
+export type { RateLimit, RateLimitLinkOptions } from './types.js';
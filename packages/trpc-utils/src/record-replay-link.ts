@@ -0,0 +1,338 @@
+import { observable } from '@trpc/server/observable';
+import {
+  TRPCClientError,
+  isTRPCClientError,
+  type Operation,
+  type TRPCLink,
+} from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { isPromiseLike } from './async-utils';
+import { stableStringify } from './operation-key';
+import {
+  forkOperation,
+  getRoutingDecision,
+  recordRoutingDecision,
+} from './operation-context';
+import type {
+  FixtureStorageAdapter,
+  RecordedError,
+  RecordedFixture,
+  RecordedOperation,
+  RecordedOperationMatcher,
+  RecordReplayFixture,
+  RecordReplayLinkOptions,
+} from './types';
+
+const toRecordedError = (error: unknown): RecordedError => {
+  if (!isTRPCClientError(error)) {
+    return { message: error instanceof Error ? error.message : String(error) };
+  }
+  return { message: error.message, shape: error.shape, data: error.data };
+};
+
+const toClientError = (error: RecordedError) => {
+  const shape = error.shape as { code?: unknown; message?: unknown } | undefined;
+  if (typeof shape?.code === 'number' && typeof shape.message === 'string') {
+    return TRPCClientError.from({ error: shape });
+  }
+  return TRPCClientError.from(new Error(error.message));
+};
+
+const parseFixture = (json: string | undefined): RecordedOperation[] => {
+  if (json === undefined) {
+    return [];
+  }
+  const fixture = JSON.parse(json) as Partial<RecordedFixture>;
+  if (!Array.isArray(fixture.operations)) {
+    throw new Error('the fixture has no operations');
+  }
+  return fixture.operations;
+};
+
+const describeOperation = (op: Operation) =>
+  `${op.type} "${op.path}" with input ${stableStringify(op.input) ?? '(not serializable)'}`;
+
+/**
+ * Creates a fixture storage keeping the JSON in memory, e.g. to record in one
+ * test and replay in another, or to replay a fixture imported as a string.
+ *
+ * @example
+ * ```ts
+ * const storage = createMemoryFixtureStorage(JSON.stringify(usersFixture));
+ * const link = recordReplayLink({ mode: 'replay', storage });
+ * ```
+ */
+export function createMemoryFixtureStorage(
+  json?: string
+): FixtureStorageAdapter & { readonly json: string | undefined } {
+  let current = json;
+  return {
+    get json() {
+      return current;
+    },
+    read: () => current,
+    write: (value) => {
+      current = value;
+    },
+  };
+}
+
+/**
+ * Creates a link for fixture-based tests. In record mode, operations go through
+ * the rest of the chain, and each one is recorded with its path, input, the
+ * `contextKeys` entries of its context, the endpoint it was routed to, and its
+ * results or error; the fixture is written to `storage` as JSON after each
+ * recording. Aborted queries and mutations are not recorded.
+ *
+ * Results are recorded after the transformer ran, so the fixture only keeps
+ * the values JSON can represent; pass the API transformer as `transformer` to
+ * record the serialized values instead, and replay Dates, Maps and the like.
+ *
+ * In replay mode, the link answers operations from the recordings and never
+ * calls the rest of the chain. Operations are matched by `match`; matching
+ * recordings are served in the order they were recorded, the last one being
+ * served again once all were. Operations no recording matches fail with an
+ * error describing them.
+ *
+ * Place it before endpointRouterLink to record which endpoint answered each
+ * operation; replayed operations report that endpoint to metricsLink.
+ *
+ * @example
+ * ```ts
+ * import { readFileSync, writeFileSync, existsSync } from 'node:fs';
+ *
+ * const path = './fixtures/users.json';
+ * const link = [
+ *   recordReplayLink({
+ *     mode: process.env.RECORD ? 'record' : 'replay',
+ *     storage: {
+ *       read: () => (existsSync(path) ? readFileSync(path, 'utf8') : undefined),
+ *       write: (json) => writeFileSync(path, json),
+ *     },
+ *     contextKeys: ['locale'],
+ *   }),
+ *   endpointRouterLink<AppRouter>({ routerToEndpoint }),
+ * ];
+ * ```
+ */
+export function recordReplayLink<TRouter extends AnyRouter>(
+  opts: RecordReplayLinkOptions
+): TRPCLink<TRouter> & { fixture: RecordReplayFixture } {
+  const { mode, storage, match = 'input', contextKeys = [], transformer } = opts;
+  const operations: RecordedOperation[] = [];
+
+  // With a transformer, recordings hold the serialized values, as in the fixture
+  const serialize = (value: unknown) =>
+    transformer && value !== undefined ? transformer.serialize(value) : value;
+  const deserialize = (value: unknown) =>
+    transformer && value !== undefined ? transformer.deserialize(value) : value;
+
+  // Writes run one after another, so the last write holds every recording
+  let writes: Promise<void> = Promise.resolve();
+
+  const save = () => {
+    const write = () => {
+      const fixture: RecordedFixture = { version: 1, operations };
+      return storage.write(JSON.stringify(fixture, null, 2));
+    };
+    writes = writes.then(write, write);
+    // Failed writes surface through flush(), not as unhandled rejections
+    writes.catch(() => {});
+  };
+
+  const record = (
+    op: Operation,
+    recording: Omit<RecordedOperation, 'path' | 'type' | 'input'>
+  ) => {
+    const context: Record<string, unknown> = {};
+    for (const key of contextKeys) {
+      if (op.context[key] !== undefined) {
+        context[key] = op.context[key];
+      }
+    }
+    operations.push({
+      path: op.path,
+      type: op.type,
+      input: serialize(op.input),
+      ...(contextKeys.length > 0 ? { context } : {}),
+      ...recording,
+    });
+    save();
+  };
+
+  // Replay mode: the recordings load once, when the link is created
+  let loading: Promise<void> | undefined;
+  let loadError: unknown;
+
+  if (mode === 'replay') {
+    const load = (json: string | undefined) => {
+      try {
+        operations.push(...parseFixture(json));
+      } catch (err) {
+        loadError = err;
+      }
+    };
+    try {
+      const json = storage.read();
+      if (isPromiseLike<string | undefined>(json)) {
+        loading = Promise.resolve(json)
+          .then(load, (err: unknown) => {
+            loadError = err;
+          })
+          .finally(() => {
+            loading = undefined;
+          });
+      } else {
+        load(json);
+      }
+    } catch (err) {
+      loadError = err;
+    }
+  }
+
+  const matcher: RecordedOperationMatcher =
+    typeof match === 'function'
+      ? match
+      : (op, recorded) =>
+          recorded.path === op.path &&
+          recorded.type === op.type &&
+          (match === 'path' ||
+            stableStringify(recorded.input) === stableStringify(serialize(op.input)));
+
+  const served = new Set<RecordedOperation>();
+
+  const findRecording = (op: Operation) => {
+    const candidates = operations.filter((recorded) => matcher(op, recorded));
+    const recording =
+      candidates.find((candidate) => !served.has(candidate)) ?? candidates.at(-1);
+    if (recording) {
+      served.add(recording);
+    }
+    return recording;
+  };
+
+  const link: TRPCLink<TRouter> = () => {
+    return ({ op, next }) => {
+      if (mode === 'record') {
+        return observable((observer) => {
+          // Forked, so the recorded endpoint is the one of this operation only
+          const recordedOp = forkOperation(op);
+          const results: unknown[] = [];
+          let recorded = false;
+
+          const finish = (recording: Partial<RecordedOperation>) => {
+            recorded = true;
+            record(op, {
+              endpoint: getRoutingDecision(recordedOp)?.endpoint,
+              results,
+              ...recording,
+            });
+          };
+
+          const subscription = next(recordedOp).subscribe({
+            next(value) {
+              if (value.result.type === 'data') {
+                results.push(serialize(value.result.data));
+              }
+              observer.next(value);
+            },
+            error(err) {
+              if (!op.signal?.aborted) {
+                const { message, shape, data } = toRecordedError(err);
+                finish({ error: { message, shape: serialize(shape), data: serialize(data) } });
+              }
+              observer.error(err);
+            },
+            complete() {
+              finish({});
+              observer.complete();
+            },
+          });
+
+          return () => {
+            // Subscriptions rarely end by themselves; record what they sent so far
+            if (!recorded && op.type === 'subscription') {
+              finish({ open: true });
+            }
+            subscription.unsubscribe();
+          };
+        });
+      }
+
+      return observable((observer) => {
+        let cancelled = false;
+
+        const replay = () => {
+          if (cancelled) {
+            return;
+          }
+          if (loadError !== undefined) {
+            const reason = loadError instanceof Error ? loadError.message : String(loadError);
+            observer.error(
+              TRPCClientError.from(
+                new Error(`recordReplayLink: could not load the fixture: ${reason}`)
+              )
+            );
+            return;
+          }
+
+          const recording = findRecording(op);
+          if (!recording) {
+            observer.error(
+              TRPCClientError.from(
+                new Error(`recordReplayLink: no recording matches ${describeOperation(op)}`)
+              )
+            );
+            return;
+          }
+
+          if (recording.endpoint !== undefined) {
+            recordRoutingDecision(op, { endpoint: recording.endpoint });
+          }
+          if (recording.type === 'subscription') {
+            observer.next({ result: { type: 'started' } });
+          }
+          for (const data of recording.results) {
+            observer.next({ result: { type: 'data', data: deserialize(data) } });
+          }
+          if (recording.error) {
+            observer.error(
+              toClientError({ ...recording.error, shape: deserialize(recording.error.shape) })
+            );
+          } else if (!recording.open) {
+            observer.complete();
+          }
+        };
+
+        if (loading) {
+          void loading.then(replay);
+        } else {
+          replay();
+        }
+
+        return () => {
+          cancelled = true;
+        };
+      });
+    };
+  };
+
+  const fixture: RecordReplayFixture = {
+    operations,
+    flush: () => writes,
+  };
+
+  return Object.assign(link, { fixture });
+}
+
+export type {
+  FixtureStorageAdapter,
+  FixtureTransformer,
+  RecordedError,
+  RecordedFixture,
+  RecordedOperation,
+  RecordedOperationMatcher,
+  RecordReplayFixture,
+  RecordReplayLinkOptions,
+  RecordReplayMode,
+} from './types.js';
@@ -0,0 +1,191 @@
+import { observable, type Unsubscribable } from '@trpc/server/observable';
+import type { Operation, TRPCClientError, TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { isServiceFailure } from './endpoint-health';
+import { matchLongestPrefix } from './path-matching';
+import type { RetryLinkOptions, RetryPolicy } from './types';
+
+const DEFAULT_POLICY: Required<Omit<RetryPolicy, 'retryMutations'>> & {
+  retryMutations: readonly string[];
+} = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 10_000,
+  jitter: true,
+  retryMutations: [],
+  retrySubscriptions: true,
+  retryOn: isServiceFailure,
+};
+
+/**
+ * Whether an operation may be retried at all under a policy.
+ * Queries are always eligible, mutations only when allowlisted.
+ */
+function isRetryable(op: Operation, policy: typeof DEFAULT_POLICY): boolean {
+  switch (op.type) {
+    case 'query':
+      return true;
+    case 'mutation':
+      return policy.retryMutations.includes(op.path);
+    default:
+      return policy.retrySubscriptions;
+  }
+}
+
+/**
+ * Exponential backoff delay for the given (1-based) failed attempt.
+ */
+function getDelay(attempt: number, policy: typeof DEFAULT_POLICY): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return policy.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+/**
+ * Creates a link that retries failed operations with exponential backoff and jitter.
+ *
+ * - Queries are retried; mutations only when listed in `retryMutations`
+ * - Subscriptions reconnect (resuming from the last tracked event id)
+ * - Retries stop when `op.signal` aborts, and a shared `budget` caps retry volume
+ * - `routers` overrides the policy per router path (longest matching prefix wins)
+ *
+ * Place it before a `switchLink` or `endpointRouterLink` to retry across routing
+ * decisions, or inside a case / `linkFactory` chain to retry per endpoint.
+ *
+ * @example
+ * ```ts
+ * const link = retryLink<AppRouter>({
+ *   maxAttempts: 4,
+ *   budget: { maxRetries: 20, windowMs: 10_000 },
+ *   routers: {
+ *     billing: { maxAttempts: 2, retryMutations: ['billing.syncInvoices'] },
+ *   },
+ * });
+ * ```
+ */
+export function retryLink<TRouter extends AnyRouter>(
+  opts: RetryLinkOptions<TRouter> = {}
+): TRPCLink<TRouter> {
+  const { routers = {}, budget, onRetry, ...basePolicy } = opts;
+
+  // Timestamps of retries still inside the budget window
+  let retryTimestamps: number[] = [];
+
+  const takeBudget = (): boolean => {
+    if (!budget) {
+      return true;
+    }
+
+    const now = Date.now();
+    const windowMs = budget.windowMs ?? 10_000;
+    retryTimestamps = retryTimestamps.filter((timestamp) => now - timestamp < windowMs);
+
+    if (retryTimestamps.length >= budget.maxRetries) {
+      return false;
+    }
+    retryTimestamps.push(now);
+    return true;
+  };
+
+  const getPolicy = (path: string): typeof DEFAULT_POLICY => {
+    const routerPolicy = matchLongestPrefix(
+      routers as Record<string, RetryPolicy | undefined>,
+      path
+    )?.value;
+    return { ...DEFAULT_POLICY, ...basePolicy, ...routerPolicy };
+  };
+
+  return () => {
+    return ({ op, next }) => {
+      return observable((observer) => {
+        const policy = getPolicy(op.path);
+
+        if (!isRetryable(op, policy)) {
+          return next(op).subscribe(observer);
+        }
+
+        let attempt = 1;
+        let stopped = false;
+        let lastEventId: string | undefined;
+        let lastError: TRPCClientError<TRouter> | undefined;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let subscription: Unsubscribable | undefined;
+
+        const cleanup = () => {
+          stopped = true;
+          clearTimeout(timer);
+          op.signal?.removeEventListener('abort', onAbort);
+        };
+
+        // Aborting while waiting for a retry ends the operation with the last error
+        function onAbort() {
+          // A retry is only scheduled after an error
+          if (timer !== undefined && !stopped && lastError) {
+            cleanup();
+            observer.error(lastError);
+          }
+        }
+
+        const execute = () => {
+          timer = undefined;
+
+          // Resume tracked subscriptions from the last event the client saw
+          const attemptOp =
+            lastEventId !== undefined && op.input && typeof op.input === 'object'
+              ? { ...op, input: { ...op.input, lastEventId } }
+              : op;
+
+          subscription = next(attemptOp).subscribe({
+            next(value) {
+              if (op.type === 'subscription') {
+                // A healthy stream resets the reconnect backoff
+                attempt = 1;
+                const id = (value.result as { id?: unknown }).id;
+                if (typeof id === 'string') {
+                  lastEventId = id;
+                }
+              }
+              observer.next(value);
+            },
+            error(err) {
+              if (stopped) {
+                return;
+              }
+
+              const shouldRetry =
+                attempt < policy.maxAttempts &&
+                !op.signal?.aborted &&
+                policy.retryOn(err, { op, attempt }) &&
+                takeBudget();
+
+              if (!shouldRetry) {
+                cleanup();
+                observer.error(err);
+                return;
+              }
+
+              const delayMs = getDelay(attempt, policy);
+              onRetry?.({ op, attempt, delayMs, error: err });
+              lastError = err;
+              attempt++;
+              timer = setTimeout(execute, delayMs);
+            },
+            complete() {
+              cleanup();
+              observer.complete();
+            },
+          });
+        };
+
+        op.signal?.addEventListener('abort', onAbort);
+        execute();
+
+        return () => {
+          cleanup();
+          subscription?.unsubscribe();
+        };
+      });
+    };
+  };
+}
+
+export type { RetryBudget, RetryEvent, RetryLinkOptions, RetryPolicy } from './types.js';
@@ -5,6 +5,10 @@
 
 export type {
   RouterNames,
+  RouterPaths,
+  ProcedurePaths,
+  ProcedurePathsByType,
+  RouterPrefixes,
   RequiredRouterMapping,
   PartialRouterMapping,
 } from './types';
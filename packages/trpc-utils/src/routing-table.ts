@@ -0,0 +1,194 @@
+import type { AnyRouter } from '@trpc/server';
+import type { Operation, TRPCLink } from '@trpc/client';
+import { getTargetEndpoints, isReplicaGroup } from './endpoint-target';
+import { createPathMatcher, matchLongestPrefix } from './path-matching';
+import { describeTransport } from './transport-link-factory';
+import type {
+  EndpointTarget,
+  LinkFactory,
+  RoutingSource,
+  RoutingTableOptions,
+  RoutingTableRow,
+} from './types';
+
+/**
+ * Names the links a factory creates for an endpoint, releasing anything they hold.
+ * Uses the labels the factory returns, else the names of named link functions.
+ */
+function describeChain<TRouter extends AnyRouter>(
+  linkFactory: LinkFactory<TRouter>,
+  endpoint: string
+): string[] {
+  const result = linkFactory(endpoint);
+  const { links, dispose, labels } =
+    typeof result === 'function' || Array.isArray(result) ? { links: result } : result;
+  dispose?.();
+
+  if (labels) {
+    return [...labels];
+  }
+  const chain: TRPCLink<TRouter>[] = Array.isArray(links) ? links : [links];
+  return chain.map((link) => link.name || 'anonymous');
+}
+
+/**
+ * Resolves the static routing of every procedure of a live server router, in the
+ * order endpointRouterLink applies it: glob and regex rules, then the longest
+ * matching mapping key, then `defaultEndpoint`. Predicate rules depend on the
+ * operation context and are skipped.
+ *
+ * Link chains are named by `linkLabels`, else by the `labels` the link factory
+ * returns, else by the names of named link functions; without a link factory,
+ * by the links of the default transport.
+ *
+ * @example
+ * ```ts
+ * const rows = createRoutingTable(appRouter, { routerToEndpoint, defaultEndpoint });
+ * console.log(formatRoutingTable(rows));
+ * ```
+ */
+export function createRoutingTable<TRouter extends AnyRouter>(
+  appRouter: TRouter,
+  opts: RoutingTableOptions<TRouter>
+): RoutingTableRow[] {
+  const {
+    routerToEndpoint,
+    rules = [],
+    defaultEndpoint,
+    linkFactory,
+    transport = {},
+    linkLabels = {},
+  } = opts;
+
+  const staticRules = rules.flatMap((rule, index) => {
+    if (typeof rule.match === 'function') {
+      return [];
+    }
+    const matchPath = createPathMatcher(rule.match);
+    const types =
+      rule.type === undefined ? undefined : Array.isArray(rule.type) ? rule.type : [rule.type];
+    return [{ index, rule, matchPath, types }];
+  });
+
+  const resolve = (
+    path: string,
+    type: RoutingTableRow['type']
+  ): { target?: EndpointTarget; source: RoutingSource } => {
+    for (const { index, rule, matchPath, types } of staticRules) {
+      if ((!types || (type !== 'lazy' && types.includes(type))) && matchPath(path)) {
+        return { target: rule.endpoint, source: { kind: 'rule', index } };
+      }
+    }
+
+    const match = matchLongestPrefix(routerToEndpoint, path);
+    if (match) {
+      return { target: match.value, source: { kind: 'mapping', key: match.key } };
+    }
+    if (defaultEndpoint !== undefined) {
+      return { target: defaultEndpoint, source: { kind: 'default' } };
+    }
+    return { source: { kind: 'unmapped' } };
+  };
+
+  const def = appRouter._def as {
+    procedures: Record<string, { _def?: { type?: Operation['type'] } }>;
+    lazy?: Record<string, unknown>;
+  };
+  const procedures: [string, RoutingTableRow['type']][] = [
+    ...Object.entries(def.procedures).map(
+      ([path, procedure]): [string, RoutingTableRow['type']] => [
+        path,
+        procedure._def?.type ?? 'query',
+      ]
+    ),
+    ...Object.keys(def.lazy ?? {}).map((path): [string, RoutingTableRow['type']] => [
+      path,
+      'lazy',
+    ]),
+  ];
+
+  // Chains are described once per endpoint, like the link's own chain cache
+  const chains = new Map<string, string[]>();
+  const getChain = (endpoint: string, type: RoutingTableRow['type']): string[] => {
+    const labels = Object.getOwnPropertyDescriptor(linkLabels, endpoint)?.value as
+      | readonly string[]
+      | undefined;
+    if (labels) {
+      return [...labels];
+    }
+    // The default link factory picks a link per operation type
+    if (!linkFactory) {
+      return describeTransport(transport, type);
+    }
+    let chain = chains.get(endpoint);
+    if (!chain) {
+      chain = describeChain(linkFactory, endpoint);
+      chains.set(endpoint, chain);
+    }
+    return chain;
+  };
+
+  return procedures
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([path, type]) => {
+      const { target, source } = resolve(path, type);
+      const endpoints = target === undefined ? [] : getTargetEndpoints(target);
+
+      return {
+        path,
+        type,
+        endpoints,
+        strategy:
+          target !== undefined && isReplicaGroup(target)
+            ? (target.strategy ?? 'round-robin')
+            : undefined,
+        source,
+        chain: endpoints.length > 0 ? getChain(endpoints[0], type) : [],
+      };
+    });
+}
+
+/**
+ * Describes where a row's endpoint came from, e.g. "rules[0]" or "billing.payouts".
+ */
+function formatSource(source: RoutingSource): string {
+  switch (source.kind) {
+    case 'rule':
+      return `rules[${source.index}]`;
+    case 'mapping':
+      return source.key;
+    default:
+      return source.kind;
+  }
+}
+
+/**
+ * Renders routing table rows as a plain-text table for terminals and CI logs.
+ */
+export function formatRoutingTable(rows: RoutingTableRow[]): string {
+  const header = ['PROCEDURE', 'TYPE', 'ENDPOINT', 'VIA', 'CHAIN'];
+  const lines = rows.map((row) => [
+    row.path,
+    row.type,
+    row.endpoints.length === 0
+      ? '-'
+      : row.endpoints.join(row.strategy ? ', ' : ' -> ') +
+        (row.strategy ? ` (${row.strategy})` : ''),
+    formatSource(row.source),
+    row.chain.length === 0 ? '-' : row.chain.join(' -> '),
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...lines.map((line) => line[column].length))
+  );
+  return [header, ...lines]
+    .map((line) =>
+      line
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+export type { RoutingSource, RoutingTableOptions, RoutingTableRow } from './types.js';
@@ -1,8 +1,15 @@
 import { observable } from '@trpc/server/observable';
 import { TRPCClientError, type TRPCLink, type OperationLink } from '@trpc/client';
 import type { AnyRouter } from '@trpc/server';
+import { isPromiseLike } from './async-utils';
 import { createChain } from './create-chain';
-import type { SwitchLinkOptions, SwitchLinkSelectorContext, LinkOrLinks } from './types';
+import { recordRoutingDecision } from './operation-context';
+import type {
+  SwitchLinkOptions,
+  SwitchLinkSelectorContext,
+  LinkOrLinks,
+  ProcedurePaths,
+} from './types';
 
 /**
  * Converts a single link or array of links to an array.
@@ -18,6 +25,9 @@ function asArray<TRouter extends AnyRouter>(
  * Unlike splitLink (binary), switchLink supports any number of branches with compile-time exhaustiveness.
  *
  * Each case can be a single link or an array of links that will be chained together.
+ * The selector may be async (e.g. a feature-flag lookup): the operation is queued until
+ * it resolves, and a rejection is emitted as a TRPCClientError. Aborting `op.signal`
+ * while the selector is pending fails the operation with an AbortError cause.
  *
  * @example
  * ```ts
@@ -64,35 +74,95 @@ export function switchLink<
       initializedChains.set(key, initializedLinks);
     }
 
+    const defaultChain =
+      opts.default === undefined
+        ? undefined
+        : asArray(opts.default).map((link) => link(runtime));
+
     return (props) => {
       return observable((observer) => {
         const { op } = props;
 
-        const selectorContext: SwitchLinkSelectorContext<TContext> = {
-          path: op.path,
+        const selectorContext: SwitchLinkSelectorContext<
+          TContext,
+          ProcedurePaths<TRouter>
+        > = {
+          path: op.path as ProcedurePaths<TRouter>,
           type: op.type,
           ctx: op.context as TContext,
           op,
         };
 
-        const selectedKey = opts.select(selectorContext);
-        const links = initializedChains.get(selectedKey);
+        const route = (selectedKey: K) => {
+          const links = initializedChains.get(selectedKey) ?? defaultChain;
 
-        if (!links) {
-          const validKeys = Array.from(initializedChains.keys()).join(', ');
-          observer.error(
-            TRPCClientError.from(
-              new Error(
-                `switchLink: selector returned unknown key "${selectedKey}". ` +
-                  `Valid keys are: ${validKeys}`
+          if (!links) {
+            const validKeys = Array.from(initializedChains.keys()).join(', ');
+            observer.error(
+              TRPCClientError.from(
+                new Error(
+                  `switchLink: selector returned unknown key "${selectedKey}". ` +
+                    `Valid keys are: ${validKeys}`
+                )
               )
-            )
-          );
+            );
+            return;
+          }
+
+          recordRoutingDecision(op, { case: selectedKey });
+
+          // Use createChain to execute the link chain
+          const subscription = createChain({ op, links }).subscribe(observer);
+          return () => subscription.unsubscribe();
+        };
+
+        const selected = opts.select(selectorContext);
+
+        if (!isPromiseLike(selected)) {
+          return route(selected);
+        }
+
+        // Async selection: the operation waits for the selector, unless aborted
+        let cancelled = false;
+        let teardown: (() => void) | undefined;
+
+        const onAbort = () => {
+          cancelled = true;
+          const error = new Error('switchLink: operation aborted while selecting a case');
+          error.name = 'AbortError';
+          observer.error(TRPCClientError.from(error));
+        };
+        if (op.signal?.aborted) {
+          onAbort();
           return;
         }
+        op.signal?.addEventListener('abort', onAbort);
+
+        selected.then(
+          (selectedKey) => {
+            op.signal?.removeEventListener('abort', onAbort);
+            if (cancelled) {
+              return;
+            }
+            teardown = route(selectedKey);
+          },
+          (error: unknown) => {
+            op.signal?.removeEventListener('abort', onAbort);
+            if (cancelled) {
+              return;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            observer.error(
+              TRPCClientError.from(new Error(`switchLink: selector failed: ${message}`))
+            );
+          }
+        );
 
-        // Use createChain to execute the link chain
-        return createChain({ op, links }).subscribe(observer);
+        return () => {
+          cancelled = true;
+          op.signal?.removeEventListener('abort', onAbort);
+          teardown?.();
+        };
       });
     };
   };
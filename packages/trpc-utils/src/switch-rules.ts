@@ -0,0 +1,80 @@
+import type { Operation } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { createPathMatcher, getPathPrefixes } from './path-matching';
+import type { SwitchLinkSelectorContext, SwitchRulesBuilder } from './types';
+
+interface SwitchRule<K extends string, TContext> {
+  matches: (context: SwitchLinkSelectorContext<TContext>) => boolean;
+  key: K;
+}
+
+/**
+ * Creates a builder instance over an immutable list of rules, so partially built
+ * selectors can be shared and extended independently.
+ */
+function createBuilder<K extends string, TContext>(
+  rules: readonly SwitchRule<K, TContext>[]
+): SwitchRulesBuilder<K, TContext, AnyRouter, K> {
+  const add = (
+    matches: SwitchRule<K, TContext>['matches'],
+    key: K
+  ): SwitchRulesBuilder<K, TContext, AnyRouter, K> => createBuilder([...rules, { matches, key }]);
+
+  return {
+    prefix: (prefix, key) =>
+      add((context) => getPathPrefixes(context.path).includes(prefix), key),
+    glob: (pattern, key) => {
+      const matchPath = createPathMatcher(pattern);
+      return add((context) => matchPath(context.path), key);
+    },
+    type: (type, key) => {
+      const types: Operation['type'][] = Array.isArray(type) ? type : [type];
+      return add((context) => types.includes(context.type), key);
+    },
+    when: (predicate, key) => add(predicate, key),
+    // The reachability argument only exists at the type level
+    otherwise: (fallback: K, ..._check: unknown[]) => (context) =>
+      rules.find((rule) => rule.matches(context))?.key ?? fallback,
+  };
+}
+
+/**
+ * Builds a switchLink selector from declarative rules: path prefixes, globs,
+ * operation types and context predicates, evaluated in declared order.
+ * `otherwise` only compiles once every key of `K` is routed to by some rule
+ * or by the fallback itself, so no case is unreachable. Pass the AppRouter as
+ * `TRouter` to type-check prefixes and the paths seen by predicates.
+ *
+ * @example
+ * ```ts
+ * type RouteKey = 'admin' | 'realtime' | 'internal' | 'public';
+ *
+ * const link = switchLink<AppRouter, RouteKey, AppContext>({
+ *   select: switchRules<RouteKey, AppContext, AppRouter>()
+ *     .prefix('admin', 'admin')
+ *     .type('subscription', 'realtime')
+ *     .when(({ ctx }) => ctx.internal === true, 'internal')
+ *     .otherwise('public'),
+ *   cases: {
+ *     admin: httpBatchLink({ url: '/api/admin' }),
+ *     realtime: wsLink({ client: wsClient }),
+ *     internal: httpBatchLink({ url: 'https://internal.example.com/trpc' }),
+ *     public: httpBatchLink({ url: '/api/public' }),
+ *   },
+ * });
+ * ```
+ */
+export function switchRules<
+  K extends string,
+  TContext = unknown,
+  TRouter extends AnyRouter = AnyRouter,
+>(): SwitchRulesBuilder<K, TContext, TRouter> {
+  // Reachability and path types are tracked at the type level only
+  return createBuilder<K, TContext>([]) as unknown as SwitchRulesBuilder<
+    K,
+    TContext,
+    TRouter
+  >;
+}
+
+export type { SwitchRulesBuilder } from './types.js';
@@ -0,0 +1,131 @@
+import { observable } from '@trpc/server/observable';
+import { TRPCClientError, type Operation, type TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { TimeoutError } from './errors';
+import { forkOperation, getDeadline, setDeadline } from './operation-context';
+import { matchLongestPrefix } from './path-matching';
+import type { OperationDeadline, TimeoutLinkOptions } from './types';
+
+/**
+ * Reads the deadline of an operation, as applied by the timeoutLinks before it.
+ * Lets custom links and tests check that a deadline (and the AbortSignal that
+ * enforces it) reaches the end of a chain, e.g. through switchLink cases or
+ * endpointRouterLink endpoint chains. Returns the earliest deadline when
+ * several timeoutLinks apply.
+ *
+ * @example
+ * ```ts
+ * const terminal: TRPCLink<AppRouter> = () => ({ op }) => {
+ *   expect(getOperationDeadline(op)?.timeoutMs).toBe(5000);
+ *   // ...
+ * };
+ * ```
+ */
+export function getOperationDeadline(op: Operation): OperationDeadline | undefined {
+  return getDeadline(op);
+}
+
+/**
+ * Creates a link that fails operations still running after their deadline, and
+ * cancels the underlying request: the operation is passed down the chain with
+ * an AbortSignal of its own, aborted with a TimeoutError on timeout and chained
+ * to `op.signal` so user aborts still reach the request.
+ *
+ * Timeouts fail with a TRPCClientError whose `cause` is a TimeoutError (check
+ * with `isTimeoutError`); user aborts keep failing with the error of the link
+ * below. Subscriptions are never timed out.
+ *
+ * Placed before endpointRouterLink, the deadline covers every failover attempt.
+ * Placed in a `linkFactory` chain, it applies per endpoint and a timeout counts
+ * as a network-level error, so failover moves on to the next endpoint.
+ *
+ * @example
+ * ```ts
+ * const link = [
+ *   timeoutLink<AppRouter>({
+ *     timeoutMs: 10_000,
+ *     routers: { reports: 60_000, 'users.search': 2000 },
+ *   }),
+ *   endpointRouterLink<AppRouter>({ routerToEndpoint }),
+ * ];
+ *
+ * // Per operation
+ * await client.reports.export.query(input, { context: { timeoutMs: 120_000 } });
+ * ```
+ */
+export function timeoutLink<TRouter extends AnyRouter>(
+  opts: TimeoutLinkOptions<TRouter>
+): TRPCLink<TRouter> {
+  const { timeoutMs, routers = {}, contextKey = 'timeoutMs' } = opts;
+
+  const getTimeoutMs = (op: Operation): number | undefined => {
+    const fromContext = op.context[contextKey];
+    const fromRouters = matchLongestPrefix(routers as Record<string, number>, op.path)?.value;
+    const candidate =
+      typeof fromContext === 'number' ? fromContext : (fromRouters ?? timeoutMs);
+
+    return candidate !== undefined && candidate > 0 && Number.isFinite(candidate)
+      ? candidate
+      : undefined;
+  };
+
+  return () => {
+    return ({ op, next }) => {
+      return observable((observer) => {
+        const operationTimeoutMs = op.type === 'subscription' ? undefined : getTimeoutMs(op);
+        if (operationTimeoutMs === undefined) {
+          return next(op).subscribe(observer);
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(op.signal?.reason);
+        if (op.signal?.aborted) {
+          onAbort();
+        } else {
+          op.signal?.addEventListener('abort', onAbort);
+        }
+
+        const timedOp: Operation = { ...forkOperation(op), signal: controller.signal };
+        setDeadline(timedOp, {
+          timeoutMs: operationTimeoutMs,
+          deadline: Date.now() + operationTimeoutMs,
+        });
+
+        const cleanup = () => {
+          clearTimeout(timer);
+          op.signal?.removeEventListener('abort', onAbort);
+        };
+
+        const timer = setTimeout(() => {
+          const error = new TimeoutError(op.path, operationTimeoutMs);
+          cleanup();
+          // Unsubscribe first, so the abort error of the link below is never forwarded
+          subscription.unsubscribe();
+          controller.abort(error);
+          observer.error(TRPCClientError.from(error));
+        }, operationTimeoutMs);
+
+        const subscription = next(timedOp).subscribe({
+          next(value) {
+            observer.next(value);
+          },
+          error(err) {
+            cleanup();
+            observer.error(err);
+          },
+          complete() {
+            cleanup();
+            observer.complete();
+          },
+        });
+
+        return () => {
+          cleanup();
+          subscription.unsubscribe();
+        };
+      });
+    };
+  };
+}
+
+export type { OperationDeadline, TimeoutLinkOptions } from './types.js';
@@ -0,0 +1,257 @@
+import { observable } from '@trpc/server/observable';
+import type { Operation, TRPCLink } from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import {
+  forkOperation,
+  getRoutingDecision,
+  getTraceContext,
+  setTraceContext,
+} from './operation-context';
+import { getRouterName } from './path-matching';
+import type {
+  InMemorySpanExporter,
+  SpanAttributeValue,
+  TraceContext,
+  TraceSpan,
+  TracingLinkOptions,
+} from './types';
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Generates `bytes` random bytes as lowercase hex.
+ */
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (value) => value.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generates a random id that is not the all-zero (invalid) id.
+ */
+function generateId(bytes: number, invalid: string): string {
+  let id = randomHex(bytes);
+  while (id === invalid) {
+    id = randomHex(bytes);
+  }
+  return id;
+}
+
+/**
+ * Parses a `traceparent` header, returning undefined when it is invalid.
+ */
+function parseTraceparent(
+  traceparent: string
+): { traceId: string; spanId: string; sampled: boolean } | undefined {
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+  if (!match || match[1] === INVALID_TRACE_ID || match[2] === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  return {
+    traceId: match[1],
+    spanId: match[2],
+    sampled: (Number.parseInt(match[3], 16) & 1) === 1,
+  };
+}
+
+/**
+ * Reads the `traceparent`/`tracestate` strings from an operation context.
+ */
+function getContextParent(op: Operation): { traceparent?: string; tracestate?: string } {
+  const { traceparent, tracestate } = op.context as Record<string, unknown>;
+  return {
+    traceparent: typeof traceparent === 'string' ? traceparent : undefined,
+    tracestate: typeof tracestate === 'string' ? tracestate : undefined,
+  };
+}
+
+/**
+ * Builds the W3C trace context headers for the span wrapping an operation.
+ * A batch of operations gets the headers of its first traced operation.
+ * Returns no headers when nothing is traced.
+ *
+ * Endpoint chains built by endpointRouterLink's default factory send these
+ * automatically; use it in the `headers` option of custom HTTP links.
+ *
+ * @example
+ * ```ts
+ * httpBatchLink({
+ *   url: endpoint,
+ *   headers: ({ opList }) => getTraceHeaders(opList),
+ * });
+ * ```
+ */
+export function getTraceHeaders(ops: Operation | readonly Operation[]): Record<string, string> {
+  const opList: readonly Operation[] = Array.isArray(ops) ? ops : [ops as Operation];
+  const traceContext = opList
+    .map((op) => getTraceContext(op))
+    .find((candidate) => candidate !== undefined);
+  if (!traceContext) {
+    return {};
+  }
+
+  const flags = traceContext.sampled ? '01' : '00';
+  const headers: Record<string, string> = {
+    traceparent: `00-${traceContext.traceId}-${traceContext.spanId}-${flags}`,
+  };
+  if (traceContext.traceState) {
+    headers.tracestate = traceContext.traceState;
+  }
+  return headers;
+}
+
+/**
+ * Creates a link that opens a client span for every operation and propagates it
+ * through W3C `traceparent`/`tracestate` headers to whichever endpoint chain
+ * handles the operation. Spans carry the path, type, router name and the
+ * endpoint chosen by endpointRouterLink (or case chosen by switchLink).
+ *
+ * Place it before the routing links. It has no OpenTelemetry dependency: adapt
+ * the exporter to your tracing backend. Exporter errors are swallowed.
+ *
+ * @example
+ * ```ts
+ * const link = [
+ *   tracingLink({ exporter: { export: (span) => otelBridge.record(span) } }),
+ *   endpointRouterLink<AppRouter>({ routerToEndpoint }),
+ * ];
+ * ```
+ */
+export function tracingLink<TRouter extends AnyRouter>(
+  opts: TracingLinkOptions
+): TRPCLink<TRouter> {
+  const { exporter, getParent = getContextParent, sampler, attributes = {} } = opts;
+
+  return () => {
+    return ({ op, next }) => {
+      return observable((observer) => {
+        const parentHeaders = getParent(op);
+        const parent = parentHeaders?.traceparent
+          ? parseTraceparent(parentHeaders.traceparent)
+          : undefined;
+
+        const traceContext: TraceContext = {
+          traceId: parent?.traceId ?? generateId(16, INVALID_TRACE_ID),
+          spanId: generateId(8, INVALID_SPAN_ID),
+          sampled: parent ? parent.sampled : (sampler?.(op) ?? true),
+          // tracestate is only meaningful together with a valid traceparent
+          traceState: parent ? parentHeaders?.tracestate : undefined,
+        };
+
+        const tracedOp = forkOperation(op);
+        setTraceContext(tracedOp, traceContext);
+
+        const startTime = Date.now();
+        let ended = false;
+
+        const end = (status: TraceSpan['status'], error?: unknown) => {
+          if (ended) {
+            return;
+          }
+          ended = true;
+          op.signal?.removeEventListener('abort', onAbort);
+
+          if (!traceContext.sampled) {
+            return;
+          }
+
+          const decision = getRoutingDecision(tracedOp);
+          const spanAttributes: Record<string, SpanAttributeValue> = {
+            ...attributes,
+            'rpc.system': 'trpc',
+            'rpc.service': getRouterName(op.path),
+            'rpc.method': op.path,
+            'trpc.type': op.type,
+          };
+          if (decision?.endpoint !== undefined) {
+            spanAttributes['trpc.endpoint'] = decision.endpoint;
+          }
+          if (decision?.attempts !== undefined) {
+            spanAttributes['trpc.attempts'] = decision.attempts;
+          }
+          if (decision?.case !== undefined) {
+            spanAttributes['trpc.case'] = decision.case;
+          }
+
+          try {
+            exporter.export({
+              ...traceContext,
+              parentSpanId: parent?.spanId,
+              name: op.path,
+              kind: 'client',
+              startTime,
+              endTime: Date.now(),
+              status,
+              error,
+              attributes: spanAttributes,
+            });
+          } catch {
+            // Tracing must never break the operation
+          }
+        };
+
+        const onAbort = () => end('unset');
+        op.signal?.addEventListener('abort', onAbort);
+
+        const subscription = next(tracedOp).subscribe({
+          next(value) {
+            observer.next(value);
+          },
+          error(err) {
+            end('error', err);
+            observer.error(err);
+          },
+          complete() {
+            end('ok');
+            observer.complete();
+          },
+        });
+
+        return () => {
+          end('unset');
+          subscription.unsubscribe();
+        };
+      });
+    };
+  };
+}
+
+/**
+ * Creates an exporter that keeps finished spans in memory, for tests and debugging.
+ *
+ * @example
+ * ```ts
+ * const exporter = createInMemorySpanExporter();
+ * const link = [tracingLink({ exporter }), endpointRouterLink({ routerToEndpoint })];
+ *
+ * // ...run operations
+ * expect(exporter.spans[0].attributes['trpc.endpoint']).toBe('/api/users');
+ * ```
+ */
+export function createInMemorySpanExporter(): InMemorySpanExporter {
+  let spans: TraceSpan[] = [];
+
+  return {
+    get spans() {
+      return spans;
+    },
+    export(span) {
+      spans.push(span);
+    },
+    reset() {
+      spans = [];
+    },
+  };
+}
+
+export type {
+  InMemorySpanExporter,
+  SpanAttributeValue,
+  SpanExporter,
+  TraceContext,
+  TraceSpan,
+  TracingLinkOptions,
+} from './types.js';
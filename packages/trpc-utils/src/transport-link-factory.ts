@@ -0,0 +1,168 @@
+import { observable } from '@trpc/server/observable';
+import {
+  TRPCClientError,
+  createWSClient,
+  httpBatchLink,
+  httpBatchStreamLink,
+  httpSubscriptionLink,
+  splitLink,
+  wsLink,
+  type Operation,
+  type OperationLink,
+  type TRPCLink,
+  type TRPCWebSocketClient,
+} from '@trpc/client';
+import type { AnyRouter } from '@trpc/server';
+import { getTraceHeaders } from './tracing-link';
+import type {
+  EndpointTransportOptions,
+  LinkFactory,
+  LinkFactoryOptions,
+  RoutingTableRow,
+} from './types';
+
+/**
+ * Derives the WebSocket URL of an HTTP endpoint: http: becomes ws:, https:
+ * becomes wss:, and relative endpoints resolve against the page location.
+ * @internal
+ */
+export function toWebSocketUrl(endpoint: string): string {
+  const base = (globalThis as { location?: { href: string } }).location?.href;
+  let url: URL;
+  try {
+    url = new URL(endpoint, base);
+  } catch {
+    throw new Error(
+      `endpointRouterLink: cannot derive a WebSocket URL from "${endpoint}"; ` +
+        'set transport.wsUrl'
+    );
+  }
+
+  if (url.protocol === 'http:') {
+    url.protocol = 'ws:';
+  } else if (url.protocol === 'https:') {
+    url.protocol = 'wss:';
+  }
+  return url.toString();
+}
+
+/**
+ * Names the links the default link factory uses for operations of a type.
+ * @internal
+ */
+export function describeTransport(
+  transport: EndpointTransportOptions,
+  type: RoutingTableRow['type']
+): string[] {
+  const { http = 'httpBatchLink', subscriptions = 'httpSubscriptionLink' } = transport;
+  return [type === 'subscription' ? subscriptions : http];
+}
+
+/**
+ * Creates the default link factory of endpointRouterLink: per endpoint, an
+ * HTTP batch link for queries and mutations, split from a subscription link.
+ * WebSocket clients are pooled by URL and closed once no link chain uses them.
+ * @internal
+ */
+export function createTransportLinkFactory<TRouter extends AnyRouter>(
+  linkOptions: Omit<LinkFactoryOptions, 'url'>,
+  transport: EndpointTransportOptions
+): LinkFactory<TRouter> {
+  const {
+    http = 'httpBatchLink',
+    subscriptions = 'httpSubscriptionLink',
+    wsUrl = toWebSocketUrl,
+    wsClientOptions = {},
+    sseOptions = {},
+  } = transport;
+  const { headers } = linkOptions;
+  const transformerOptions =
+    linkOptions.transformer === undefined ? {} : { transformer: linkOptions.transformer };
+
+  // WebSocket clients by URL, with the number of link chains holding each
+  const clients = new Map<string, { client: TRPCWebSocketClient; holders: number }>();
+
+  const acquireClient = (url: string) => {
+    let pooled = clients.get(url);
+    if (!pooled) {
+      pooled = { client: createWSClient({ ...wsClientOptions, url }), holders: 0 };
+      clients.set(url, pooled);
+    }
+    pooled.holders++;
+    return pooled.client;
+  };
+
+  const releaseClient = (url: string) => {
+    const pooled = clients.get(url);
+    if (pooled && --pooled.holders === 0) {
+      clients.delete(url);
+      void pooled.client.close().catch(() => {});
+    }
+  };
+
+  const isSubscription = (op: Operation) => op.type === 'subscription';
+
+  return (endpoint) => {
+    // We use type assertions here because the tRPC links' complex generic
+    // types don't always infer correctly with dynamic linkOptions
+    const createHttpLink =
+      http === 'httpBatchStreamLink' ? httpBatchStreamLink : httpBatchLink;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const httpLink = createHttpLink({
+      url: endpoint,
+      ...linkOptions,
+      // Propagate the trace context of tracingLink, if present
+      headers: async (opts: { opList: Operation[] }) => ({
+        ...getTraceHeaders(opts.opList),
+        ...Object.fromEntries(
+          new Headers(typeof headers === 'function' ? await headers(opts) : headers)
+        ),
+      }),
+    } as any) as TRPCLink<TRouter>;
+
+    if (subscriptions === 'httpSubscriptionLink') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const sseLink = httpSubscriptionLink({
+        ...sseOptions,
+        url: endpoint,
+        ...transformerOptions,
+      } as any) as TRPCLink<TRouter>;
+      return splitLink({ condition: isSubscription, true: sseLink, false: httpLink });
+    }
+
+    // The WebSocket client is only created for the first subscription, so
+    // endpoints serving queries and mutations alone never open a socket
+    let url: string | undefined;
+    let held = 0;
+    const lazyWsLink: TRPCLink<TRouter> = (runtime) => {
+      let operationLink: OperationLink<TRouter> | undefined;
+      return (opts) => {
+        if (!operationLink) {
+          try {
+            url ??= wsUrl(endpoint);
+          } catch (err) {
+            return observable((observer) => {
+              observer.error(TRPCClientError.from(err as Error));
+            });
+          }
+          held++;
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          operationLink = wsLink({
+            client: acquireClient(url),
+            ...transformerOptions,
+          } as any)(runtime) as OperationLink<TRouter>;
+        }
+        return operationLink(opts);
+      };
+    };
+
+    return {
+      links: splitLink({ condition: isSubscription, true: lazyWsLink, false: httpLink }),
+      dispose: () => {
+        for (; held > 0 && url !== undefined; held--) {
+          releaseClient(url);
+        }
+      },
+    };
+  };
+}
@@ -1,5 +1,11 @@
-import type { TRPCLink, Operation } from '@trpc/client';
+import type {
+  TRPCClientRuntime,
+  TRPCLink,
+  Operation,
+  WebSocketClientOptions,
+} from '@trpc/client';
 import type { AnyRouter } from '@trpc/server';
+import type { TRPC_ERROR_CODE_KEY } from '@trpc/server/rpc';
 
 /**
  * A single link or an array of links that will be chained together.
@@ -21,6 +27,81 @@ export type RouterNames<TRouter extends AnyRouter> =
       : never
     : never;
 
+/**
+ * Expands a dotted key into every dotted prefix of it.
+ * "billing.payouts.list" -> "billing" | "billing.payouts" | "billing.payouts.list"
+ */
+type DottedPrefixes<K extends string> = K extends `${infer Head}.${infer Rest}`
+  ? Head | `${Head}.${DottedPrefixes<Rest>}`
+  : K;
+
+/**
+ * Walks a (possibly nested) procedure record and collects every dotted prefix
+ * of every procedure path. Flat records with dotted keys are supported too.
+ */
+type RecordPaths<TRecord> = {
+  [K in keyof TRecord & string]: TRecord[K] extends { _def: { procedure: true } }
+    ? DottedPrefixes<K>
+    : TRecord[K] extends Record<string, unknown>
+      ? DottedPrefixes<K> | `${K}.${RecordPaths<TRecord[K]>}`
+      : DottedPrefixes<K>;
+}[keyof TRecord & string];
+
+/**
+ * Extract every router path and procedure path from a tRPC AppRouter type.
+ * Includes top-level routers ("billing"), nested routers ("billing.payouts")
+ * and full procedure paths ("billing.payouts.list").
+ */
+export type RouterPaths<TRouter extends AnyRouter> = RecordPaths<
+  TRouter['_def']['procedures']
+>;
+
+/**
+ * Walks a (possibly nested) procedure record and collects the full path of every
+ * procedure whose type is in `TType`. Leaves without a procedure definition
+ * (e.g. flat records with dotted keys) count as procedures of unknown type.
+ */
+type RecordProcedurePaths<TRecord, TType> = {
+  [K in keyof TRecord & string]: TRecord[K] extends { _def: { procedure: true } }
+    ? TRecord[K] extends { _def: { type: TType } }
+      ? K
+      : never
+    : TRecord[K] extends Record<string, unknown>
+      ? `${K}.${RecordProcedurePaths<TRecord[K], TType>}`
+      : Operation['type'] extends TType
+        ? K
+        : never;
+}[keyof TRecord & string];
+
+/**
+ * Extract every full procedure path from a tRPC AppRouter type.
+ * "users.getAll" | "billing.payouts.list" | ...
+ */
+export type ProcedurePaths<TRouter extends AnyRouter> = RecordProcedurePaths<
+  TRouter['_def']['procedures'],
+  Operation['type']
+>;
+
+/**
+ * Extract the full paths of procedures of one operation type from a tRPC AppRouter type.
+ * `ProcedurePathsByType<AppRouter, 'mutation'>` -> "users.update" | "billing.refund" | ...
+ */
+export type ProcedurePathsByType<
+  TRouter extends AnyRouter,
+  TType extends Operation['type'],
+> = RecordProcedurePaths<TRouter['_def']['procedures'], TType>;
+
+/**
+ * Extract every router path (top-level and nested routers, but not procedures)
+ * from a tRPC AppRouter type.
+ * "users" | "billing" | "billing.payouts"
+ */
+export type RouterPrefixes<TRouter extends AnyRouter> =
+  // Untyped routers (AnyRouter) have string paths, which Exclude would reduce to never
+  string extends ProcedurePaths<TRouter>
+    ? string
+    : Exclude<RouterPaths<TRouter>, ProcedurePaths<TRouter>>;
+
 /**
  * Full mapping type requiring all router names to be mapped.
  */
@@ -36,10 +117,11 @@ export type PartialRouterMapping<TRouter extends AnyRouter> =
 
 /**
  * Selector function context for switchLink.
+ * `TPath` narrows `path` to the procedure paths of a typed router.
  */
-export interface SwitchLinkSelectorContext<TContext = unknown> {
+export interface SwitchLinkSelectorContext<TContext = unknown, TPath extends string = string> {
   /** The full procedure path (e.g., "users.getAll") */
-  path: string;
+  path: TPath;
   /** The operation type */
   type: 'query' | 'mutation' | 'subscription';
   /** The operation context */
@@ -48,24 +130,121 @@ export interface SwitchLinkSelectorContext<TContext = unknown> {
   op: Operation;
 }
 
+/**
+ * Links for an endpoint together with a teardown for resources they hold
+ * (e.g. closing a WebSocket client), called when the chain is evicted or disposed.
+ */
+export interface DisposableLinks<TRouter extends AnyRouter> {
+  links: LinkOrLinks<TRouter>;
+  dispose?: () => void;
+  /**
+   * Names of the links in chain order, shown by routing tables. tRPC links are
+   * anonymous functions, so without labels only named links can be told apart.
+   */
+  labels?: readonly string[];
+}
+
 /**
  * Link factory function type for creating links dynamically.
- * Can return a single link or an array of links that will be chained.
+ * Can return a single link or an array of links that will be chained, optionally
+ * wrapped with a `dispose` callback.
  */
 export type LinkFactory<TRouter extends AnyRouter> = (
   endpoint: string
-) => LinkOrLinks<TRouter>;
+) => LinkOrLinks<TRouter> | DisposableLinks<TRouter>;
+
+/**
+ * A link that holds resources and can be torn down explicitly,
+ * or with `using` through Symbol.dispose.
+ */
+export type DisposableLink<TRouter extends AnyRouter> = TRPCLink<TRouter> & {
+  /** Tears down every cached link chain and stops reacting to mapping changes */
+  dispose(): void;
+  [Symbol.dispose](): void;
+};
+
+/**
+ * Bounds for the per-endpoint link chain cache of endpointRouterLink.
+ * Chains with operations in flight are never torn down early.
+ */
+export interface LinkCacheOptions {
+  /** Maximum cached chains; least recently used idle chains are evicted first */
+  maxSize?: number;
+  /** Maximum age of a chain before it is recreated */
+  ttlMs?: number;
+  /** Evicts chains that have had no operations in flight for this long */
+  idleTimeoutMs?: number;
+}
 
 /**
  * Options for creating links with full customization.
  */
 export interface LinkFactoryOptions {
   url: string;
-  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+  headers?:
+    | HeadersInit
+    | ((opts: { opList: readonly Operation[] }) => HeadersInit | Promise<HeadersInit>);
   fetch?: typeof fetch;
   [key: string]: unknown;
 }
 
+/**
+ * Links the default endpointRouterLink link factory creates for each endpoint:
+ * one for queries and mutations, and one for subscriptions.
+ */
+export interface EndpointTransportOptions {
+  /** Link carrying queries and mutations (default: 'httpBatchLink') */
+  http?: 'httpBatchLink' | 'httpBatchStreamLink';
+  /**
+   * Link carrying subscriptions (default: 'httpSubscriptionLink'):
+   * - httpSubscriptionLink: server-sent events on the endpoint URL
+   * - wsLink: a WebSocket client per endpoint, opened on the first subscription
+   *   and shared by every link chain of the endpoint
+   */
+  subscriptions?: 'httpSubscriptionLink' | 'wsLink';
+  /**
+   * WebSocket URL of an endpoint (default: the endpoint URL with a ws: or wss:
+   * scheme; relative endpoints are resolved against the page location)
+   */
+  wsUrl?: (endpoint: string) => string;
+  /**
+   * Options of the WebSocket clients besides `url`, e.g. `connectionParams`
+   * carrying an auth token, `lazy` or `keepAlive`
+   */
+  wsClientOptions?: Omit<WebSocketClientOptions, 'url'>;
+  /** Options of the httpSubscriptionLink of each endpoint besides `url` */
+  sseOptions?: EndpointSSEOptions;
+}
+
+/**
+ * Options of the server-sent events link the default link factory creates.
+ * Browsers' EventSource cannot send headers: to authenticate subscriptions, or
+ * to propagate the trace context of tracingLink, use `connectionParams` or an
+ * EventSource ponyfill accepting headers.
+ *
+ * @example
+ * ```ts
+ * import { EventSourcePolyfill } from 'event-source-polyfill';
+ *
+ * const sseOptions: EndpointSSEOptions = {
+ *   EventSource: EventSourcePolyfill,
+ *   eventSourceOptions: ({ op }) => ({
+ *     headers: { authorization: `Bearer ${getToken()}`, ...getTraceHeaders(op) },
+ *   }),
+ * };
+ * ```
+ */
+export interface EndpointSSEOptions {
+  /** Connection params available in `createContext()`, sent in the URL */
+  connectionParams?: WebSocketClientOptions['connectionParams'];
+  /** EventSource implementation (default: the global EventSource) */
+  EventSource?: new (url: string, eventSourceInitDict?: never) => unknown;
+  /** Options of each EventSource, or a callback returning them per subscription */
+  eventSourceOptions?:
+    | Record<string, unknown>
+    | ((opts: { op: Operation }) => Record<string, unknown> | Promise<Record<string, unknown>>);
+}
+
 /**
  * Configuration for switchLink.
  */
@@ -76,9 +255,12 @@ export interface SwitchLinkOptions<
 > {
   /**
    * Selector function that determines which case to use for each operation.
-   * Must return one of the keys defined in `cases`.
+   * Must return one of the keys defined in `cases`, or a promise of one
+   * (the operation is queued until it resolves).
    */
-  select: (context: SwitchLinkSelectorContext<TContext>) => K;
+  select: (
+    context: SwitchLinkSelectorContext<TContext, ProcedurePaths<TRouter>>
+  ) => K | Promise<K>;
 
   /**
    * Map of case keys to their corresponding links.
@@ -86,25 +268,297 @@ export interface SwitchLinkOptions<
    * TypeScript enforces that ALL keys in union K must be present.
    */
   cases: { [P in K]: LinkOrLinks<TRouter> };
+
+  /**
+   * Fallback used when the selector returns a key that has no case at runtime,
+   * instead of failing the operation with an "unknown key" error.
+   */
+  default?: LinkOrLinks<TRouter>;
 }
 
 /**
- * Configuration for endpointRouterLink.
+ * Compile-time check that every case key is targeted by a switchRules rule.
+ * Resolves to an empty tuple when all keys are reachable, otherwise to a
+ * required argument describing the unreachable keys.
  */
-export interface EndpointRouterLinkOptions<
+type ReachabilityCheck<K extends string> = [K] extends [never]
+  ? []
+  : [error: `switchRules: no rule routes to case "${K}"`];
+
+/**
+ * Declarative builder for switchLink selectors. Rules are evaluated in declared
+ * order and the first match wins; `otherwise` names the case for operations
+ * no rule matches and returns the `select` function.
+ */
+export interface SwitchRulesBuilder<
+  K extends string,
+  TContext = unknown,
+  TRouter extends AnyRouter = AnyRouter,
+  TUsed extends K = never,
+> {
+  /** Routes procedures under a dotted path prefix (e.g. "admin" or "billing.payouts") */
+  prefix<TKey extends K>(
+    prefix: RouterPaths<TRouter>,
+    key: TKey
+  ): SwitchRulesBuilder<K, TContext, TRouter, TUsed | TKey>;
+
+  /**
+   * Routes procedures matching a glob (`*` within a segment, `**` across segments)
+   * or a regular expression
+   */
+  glob<TKey extends K>(
+    pattern: string | RegExp,
+    key: TKey
+  ): SwitchRulesBuilder<K, TContext, TRouter, TUsed | TKey>;
+
+  /** Routes operations of the given type(s) */
+  type<TKey extends K>(
+    type: Operation['type'] | Operation['type'][],
+    key: TKey
+  ): SwitchRulesBuilder<K, TContext, TRouter, TUsed | TKey>;
+
+  /** Routes operations for which the predicate returns true */
+  when<TKey extends K>(
+    predicate: (
+      context: SwitchLinkSelectorContext<TContext, ProcedurePaths<TRouter>>
+    ) => boolean,
+    key: TKey
+  ): SwitchRulesBuilder<K, TContext, TRouter, TUsed | TKey>;
+
+  /**
+   * Names the case for operations no rule matches and returns the selector.
+   * Fails to compile while any key of `K` is not targeted by a rule or the fallback.
+   */
+  otherwise<TKey extends K>(
+    key: TKey,
+    ...check: ReachabilityCheck<Exclude<K, TUsed | TKey>>
+  ): (context: SwitchLinkSelectorContext<TContext, ProcedurePaths<TRouter>>) => K;
+}
+
+/**
+ * Client-side load-balancing strategy for a replica group.
+ * - round-robin: replicas take turns (default)
+ * - weighted: smooth weighted round-robin using each replica's `weight`
+ * - random: uniformly random replica
+ * - least-in-flight: replica with the fewest active operations in this link
+ */
+export type LoadBalancingStrategy =
+  | 'round-robin'
+  | 'weighted'
+  | 'random'
+  | 'least-in-flight';
+
+/**
+ * A replica URL with an optional weight (used by the 'weighted' strategy).
+ */
+export interface EndpointReplica {
+  url: string;
+  /** Relative share of traffic (default: 1) */
+  weight?: number;
+}
+
+/**
+ * Several replicas of the same service that traffic is spread across.
+ * Each replica keeps its own cached link chain, so batching works per replica.
+ */
+export interface ReplicaGroup {
+  replicas: readonly (string | EndpointReplica)[];
+  /** Load-balancing strategy (default: 'round-robin') */
+  strategy?: LoadBalancingStrategy;
+}
+
+/**
+ * Where an endpointRouterLink mapping sends operations: a single endpoint URL,
+ * an ordered failover list (primary, secondary, ...), or a load-balanced replica group.
+ */
+export type EndpointTarget = string | readonly string[] | ReplicaGroup;
+
+/**
+ * Reported when an endpoint changes between healthy and unhealthy.
+ */
+export interface EndpointHealthChange {
+  /** The endpoint URL */
+  endpoint: string;
+  /** The new health state */
+  healthy: boolean;
+  /** The network error that made the endpoint unhealthy */
+  error?: unknown;
+  /** When the transition happened (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Failover behaviour for targets mapped to several endpoints.
+ */
+export interface EndpointFailoverOptions {
+  /** How long a failing endpoint is skipped before being tried again (default: 30s) */
+  cooldownMs?: number;
+  /** Called whenever an endpoint becomes unhealthy or recovers */
+  onHealthChange?: (event: EndpointHealthChange) => void;
+  /**
+   * Decides which errors trigger failover.
+   * Defaults to network-level TRPCClientErrors (no tRPC error response received).
+   */
+  isFailoverError?: (error: unknown) => boolean;
+}
+
+/**
+ * Resolves the router-to-endpoint mapping for each new operation.
+ * May return a promise; memoize expensive lookups, since it runs per operation.
+ */
+export type EndpointMappingResolver<TMapping> = () => TMapping | Promise<TMapping>;
+
+/**
+ * A subscribable source of router-to-endpoint mappings that can change at runtime.
+ */
+export interface EndpointRegistry<TMapping> {
+  /** The current mapping, or undefined if it has not been loaded yet */
+  get(): TMapping | undefined;
+  /** Resolves the current mapping, loading it on first use */
+  load(): Promise<TMapping>;
+  /** Subscribes to mapping changes; returns an unsubscribe function */
+  subscribe(listener: (mapping: TMapping) => void): () => void;
+}
+
+/**
+ * A registry created by createEndpointRegistry, which can also be updated.
+ */
+export interface ManagedEndpointRegistry<TMapping> extends EndpointRegistry<TMapping> {
+  /** Replaces the mapping and notifies subscribers */
+  set(mapping: TMapping): void;
+  /** Reloads the mapping through the `load` option and notifies subscribers */
+  refresh(): Promise<TMapping>;
+}
+
+/**
+ * Configuration for createEndpointRegistry.
+ */
+export interface EndpointRegistryOptions<TMapping> {
+  /** Mapping available synchronously before anything is loaded */
+  initial?: TMapping;
+  /** Loads the mapping, e.g. from a config service (called on first use and on refresh) */
+  load?: () => Promise<TMapping>;
+}
+
+/**
+ * Where endpointRouterLink reads its mapping from: a static object, a resolver
+ * function or a registry. Changes apply to new operations without recreating the client.
+ */
+export type EndpointMappingSource<TMapping> =
+  | TMapping
+  | EndpointMappingResolver<TMapping>
+  | EndpointRegistry<TMapping>;
+
+/**
+ * Matches an operation for an endpointRouterLink rule.
+ * - string: glob over the procedure path, where `*` matches within a single
+ *   segment and `**` matches across segments (e.g. "admin.*.export*")
+ * - RegExp: tested against the procedure path
+ * - function: predicate over the path, op type and context
+ */
+export type EndpointRuleMatcher<TContext = unknown, TPath extends string = string> =
+  | string
+  | RegExp
+  | ((context: SwitchLinkSelectorContext<TContext, TPath>) => boolean);
+
+/**
+ * A routing rule evaluated before the routerToEndpoint map.
+ */
+export interface EndpointRule<TContext = unknown, TPath extends string = string> {
+  /** Glob, regex or predicate the operation has to match */
+  match: EndpointRuleMatcher<TContext, TPath>;
+  /** Optionally restrict the rule to certain operation types */
+  type?: Operation['type'] | Operation['type'][];
+  /** Endpoint URL, failover list or replica group used when the rule matches */
+  endpoint: EndpointTarget;
+}
+
+/**
+ * A raw endpoint URL, absolute or relative to the current origin.
+ */
+export type EndpointUrl = `http://${string}` | `https://${string}` | `/${string}`;
+
+/**
+ * Allowlist of endpoints an operation may force through its context.
+ */
+export interface EndpointOverrideOptions<
+  TNames extends string = string,
+  TKey extends string = 'endpoint',
+> {
+  /** Context key holding the override (default: 'endpoint') */
+  contextKey?: TKey;
+  /**
+   * Named endpoints that may be forced, e.g. `{ staging: 'https://staging.internal/trpc' }`.
+   * Raw URLs are only honored if they appear here as a value.
+   */
+  endpoints: Record<TNames, string>;
+}
+
+/**
+ * Operation context carrying an endpoint override, e.g.
+ * `client.users.get.query(input, { context: { endpoint: 'staging' } })`.
+ */
+export type EndpointOverrideContext<
+  TNames extends string = string,
+  TKey extends string = 'endpoint',
+> = { [K in TKey]?: TNames | EndpointUrl };
+
+/**
+ * Options shared by endpointRouterLink and typedEndpointRouterLink.
+ */
+export interface EndpointRouterLinkBaseOptions<
   TRouter extends AnyRouter,
-  TMapping extends Record<string, string>,
+  TContext = unknown,
 > {
-  /** Map of router names to endpoint URLs */
-  routerToEndpoint: TMapping;
-  /** Default endpoint for unmapped routers */
-  defaultEndpoint?: string;
+  /**
+   * Lets operations force an endpoint through `op.context` (for debugging, preview
+   * environments or admin tooling). Checked before rules and the router map, and
+   * limited to the allowlisted endpoints.
+   */
+  endpointOverride?: EndpointOverrideOptions<string, string>;
+  /**
+   * Rules evaluated in declared order before routerToEndpoint and defaultEndpoint.
+   * The first matching rule decides the endpoint.
+   */
+  rules?: EndpointRule<TContext, ProcedurePaths<TRouter>>[];
+  /** Default endpoint, failover list or replica group for unmapped routers */
+  defaultEndpoint?: EndpointTarget;
   /** If true, throws an error for unmapped routers without a defaultEndpoint */
   strict?: boolean;
-  /** Custom link factory function (defaults to httpBatchLink) */
+  /**
+   * Failover and health tracking for targets with several endpoints.
+   * Queries failing with a network error are replayed against the next endpoint
+   * (or the next replica of a replica group).
+   */
+  failover?: EndpointFailoverOptions;
+  /**
+   * Custom link factory function (defaults to httpBatchLink for queries and
+   * mutations, and httpSubscriptionLink for subscriptions; see `transport`)
+   */
   linkFactory?: LinkFactory<TRouter>;
   /** Options passed to the default link factory (headers, fetch, etc.) */
   linkOptions?: Omit<LinkFactoryOptions, 'url'>;
+  /** Links the default link factory creates per endpoint (ignored with a `linkFactory`) */
+  transport?: EndpointTransportOptions;
+  /** Bounds for the per-endpoint link chain cache (unbounded by default) */
+  cache?: LinkCacheOptions;
+}
+
+/**
+ * Configuration for endpointRouterLink.
+ */
+export interface EndpointRouterLinkOptions<
+  TRouter extends AnyRouter,
+  TMapping extends Record<string, EndpointTarget>,
+  TContext = unknown,
+> extends EndpointRouterLinkBaseOptions<TRouter, TContext> {
+  /**
+   * Map of router names to endpoint URLs, ordered failover lists or replica groups.
+   * Keys may also be nested router paths ("billing.payouts") or full procedure
+   * paths ("users.uploadAvatar"); the longest matching prefix wins.
+   * Pass a resolver function or a registry to change the mapping at runtime.
+   */
+  routerToEndpoint: EndpointMappingSource<TMapping>;
 }
 
 /**
@@ -112,16 +566,1066 @@ export interface EndpointRouterLinkOptions<
  */
 export interface TypedEndpointRouterLinkOptions<
   TRouter extends AnyRouter,
-  TRouterNames extends string = RouterNames<TRouter>,
-> {
-  /** Map of router names to endpoint URLs (type-safe with AppRouter) */
-  routerToEndpoint: Partial<Record<TRouterNames, string>> & Record<string, string>;
-  /** Default endpoint for unmapped routers */
-  defaultEndpoint?: string;
-  /** If true, throws an error for unmapped routers without a defaultEndpoint */
-  strict?: boolean;
-  /** Custom link factory function (defaults to httpBatchLink) */
-  linkFactory?: LinkFactory<TRouter>;
-  /** Options passed to the default link factory (headers, fetch, etc.) */
-  linkOptions?: Omit<LinkFactoryOptions, 'url'>;
+  TRouterNames extends string = RouterPaths<TRouter>,
+  TContext = unknown,
+  TOverrideNames extends string = string,
+  TOverrideKey extends string = 'endpoint',
+> extends Omit<
+    EndpointRouterLinkBaseOptions<
+      TRouter,
+      TContext & EndpointOverrideContext<TOverrideNames, TOverrideKey>
+    >,
+    'endpointOverride'
+  > {
+  /**
+   * Lets operations force an endpoint through `op.context[contextKey]`.
+   * The context key and the allowed names are typed for rule predicates.
+   */
+  endpointOverride?: EndpointOverrideOptions<TOverrideNames, TOverrideKey>;
+  /**
+   * Map of router names, nested router paths or procedure paths to endpoint
+   * URLs (type-safe with AppRouter). The longest matching prefix wins.
+   * Pass a resolver function or a registry to change the mapping at runtime.
+   */
+  routerToEndpoint: EndpointMappingSource<{ [K in TRouterNames]?: EndpointTarget }>;
+}
+
+/**
+ * Circuit breaker states.
+ * - closed: operations pass through and outcomes are recorded
+ * - open: operations fail fast until the reset timeout elapses
+ * - half-open: a limited number of trial operations decide whether to close again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Reported when a circuit breaker changes state.
+ */
+export interface CircuitStateChange {
+  /** Name of the breaker (usually the endpoint URL) */
+  name: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** The failure that opened the circuit, if any */
+  error?: unknown;
+  /** When the transition happened (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Configuration for a circuit breaker.
+ */
+export interface CircuitBreakerOptions {
+  /** Name used in events and errors, usually the endpoint URL (default: 'default') */
+  name?: string;
+  /** Failure rate (0-1) within the window that opens the circuit (default: 0.5) */
+  failureRateThreshold?: number;
+  /** Minimum outcomes in the window before the failure rate is evaluated (default: 5) */
+  minimumRequests?: number;
+  /** Sliding window for failure-rate tracking (default: 10s) */
+  windowMs?: number;
+  /** How long the circuit stays open before allowing trial operations (default: 30s) */
+  resetTimeoutMs?: number;
+  /** Trial operations allowed at once while half-open (default: 1) */
+  halfOpenMaxOperations?: number;
+  /**
+   * Decides which errors count as failures.
+   * Defaults to network-level errors and responses with HTTP status >= 500.
+   */
+  isFailure?: (error: unknown) => boolean;
+  /** Called on every state transition */
+  onStateChange?: (event: CircuitStateChange) => void;
+}
+
+/**
+ * Permission for one operation to pass a circuit breaker.
+ * Only the first call among its methods has an effect.
+ */
+export interface CircuitPermit {
+  /** The operation succeeded */
+  success(): void;
+  /** The operation failed; errors rejected by `isFailure` count as successes */
+  failure(error: unknown): void;
+  /** The operation ended without an outcome (e.g. it was unsubscribed) */
+  release(): void;
+}
+
+/**
+ * A circuit breaker shared by one or more circuitBreakerLinks.
+ */
+export interface CircuitBreaker {
+  /** Name used in events and errors */
+  readonly name: string;
+  /** Current state (an elapsed open circuit reports 'half-open') */
+  getState(): CircuitState;
+  /**
+   * Reserves permission for one operation.
+   * Returns undefined if the circuit currently rejects operations.
+   */
+  tryAcquire(): CircuitPermit | undefined;
+  /** Milliseconds until an open circuit allows trial operations (0 otherwise) */
+  getRetryAfterMs(): number;
+  /** Subscribes to state transitions; returns an unsubscribe function */
+  subscribe(listener: (event: CircuitStateChange) => void): () => void;
+  /** Forces the circuit closed and clears recorded outcomes */
+  reset(): void;
+}
+
+/**
+ * Configuration for circuitBreakerLink.
+ * Either pass an existing breaker (to share it between links) or breaker options.
+ */
+export type CircuitBreakerLinkOptions = CircuitBreakerOptions | { breaker: CircuitBreaker };
+
+/**
+ * Retry behaviour for an operation. Used globally and per router by retryLink.
+ * `TMutationPath` narrows `retryMutations` to the mutation paths of a typed router.
+ */
+export interface RetryPolicy<TMutationPath extends string = string> {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on each attempt (default: 300ms) */
+  baseDelayMs?: number;
+  /** Upper bound for the backoff delay (default: 10s) */
+  maxDelayMs?: number;
+  /** Randomize delays between 0 and the backoff delay ("full jitter") (default: true) */
+  jitter?: boolean;
+  /**
+   * Mutation procedure paths that are safe to retry (idempotent).
+   * Mutations are never retried unless listed here.
+   */
+  retryMutations?: readonly TMutationPath[];
+  /** Reconnect subscriptions that fail (default: true) */
+  retrySubscriptions?: boolean;
+  /**
+   * Decides which errors are retried.
+   * Defaults to network-level errors and responses with HTTP status >= 500.
+   */
+  retryOn?: (error: unknown, context: { op: Operation; attempt: number }) => boolean;
+}
+
+/**
+ * Caps the number of retries a retryLink performs within a time window,
+ * so an outage does not multiply traffic.
+ */
+export interface RetryBudget {
+  /** Retries allowed within the window */
+  maxRetries: number;
+  /** Sliding window length (default: 10s) */
+  windowMs?: number;
+}
+
+/**
+ * Reported before each retry (or subscription reconnect) is scheduled.
+ */
+export interface RetryEvent {
+  op: Operation;
+  /** The attempt that just failed (1 = first attempt) */
+  attempt: number;
+  /** Delay before the next attempt */
+  delayMs: number;
+  error: unknown;
+}
+
+/**
+ * Configuration for retryLink.
+ */
+export interface RetryLinkOptions<TRouter extends AnyRouter>
+  extends RetryPolicy<ProcedurePathsByType<TRouter, 'mutation'>> {
+  /**
+   * Per-router overrides, merged over the top-level policy. Keys may be routers,
+   * nested routers or procedure paths; the longest matching prefix wins.
+   */
+  routers?: {
+    [K in RouterPaths<TRouter>]?: RetryPolicy<ProcedurePathsByType<TRouter, 'mutation'>>;
+  };
+  /** Retry budget shared by every operation passing through the link */
+  budget?: RetryBudget;
+  /** Called before each retry is scheduled */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * Severity of a router mapping diagnostic. Only errors make a report invalid.
+ */
+export type RouterMappingSeverity = 'error' | 'warning';
+
+/**
+ * A single finding of validateRouterMapping.
+ * - unmapped-router: procedures of a router resolve to no endpoint
+ * - stale-key: a mapping key matches no router or procedure of the AppRouter
+ * - duplicate-endpoint: several keys route to the same endpoint URL
+ * - invalid-url: an endpoint is neither an http(s) URL nor an absolute path
+ */
+export type RouterMappingDiagnostic =
+  | {
+      code: 'unmapped-router';
+      severity: RouterMappingSeverity;
+      message: string;
+      /** Top-level router name */
+      router: string;
+      /** Procedure (or lazy router) paths under the router without an endpoint */
+      paths: string[];
+    }
+  | {
+      code: 'stale-key';
+      severity: RouterMappingSeverity;
+      message: string;
+      key: string;
+    }
+  | {
+      code: 'duplicate-endpoint';
+      severity: RouterMappingSeverity;
+      message: string;
+      endpoint: string;
+      /** Mapping keys routing to the endpoint, in declared order */
+      keys: string[];
+    }
+  | {
+      code: 'invalid-url';
+      severity: RouterMappingSeverity;
+      message: string;
+      /** Mapping key, or "defaultEndpoint" */
+      key: string;
+      endpoint: string;
+    };
+
+/**
+ * Result of validateRouterMapping.
+ */
+export interface RouterMappingReport {
+  /** Whether no diagnostic has severity 'error' */
+  valid: boolean;
+  diagnostics: RouterMappingDiagnostic[];
+}
+
+/**
+ * Options for validateRouterMapping.
+ */
+export interface ValidateRouterMappingOptions {
+  /**
+   * Fallback target used by the link. Unmapped routers are only reported as
+   * warnings when it is set.
+   */
+  defaultEndpoint?: EndpointTarget;
+  /** Router or procedure paths that are intentionally left unmapped (e.g. "health") */
+  ignore?: readonly string[];
+  /** Severity overrides per diagnostic code */
+  severity?: Partial<Record<RouterMappingDiagnostic['code'], RouterMappingSeverity>>;
+}
+
+/**
+ * How a routing table row got its endpoint.
+ * - rule: a glob or regex rule (the index is the rule's position in `rules`)
+ * - mapping: a routerToEndpoint key (the longest matching prefix)
+ * - default: the defaultEndpoint
+ * - unmapped: nothing; the operation would fail
+ */
+export type RoutingSource =
+  | { kind: 'rule'; index: number }
+  | { kind: 'mapping'; key: string }
+  | { kind: 'default' }
+  | { kind: 'unmapped' };
+
+/**
+ * One procedure of a routing table.
+ */
+export interface RoutingTableRow {
+  /** Procedure path, or the path of a lazy router that is not loaded yet */
+  path: string;
+  type: Operation['type'] | 'lazy';
+  /** Endpoint URLs in the order they are tried (empty when unmapped) */
+  endpoints: string[];
+  /** Load-balancing strategy when the target is a replica group */
+  strategy?: LoadBalancingStrategy;
+  source: RoutingSource;
+  /** Names of the links created for the endpoint, in chain order */
+  chain: string[];
+}
+
+/**
+ * Routing configuration rendered by createRoutingTable: the same options
+ * endpointRouterLink takes, with the mapping already resolved.
+ */
+export interface RoutingTableOptions<TRouter extends AnyRouter = AnyRouter>
+  extends Pick<
+    EndpointRouterLinkBaseOptions<TRouter>,
+    'rules' | 'defaultEndpoint' | 'linkFactory' | 'transport'
+  > {
+  routerToEndpoint: Record<string, EndpointTarget | undefined>;
+  /**
+   * Names of the links of an endpoint's chain, by endpoint URL. Take precedence
+   * over the `labels` the link factory returns.
+   */
+  linkLabels?: Record<string, readonly string[]>;
+}
+
+/**
+ * Routing decision recorded by endpointRouterLink and switchLink for an operation,
+ * read by metricsLink (and other links placed before the routing links).
+ */
+export interface RoutingDecision {
+  /** Endpoint chosen by endpointRouterLink (the last one tried on failover) */
+  endpoint?: string;
+  /** Endpoint attempts made by endpointRouterLink, including failover replays */
+  attempts?: number;
+  /** Case key chosen by switchLink */
+  case?: string;
+}
+
+/**
+ * How an operation ended.
+ * - ok: completed (or, for subscriptions, ended by the server)
+ * - error: failed; see `errorCode`
+ * - aborted: unsubscribed or aborted through `op.signal` before it ended
+ */
+export type OperationOutcome = 'ok' | 'error' | 'aborted';
+
+/**
+ * One finished operation, as reported by metricsLink.
+ */
+export interface OperationMetric extends RoutingDecision {
+  path: string;
+  type: Operation['type'];
+  /** Top-level router name */
+  router: string;
+  outcome: OperationOutcome;
+  /**
+   * tRPC error code (e.g. "INTERNAL_SERVER_ERROR"), "NETWORK_ERROR" for network-level
+   * failures, "CIRCUIT_OPEN" for open circuit breakers, "TIMEOUT" for timeoutLink
+   * deadlines, "RATE_LIMITED" for rateLimitLink rejections, otherwise "UNKNOWN"
+   */
+  errorCode?: string;
+  durationMs: number;
+  /** When the operation started (ms since epoch) */
+  startedAt: number;
+}
+
+/**
+ * Destination for metricsLink measurements (e.g. a Prometheus or StatsD adapter).
+ */
+export interface MetricsReporter {
+  report(metric: OperationMetric): void;
+}
+
+/**
+ * Configuration for metricsLink.
+ */
+export interface MetricsLinkOptions {
+  reporter: MetricsReporter;
+}
+
+/**
+ * Fields a histogram reporter can filter recorded metrics by.
+ */
+export type OperationMetricFilter = Partial<
+  Pick<OperationMetric, 'path' | 'type' | 'router' | 'endpoint' | 'case' | 'outcome' | 'errorCode'>
+>;
+
+/**
+ * Latency histogram over recorded operations. Bucket counts are cumulative:
+ * each bucket counts the operations that took at most `le` milliseconds.
+ */
+export interface LatencyHistogram {
+  count: number;
+  sumMs: number;
+  buckets: { le: number; count: number }[];
+}
+
+/**
+ * In-memory reporter keeping every metric, for tests and local debugging.
+ */
+export interface HistogramReporter extends MetricsReporter {
+  /** Recorded metrics, oldest first */
+  readonly metrics: readonly OperationMetric[];
+  /** Latency histogram of the metrics matching the filter */
+  histogram(filter?: OperationMetricFilter): LatencyHistogram;
+  /** Latency percentile (0-100) of the metrics matching the filter, or undefined if none */
+  percentile(percentile: number, filter?: OperationMetricFilter): number | undefined;
+  /** Drops every recorded metric */
+  reset(): void;
+}
+
+/**
+ * Options for createHistogramReporter.
+ */
+export interface HistogramReporterOptions {
+  /** Upper bounds of the histogram buckets in milliseconds */
+  buckets?: number[];
+  /** Maximum metrics kept; the oldest are dropped first (default: 10,000) */
+  maxMetrics?: number;
+}
+
+/**
+ * W3C trace context of a span (https://www.w3.org/TR/trace-context/).
+ */
+export interface TraceContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  sampled: boolean;
+  /** Vendor-specific `tracestate` header value */
+  traceState?: string;
+}
+
+/**
+ * Attribute values supported on spans.
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * A finished client span for one operation.
+ */
+export interface TraceSpan extends TraceContext {
+  /** Span id of the parent span, when the trace was continued */
+  parentSpanId?: string;
+  /** The procedure path */
+  name: string;
+  kind: 'client';
+  /** Start and end time in ms since epoch */
+  startTime: number;
+  endTime: number;
+  /**
+   * - ok: the operation completed
+   * - error: the operation failed (see `error`)
+   * - unset: the operation was unsubscribed or aborted
+   */
+  status: 'ok' | 'error' | 'unset';
+  error?: unknown;
+  /**
+   * `rpc.system`, `rpc.service` (router name), `rpc.method` (procedure path),
+   * `trpc.type` and, when routed, `trpc.endpoint`, `trpc.attempts` and `trpc.case`
+   */
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * Destination for finished spans (e.g. an adapter to an OpenTelemetry exporter).
+ */
+export interface SpanExporter {
+  export(span: TraceSpan): void;
+}
+
+/**
+ * In-memory exporter keeping every finished span, for tests and local debugging.
+ */
+export interface InMemorySpanExporter extends SpanExporter {
+  /** Exported spans, in the order they finished */
+  readonly spans: readonly TraceSpan[];
+  reset(): void;
+}
+
+/**
+ * Configuration for tracingLink.
+ */
+export interface TracingLinkOptions {
+  exporter: SpanExporter;
+  /**
+   * Trace context to continue, e.g. from the server-rendered page.
+   * Defaults to the `traceparent`/`tracestate` strings in the operation context.
+   */
+  getParent?: (op: Operation) => { traceparent?: string; tracestate?: string } | undefined;
+  /** Decides whether a new trace is sampled (default: always). Continued traces keep their flag */
+  sampler?: (op: Operation) => boolean;
+  /** Extra attributes added to every span */
+  attributes?: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * Configuration for dedupeLink.
+ */
+export interface DedupeLinkOptions {
+  /**
+   * Extra key part read from the operation context. Identical queries are only
+   * shared when their context keys match too (e.g. return the auth token's user id).
+   * Return undefined to share regardless of context.
+   */
+  contextKey?: (context: Operation['context']) => string | undefined;
+}
+
+/**
+ * A query result stored by cacheLink.
+ */
+export interface CachedQueryResult {
+  /** The result data, after the transformer ran */
+  data: unknown;
+  /** When the result was stored (ms since epoch) */
+  storedAt: number;
+}
+
+/**
+ * Storage backing cacheLink. Methods may return promises, e.g. for IndexedDB.
+ * Keys start with the procedure path followed by `?`, and are otherwise opaque.
+ */
+export interface CacheStorageAdapter {
+  get(key: string): CachedQueryResult | undefined | Promise<CachedQueryResult | undefined>;
+  set(key: string, entry: CachedQueryResult): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+}
+
+/**
+ * Options for createMemoryCacheStorage.
+ */
+export interface MemoryCacheStorageOptions {
+  /** Maximum entries kept; the least recently used are dropped first (default: 500) */
+  maxEntries?: number;
+}
+
+/**
+ * What cache invalidation targets: a router name, a nested router or a procedure path.
+ */
+export type CacheInvalidationPrefix<TRouter extends AnyRouter = AnyRouter> =
+  | RouterPrefixes<TRouter>
+  | ProcedurePaths<TRouter>;
+
+/**
+ * Handle to the entries cached by a cacheLink.
+ */
+export interface QueryCache<TRouter extends AnyRouter = AnyRouter> {
+  /**
+   * Drops the cached queries under the given router names, nested routers or
+   * procedure paths. Requests in flight when this is called are not stored.
+   */
+  invalidate(...prefixes: CacheInvalidationPrefix<TRouter>[]): Promise<void>;
+  /** Drops every cached query */
+  clear(): Promise<void>;
+}
+
+/**
+ * Configuration for cacheLink.
+ */
+export interface CacheLinkOptions<TRouter extends AnyRouter = AnyRouter> {
+  /** How long a result is served without a request */
+  ttlMs: number;
+  /**
+   * How long past `ttlMs` a stale result is still served, while a request refreshes
+   * it in the background (default: 0, stale results are never served)
+   */
+  staleWhileRevalidateMs?: number;
+  /** Where results are stored (default: createMemoryCacheStorage()) */
+  storage?: CacheStorageAdapter;
+  /**
+   * Extra key part read from the operation context, so results are only shared
+   * between operations with the same context key (e.g. the signed-in user id)
+   */
+  contextKey?: (context: Operation['context']) => string | undefined;
+  /** Which queries are cached (default: every query) */
+  cacheable?: (op: Operation) => boolean;
+  /**
+   * Prefixes to invalidate after a mutation succeeds (default: the mutation's
+   * top-level router, so `billing.refund` clears every `billing.*` query).
+   * Pass false to only invalidate manually through `link.cache`.
+   */
+  invalidate?: false | ((op: Operation) => CacheInvalidationPrefix<TRouter>[]);
+}
+
+/**
+ * Limits rateLimitLink applies to a group of operations. Operations over a limit
+ * wait in a queue; with no limit set, operations pass through untouched.
+ */
+export interface RateLimit {
+  /** Operations started per `intervalMs`, refilled continuously (token bucket) */
+  tokensPerInterval?: number;
+  /** Refill interval of `tokensPerInterval` (default: 1000ms) */
+  intervalMs?: number;
+  /**
+   * Bucket capacity: operations that may start at once after a quiet period
+   * (default: tokensPerInterval)
+   */
+  burst?: number;
+  /** Operations in flight at once */
+  maxConcurrent?: number;
+  /** Operations waiting at once; further operations are rejected (default: unlimited) */
+  maxQueueSize?: number;
+  /** Queue priority, higher first; equal priorities start in FIFO order (default: FIFO) */
+  priority?: (op: Operation) => number;
+}
+
+/**
+ * Configuration for rateLimitLink. The top-level limits apply to every operation
+ * not matched by `routers`, and are the defaults of each `routers` key. They are
+ * not a global cap: with `maxConcurrent: 6` and two `routers` keys, up to 18
+ * operations can be in flight at once.
+ */
+export interface RateLimitLinkOptions<TRouter extends AnyRouter> extends RateLimit {
+  /** Name used in errors, usually the endpoint URL (default: 'default') */
+  name?: string;
+  /**
+   * Per-router limits, merged over the top-level limits. Each key gets a bucket,
+   * concurrency cap and queue of its own, separate from the top-level pool, even
+   * where it inherits a top-level value. Keys may be routers, nested routers or
+   * procedure paths; the longest matching prefix wins.
+   */
+  routers?: { [K in RouterPaths<TRouter>]?: RateLimit };
+}
+
+/**
+ * Configuration for timeoutLink. The deadline of an operation is, in order of
+ * precedence: the number in its context under `contextKey`, the longest matching
+ * `routers` key, then `timeoutMs`. Operations without a deadline pass through.
+ */
+export interface TimeoutLinkOptions<TRouter extends AnyRouter> {
+  /** Deadline of every operation not matched by `routers` */
+  timeoutMs?: number;
+  /**
+   * Per-router deadlines in ms. Keys may be routers, nested routers or procedure
+   * paths; the longest matching prefix wins.
+   */
+  routers?: { [K in RouterPaths<TRouter>]?: number };
+  /**
+   * Context key holding a per-operation deadline in ms (default: 'timeoutMs'), e.g.
+   * `client.reports.export.query(input, { context: { timeoutMs: 60_000 } })`
+   */
+  contextKey?: string;
+}
+
+/**
+ * The deadline timeoutLink applied to an operation.
+ */
+export interface OperationDeadline {
+  timeoutMs: number;
+  /** When the operation times out (ms since epoch) */
+  deadline: number;
+}
+
+/**
+ * Hedge delay following observed latencies: the hedge is sent once the query
+ * has been running for the given percentile of recent successful latencies.
+ */
+export interface HedgePercentileDelay {
+  /** Latency percentile (0-100) (default: 95) */
+  percentile?: number;
+  /** Delay used until `minSamples` latencies were observed */
+  fallbackMs: number;
+  /** Latencies needed before the percentile is used (default: 20) */
+  minSamples?: number;
+  /** Recent latencies kept per `routers` key (default: 100) */
+  windowSize?: number;
+}
+
+/**
+ * When hedgeLink sends the hedge of a query still running.
+ */
+export interface HedgePolicy {
+  /**
+   * Fixed delay in ms, or a percentile of recent latencies
+   * (default: `{ percentile: 95, fallbackMs: 100 }`)
+   */
+  delay?: number | HedgePercentileDelay;
+}
+
+/**
+ * Caps the number of hedges a hedgeLink sends within a time window,
+ * so a slow service does not get twice the traffic.
+ */
+export interface HedgeBudget {
+  /** Hedges allowed within the window */
+  maxHedges: number;
+  /** Sliding window length (default: 10s) */
+  windowMs?: number;
+}
+
+/**
+ * Reported when a hedge is sent.
+ */
+export interface HedgeEvent {
+  op: Operation;
+  /** How long the query had been running */
+  delayMs: number;
+  /** Endpoint of the first attempt, which the hedge avoids when it can */
+  avoidedEndpoint?: string;
+}
+
+/**
+ * Configuration for hedgeLink. The top-level policy applies to every router
+ * opted in through `routers`.
+ */
+export interface HedgeLinkOptions<TRouter extends AnyRouter> extends HedgePolicy {
+  /**
+   * Routers whose queries are hedged: `true`, or a policy merged over the
+   * top-level one. Keys may be routers, nested routers or procedure paths; the
+   * longest matching prefix wins, and `false` opts a nested key back out.
+   */
+  routers: { [K in RouterPaths<TRouter>]?: boolean | HedgePolicy };
+  /** Hedge budget shared by every operation (default: 10 hedges per 10s) */
+  budget?: HedgeBudget;
+  /** Called when a hedge is sent */
+  onHedge?: (event: HedgeEvent) => void;
+}
+
+/**
+ * A tRPC error response scripted on a mock link, e.g. `{ code: 'FORBIDDEN' }`.
+ */
+export interface MockTRPCError {
+  code: TRPC_ERROR_CODE_KEY;
+  /** Message of the error (default: the code) */
+  message?: string;
+  /** HTTP status of the response (default: the status tRPC uses for the code) */
+  httpStatus?: number;
+  /** Extra fields of the error's `data`, besides `code`, `httpStatus` and `path` */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * A scripted answer of a mock link:
+ * - data: answers with `data` and completes
+ * - error: fails with a TRPCClientError. A string or an Error becomes its cause;
+ *   it has no response shape, so it counts as a network-level error (links fail
+ *   over, retry or queue it). A MockTRPCError becomes a tRPC error response.
+ * - stream: emits every value `intervalMs` apart, then completes unless `keepOpen`
+ * - pending: never answers, until aborted or unsubscribed
+ *
+ * `delayMs` delays the (first) answer; without it the mock answers synchronously.
+ */
+export type MockResponse =
+  | { data: unknown; delayMs?: number }
+  | { error: Error | string | MockTRPCError; delayMs?: number }
+  | { stream: readonly unknown[]; intervalMs?: number; keepOpen?: boolean; delayMs?: number }
+  | { pending: true };
+
+/**
+ * A scripted answer, or a function picking one for each operation.
+ */
+export type MockResponder = MockResponse | ((op: Operation) => MockResponse);
+
+/**
+ * Configuration for createMockLink.
+ */
+export interface MockLinkOptions<TRouter extends AnyRouter> {
+  /** Recorded on every call, e.g. the endpoint the mock stands for (default: 'mock') */
+  name?: string;
+  /**
+   * Responses by path. Keys may be routers, nested routers or procedure paths;
+   * the longest matching prefix wins.
+   */
+  responses?: { [K in RouterPaths<TRouter>]?: MockResponder };
+  /** Response for paths without one (default: fails with "no response scripted") */
+  fallback?: MockResponder;
+}
+
+/**
+ * Where a call to a mock link, or an operation run by a test harness, stands.
+ * - cancelled: aborted through `op.signal` or unsubscribed before it ended
+ */
+export type MockCallStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * One operation received by a mock link.
+ */
+export interface MockLinkCall {
+  /** Name of the mock link */
+  link: string;
+  /** The operation as received, after every link before the mock */
+  op: Operation;
+  /**
+   * Calls received by a mock link within the same tick share a batch number,
+   * like the operations httpBatchLink sends in one request
+   */
+  batch: number;
+  status: MockCallStatus;
+  /** Whether `op.signal` aborted before the call ended */
+  aborted: boolean;
+}
+
+/**
+ * A terminating link answering with scripted responses, and recording every
+ * operation it received.
+ */
+export type MockLink<TRouter extends AnyRouter> = TRPCLink<TRouter> & {
+  /** Every call received, in order */
+  readonly calls: readonly MockLinkCall[];
+  /** Paths of the calls, grouped by batch */
+  batches(): string[][];
+  /** Scripts the response of a path, replacing the previous one */
+  respond(path: RouterPaths<TRouter>, responder: MockResponder): void;
+  /** Forgets the recorded calls; scripted responses are kept */
+  reset(): void;
+};
+
+/**
+ * Configuration for createLinkTestHarness.
+ */
+export interface LinkTestHarnessOptions {
+  /** Runtime the links are initialized with (default: an empty runtime) */
+  runtime?: TRPCClientRuntime;
+}
+
+/**
+ * An operation to run through a test harness. Only `path` is required.
+ */
+export interface HarnessOperationInput<TRouter extends AnyRouter> {
+  path: ProcedurePaths<TRouter>;
+  /** Default: 'query' */
+  type?: Operation['type'];
+  input?: unknown;
+  context?: Operation['context'];
+  /** Aborting it aborts the operation, like `harnessOperation.abort()` */
+  signal?: AbortSignal;
+}
+
+/**
+ * An operation running through a test harness, updated as results arrive.
+ */
+export interface HarnessOperation {
+  /** The operation passed to the first link */
+  op: Operation;
+  status: MockCallStatus;
+  /** Data of every result, in order */
+  values: unknown[];
+  /** The error the operation failed with */
+  error?: unknown;
+  /** Routing decision recorded by endpointRouterLink and switchLink, if any */
+  readonly routing: RoutingDecision | undefined;
+  /** Resolves with the data of the last result once completed, or rejects with the error */
+  result(): Promise<unknown>;
+  /** Aborts the operation through its signal */
+  abort(reason?: unknown): void;
+  /** Unsubscribes from the operation, like a component unmounting */
+  unsubscribe(): void;
+}
+
+/**
+ * Runs operations through a link chain ending with mock links, like a client would.
+ */
+export interface LinkTestHarness<TRouter extends AnyRouter> {
+  run(input: HarnessOperationInput<TRouter>): HarnessOperation;
+  /** Runs a query and resolves with its data */
+  query(
+    path: ProcedurePaths<TRouter>,
+    input?: unknown,
+    context?: Operation['context']
+  ): Promise<unknown>;
+  /** Runs a mutation and resolves with its data */
+  mutation(
+    path: ProcedurePaths<TRouter>,
+    input?: unknown,
+    context?: Operation['context']
+  ): Promise<unknown>;
+  /** Every call received by the mock links of the chain, in order */
+  readonly calls: readonly MockLinkCall[];
+  /** Calls received by the mock links named `link` */
+  callsTo(link: string): MockLinkCall[];
+  /** Paths of the calls grouped by batch, optionally of the mock links named `link` */
+  batches(link?: string): string[][];
+  /** Forgets the recorded calls */
+  reset(): void;
+}
+
+/**
+ * Whether recordReplayLink sends operations and records them, or answers them
+ * from the recordings.
+ */
+export type RecordReplayMode = 'record' | 'replay';
+
+/**
+ * How a recorded operation failed. Errors of a tRPC response keep their shape,
+ * so they replay as the same tRPC error; other errors replay as network-level
+ * errors with the same message.
+ */
+export interface RecordedError {
+  message: string;
+  shape?: unknown;
+  data?: unknown;
+}
+
+/**
+ * One operation recorded by recordReplayLink.
+ */
+export interface RecordedOperation {
+  path: string;
+  type: Operation['type'];
+  input: unknown;
+  /** Context entries listed in `contextKeys` */
+  context?: Record<string, unknown>;
+  /** Endpoint the operation was routed to, when endpointRouterLink comes after the link */
+  endpoint?: string;
+  /** Data of every result, in order */
+  results: unknown[];
+  /** Set when the operation failed */
+  error?: RecordedError;
+  /** Set for subscriptions recorded while still open; they replay without completing */
+  open?: boolean;
+}
+
+/**
+ * Content of a fixture file, as JSON.
+ */
+export interface RecordedFixture {
+  version: 1;
+  operations: RecordedOperation[];
+}
+
+/**
+ * Tells whether a recording answers an operation.
+ */
+export type RecordedOperationMatcher = (op: Operation, recorded: RecordedOperation) => boolean;
+
+/**
+ * Reads and writes the JSON of a fixture, e.g. from a file. Both methods may be
+ * synchronous or asynchronous; `read` returns undefined when there is no fixture yet.
+ */
+export interface FixtureStorageAdapter {
+  read(): string | undefined | Promise<string | undefined>;
+  write(json: string): void | Promise<void>;
+}
+
+/**
+ * Handle of the recordings of a recordReplayLink.
+ */
+export interface RecordReplayFixture {
+  /** Operations recorded so far, or loaded for replay */
+  readonly operations: readonly RecordedOperation[];
+  /** Resolves once every recording was written, or rejects with the write error */
+  flush(): Promise<void>;
+}
+
+/**
+ * Turns values into JSON-compatible data and back, like a tRPC data transformer
+ * (e.g. superjson).
+ */
+export interface FixtureTransformer {
+  serialize(value: unknown): unknown;
+  deserialize(value: unknown): unknown;
+}
+
+/**
+ * Configuration for recordReplayLink.
+ */
+export interface RecordReplayLinkOptions {
+  mode: RecordReplayMode;
+  /** Where the fixture is written to (record mode) or read from (replay mode) */
+  storage: FixtureStorageAdapter;
+  /**
+   * How operations are matched to recordings in replay mode:
+   * - input: same path, type and input (compared as JSON, ignoring key order)
+   * - path: same path and type, whatever the input
+   * - a function comparing the operation with each recording
+   * Default: 'input'
+   */
+  match?: 'input' | 'path' | RecordedOperationMatcher;
+  /** Context entries recorded with each operation, e.g. for custom matchers (default: none) */
+  contextKeys?: string[];
+  /**
+   * Transformer of the API, e.g. superjson. Inputs, results and error shapes are
+   * then recorded serialized and replayed deserialized, so values like Date and
+   * Map survive the fixture; custom matchers see the serialized inputs. Without
+   * it, they are recorded as plain JSON, e.g. a Date replays as its ISO string.
+   */
+  transformer?: FixtureTransformer;
+}
+
+/**
+ * Tells offlineQueueLink whether the device is online, e.g. from
+ * `navigator.onLine` and the window `online`/`offline` events.
+ */
+export interface ConnectivitySignal {
+  isOnline(): boolean;
+  /** Calls `listener` when connectivity changes; returns an unsubscribe function */
+  subscribe(listener: (online: boolean) => void): () => void;
+}
+
+/**
+ * A mutation waiting in the offline queue, as persisted.
+ */
+export interface QueuedMutation {
+  /** Storage key of the mutation */
+  id: string;
+  /** Position in the queue; mutations of a router replay in ascending order */
+  sequence: number;
+  path: string;
+  input: unknown;
+  /** Context entries listed in `contextKeys` */
+  context?: Record<string, unknown>;
+  dedupeKey?: string;
+  /** When the mutation was queued, as a timestamp */
+  queuedAt: number;
+  /** Replays attempted so far */
+  attempts: number;
+}
+
+/**
+ * Storage persisting the offline queue. Methods may return promises, e.g. for
+ * IndexedDB or the filesystem.
+ */
+export interface OfflineQueueStorage {
+  get(id: string): QueuedMutation | undefined | Promise<QueuedMutation | undefined>;
+  set(id: string, mutation: QueuedMutation): void | Promise<void>;
+  delete(id: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+}
+
+/**
+ * A queued mutation the server rejected when it was replayed.
+ */
+export interface OfflineConflict {
+  mutation: QueuedMutation;
+  error: unknown;
+}
+
+/**
+ * What to do with a rejected mutation:
+ * - drop: remove it from the queue; callers still waiting get the error
+ * - retry: keep it first in line, and replay it again later
+ * - `{ input }`: replay it right away with another input, e.g. merged with the server state
+ */
+export type OfflineConflictResolution = 'drop' | 'retry' | { input: unknown };
+
+/**
+ * How offlineQueueLink queues the mutations of a router.
+ */
+export interface OfflineQueuePolicy {
+  /**
+   * Resolve queued mutations right away instead of when they are replayed:
+   * `true` resolves them with `undefined`, a function with the data it returns
+   * (default: false, they stay pending)
+   */
+  optimistic?: boolean | ((op: Operation) => unknown);
+  /**
+   * Key identifying mutations that supersede each other, e.g. saves of the same
+   * draft: a mutation replaces the queued mutation of its router with the same key
+   */
+  dedupeKey?: (op: Operation) => string | undefined;
+}
+
+/**
+ * Handle of the mutations queued by an offlineQueueLink.
+ */
+export interface OfflineQueue {
+  /** Whether the link currently considers the device online */
+  readonly online: boolean;
+  /** Queued mutations, in order */
+  readonly mutations: readonly QueuedMutation[];
+  /** Replays the queued mutations now; resolves once they were replayed or failed */
+  flush(): Promise<void>;
+}
+
+/**
+ * Configuration for offlineQueueLink. The top-level policy applies to every
+ * router, unless `routers` lists the routers whose mutations are queued.
+ */
+export interface OfflineQueueLinkOptions<TRouter extends AnyRouter> extends OfflineQueuePolicy {
+  /** Where the queue is persisted (default: in memory) */
+  storage?: OfflineQueueStorage;
+  /**
+   * Online/offline signal. Without one, a network-level error means offline, and
+   * the next successful operation, or replay attempt, means online again.
+   */
+  connectivity?: ConnectivitySignal;
+  /**
+   * Routers whose mutations are queued: `true`, or a policy merged over the
+   * top-level one. Keys may be routers, nested routers or procedure paths; the
+   * longest matching prefix wins, and `false` opts a nested key back out.
+   * Default: every mutation is queued.
+   */
+  routers?: { [K in RouterPaths<TRouter>]?: boolean | OfflineQueuePolicy };
+  /** Context entries persisted with each mutation, e.g. an idempotency key (default: none) */
+  contextKeys?: string[];
+  /** Delay between replay attempts while offline (default: 5000ms) */
+  retryDelayMs?: number;
+  /** Called when the server rejects a replayed mutation (default: 'drop') */
+  onConflict?: (
+    conflict: OfflineConflict
+  ) => OfflineConflictResolution | Promise<OfflineConflictResolution>;
 }
@@ -0,0 +1,173 @@
+import type { AnyRouter } from '@trpc/server';
+import { getTargetEndpoints } from './endpoint-target';
+import { getPathPrefixes, getRouterName, matchLongestPrefix } from './path-matching';
+import type {
+  EndpointTarget,
+  RouterMappingDiagnostic,
+  RouterMappingReport,
+  RouterMappingSeverity,
+  ValidateRouterMappingOptions,
+} from './types';
+
+const DEFAULT_SEVERITY: Record<RouterMappingDiagnostic['code'], RouterMappingSeverity> = {
+  'unmapped-router': 'error',
+  'stale-key': 'error',
+  'duplicate-endpoint': 'warning',
+  'invalid-url': 'error',
+};
+
+/**
+ * Whether a path is strictly below a router path ("billing.payouts" is below "billing").
+ */
+function isBelow(path: string, routerPath: string): boolean {
+  return path.startsWith(`${routerPath}.`);
+}
+
+/**
+ * Whether an endpoint is an absolute http(s) URL or a path relative to the current origin.
+ */
+function isValidEndpointUrl(endpoint: string): boolean {
+  if (endpoint.startsWith('/')) {
+    return !endpoint.startsWith('//');
+  }
+
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates an endpointRouterLink mapping against a live server router, walking
+ * `_def.procedures` (and the paths of lazy routers that are not loaded yet).
+ * Implements the "registry linter" recommended by the spec: it reports unmapped
+ * routers, stale keys, duplicate endpoints and invalid URLs as structured
+ * diagnostics so CI suites can assert on them.
+ *
+ * @example
+ * ```ts
+ * import { appRouter } from '../server/router';
+ *
+ * it('maps every router to an endpoint', () => {
+ *   const report = validateRouterMapping(appRouter, routerToEndpoint, {
+ *     ignore: ['health'],
+ *   });
+ *   expect(report.diagnostics).toEqual([]);
+ * });
+ * ```
+ */
+export function validateRouterMapping<TRouter extends AnyRouter>(
+  appRouter: TRouter,
+  routerToEndpoint: Record<string, EndpointTarget | undefined>,
+  opts: ValidateRouterMappingOptions = {}
+): RouterMappingReport {
+  const { defaultEndpoint, ignore = [] } = opts;
+  const severity = { ...DEFAULT_SEVERITY, ...opts.severity };
+  const diagnostics: RouterMappingDiagnostic[] = [];
+  const entries = Object.entries(routerToEndpoint).filter(
+    (entry): entry is [string, EndpointTarget] => entry[1] !== undefined
+  );
+
+  const def = appRouter._def as {
+    procedures: Record<string, unknown>;
+    lazy?: Record<string, unknown>;
+  };
+  // Lazy routers expose only their own path until loaded, so anything below
+  // them can be neither verified nor reported as stale
+  const lazyPaths = Object.keys(def.lazy ?? {});
+  const paths = [...Object.keys(def.procedures), ...lazyPaths];
+  const knownPaths = new Set(paths.flatMap(getPathPrefixes));
+  const isIgnored = (path: string) =>
+    ignore.some((ignoredPath) => path === ignoredPath || isBelow(path, ignoredPath));
+
+  // Unmapped routers, grouped by top-level router name
+  const unmapped = new Map<string, string[]>();
+  for (const path of paths) {
+    if (
+      matchLongestPrefix(routerToEndpoint, path) ||
+      isIgnored(path) ||
+      (lazyPaths.includes(path) && entries.some(([key]) => isBelow(key, path)))
+    ) {
+      continue;
+    }
+    const router = getRouterName(path);
+    unmapped.set(router, [...(unmapped.get(router) ?? []), path]);
+  }
+  for (const [router, routerPaths] of unmapped) {
+    diagnostics.push({
+      code: 'unmapped-router',
+      // Operations still reach the default endpoint, so this is only a warning by default
+      severity:
+        defaultEndpoint === undefined
+          ? severity['unmapped-router']
+          : (opts.severity?.['unmapped-router'] ?? 'warning'),
+      message:
+        defaultEndpoint === undefined
+          ? `Router "${router}" has no endpoint for: ${routerPaths.join(', ')}`
+          : `Router "${router}" falls back to defaultEndpoint for: ${routerPaths.join(', ')}`,
+      router,
+      paths: routerPaths,
+    });
+  }
+
+  // Keys that no longer match anything in the AppRouter
+  const endpointKeys = new Map<string, string[]>();
+  for (const [key, target] of entries) {
+    if (!knownPaths.has(key) && !lazyPaths.some((lazyPath) => isBelow(key, lazyPath))) {
+      diagnostics.push({
+        code: 'stale-key',
+        severity: severity['stale-key'],
+        message: `Mapping key "${key}" matches no router or procedure in the AppRouter`,
+        key,
+      });
+    }
+
+    for (const endpoint of getTargetEndpoints(target)) {
+      endpointKeys.set(endpoint, [...(endpointKeys.get(endpoint) ?? []), key]);
+    }
+  }
+
+  for (const [endpoint, keys] of endpointKeys) {
+    if (keys.length > 1) {
+      diagnostics.push({
+        code: 'duplicate-endpoint',
+        severity: severity['duplicate-endpoint'],
+        message: `Endpoint "${endpoint}" is mapped by several keys: ${keys.join(', ')}`,
+        endpoint,
+        keys,
+      });
+    }
+  }
+
+  const targets = [...entries];
+  if (defaultEndpoint !== undefined) {
+    targets.push(['defaultEndpoint', defaultEndpoint]);
+  }
+  for (const [key, target] of targets) {
+    for (const endpoint of getTargetEndpoints(target)) {
+      if (!isValidEndpointUrl(endpoint)) {
+        diagnostics.push({
+          code: 'invalid-url',
+          severity: severity['invalid-url'],
+          message: `Endpoint "${endpoint}" for "${key}" is not an http(s) URL or absolute path`,
+          key,
+          endpoint,
+        });
+      }
+    }
+  }
+
+  return {
+    valid: diagnostics.every((diagnostic) => diagnostic.severity !== 'error'),
+    diagnostics,
+  };
+}
+
+export type {
+  RouterMappingDiagnostic,
+  RouterMappingReport,
+  RouterMappingSeverity,
+  ValidateRouterMappingOptions,
+} from './types.js';
@@ -14,4 +14,13 @@ export default defineConfig([
     target: 'node22',
     noExternal: [],
   },
+  {
+    entry: ['src/bin.ts'],
+    outDir: 'dist',
+    format: ['esm'],
+    dts: false,
+    clean: false,
+    treeshake: true,
+    target: 'node22',
+  },
 ]);